@@ -62,6 +62,190 @@ export function initDatabase(): void {
     db.exec(`ALTER TABLE messages ADD COLUMN to_node INTEGER;`);
     db.pragma("user_version = 3");
   }
+
+  if (userVersion < 4) {
+    // One row per telemetry report or sampled packet; unused columns stay NULL
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS telemetry (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        node_id INTEGER NOT NULL,
+        timestamp INTEGER NOT NULL,
+        battery_level INTEGER,
+        voltage REAL,
+        channel_utilization REAL,
+        air_util_tx REAL,
+        uptime_seconds INTEGER,
+        temperature REAL,
+        relative_humidity REAL,
+        barometric_pressure REAL,
+        gas_resistance REAL,
+        lux REAL,
+        ch1_voltage REAL,
+        ch1_current REAL,
+        ch2_voltage REAL,
+        ch2_current REAL,
+        ch3_voltage REAL,
+        ch3_current REAL,
+        snr REAL,
+        rssi INTEGER
+      );
+      CREATE INDEX IF NOT EXISTS idx_telemetry_node_time ON telemetry(node_id, timestamp);
+      CREATE INDEX IF NOT EXISTS idx_telemetry_timestamp ON telemetry(timestamp);
+    `);
+    db.pragma("user_version = 4");
+  }
+
+  if (userVersion < 5) {
+    db.exec(`
+      ALTER TABLE telemetry ADD COLUMN iaq INTEGER;
+      ALTER TABLE telemetry ADD COLUMN pm10_standard INTEGER;
+      ALTER TABLE telemetry ADD COLUMN pm25_standard INTEGER;
+      ALTER TABLE telemetry ADD COLUMN pm100_standard INTEGER;
+      ALTER TABLE telemetry ADD COLUMN particles_03um INTEGER;
+      ALTER TABLE telemetry ADD COLUMN particles_05um INTEGER;
+      ALTER TABLE telemetry ADD COLUMN particles_10um INTEGER;
+      ALTER TABLE telemetry ADD COLUMN particles_25um INTEGER;
+      ALTER TABLE telemetry ADD COLUMN particles_50um INTEGER;
+      ALTER TABLE telemetry ADD COLUMN particles_100um INTEGER;
+      ALTER TABLE telemetry ADD COLUMN co2 INTEGER;
+    `);
+    db.pragma("user_version = 5");
+  }
+
+  if (userVersion < 6) {
+    // Every position fix, so tracks can be drawn (nodes only keeps the latest)
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS positions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        node_id INTEGER NOT NULL,
+        timestamp INTEGER NOT NULL,
+        latitude REAL NOT NULL,
+        longitude REAL NOT NULL,
+        altitude INTEGER,
+        ground_speed INTEGER,
+        ground_track REAL,
+        precision_bits INTEGER,
+        sats_in_view INTEGER
+      );
+      CREATE INDEX IF NOT EXISTS idx_positions_node_time ON positions(node_id, timestamp);
+      CREATE INDEX IF NOT EXISTS idx_positions_timestamp ON positions(timestamp);
+    `);
+    db.pragma("user_version = 6");
+  }
+
+  if (userVersion < 7) {
+    // Keyed by the waypoint id from the packet, so edits replace the row
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS waypoints (
+        id INTEGER PRIMARY KEY,
+        from_node INTEGER NOT NULL,
+        channel INTEGER NOT NULL DEFAULT 0,
+        latitude REAL NOT NULL,
+        longitude REAL NOT NULL,
+        name TEXT NOT NULL DEFAULT '',
+        description TEXT NOT NULL DEFAULT '',
+        icon INTEGER,
+        locked_to INTEGER,
+        expire INTEGER,
+        updated_at INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_waypoints_expire ON waypoints(expire);
+    `);
+    db.pragma("user_version = 7");
+  }
+
+  if (userVersion < 8) {
+    // Hop lists and per-hop SNR (dB, null = unknown) are JSON arrays
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS traceroutes (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        from_node INTEGER NOT NULL,
+        to_node INTEGER NOT NULL,
+        timestamp INTEGER NOT NULL,
+        route TEXT NOT NULL,
+        snr_towards TEXT NOT NULL,
+        route_back TEXT NOT NULL,
+        snr_back TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_traceroutes_to_time ON traceroutes(to_node, timestamp);
+    `);
+    db.pragma("user_version = 8");
+  }
+
+  if (userVersion < 9) {
+    // Directed radio links: to_node heard from_node at snr (dB, NULL = unknown)
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS links (
+        from_node INTEGER NOT NULL,
+        to_node INTEGER NOT NULL,
+        snr REAL,
+        last_seen INTEGER NOT NULL,
+        source TEXT NOT NULL,
+        PRIMARY KEY (from_node, to_node)
+      );
+      CREATE INDEX IF NOT EXISTS idx_links_last_seen ON links(last_seen);
+    `);
+    db.pragma("user_version = 9");
+  }
+
+  if (userVersion < 10) {
+    // Full-text index over message text, kept in sync with triggers.
+    // External content: the text lives only in messages, FTS holds the index.
+    db.exec(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS messages_fts USING fts5(
+        payload,
+        content='messages',
+        content_rowid='id',
+        tokenize='unicode61 remove_diacritics 2'
+      );
+
+      CREATE TRIGGER IF NOT EXISTS messages_fts_insert AFTER INSERT ON messages BEGIN
+        INSERT INTO messages_fts(rowid, payload) VALUES (new.id, new.payload);
+      END;
+      CREATE TRIGGER IF NOT EXISTS messages_fts_delete AFTER DELETE ON messages BEGIN
+        INSERT INTO messages_fts(messages_fts, rowid, payload) VALUES ('delete', old.id, old.payload);
+      END;
+      CREATE TRIGGER IF NOT EXISTS messages_fts_update AFTER UPDATE OF payload ON messages BEGIN
+        INSERT INTO messages_fts(messages_fts, rowid, payload) VALUES ('delete', old.id, old.payload);
+        INSERT INTO messages_fts(rowid, payload) VALUES (new.id, new.payload);
+      END;
+
+      INSERT INTO messages_fts(messages_fts) VALUES ('rebuild');
+    `);
+    db.pragma("user_version = 10");
+  }
+
+  if (userVersion < 11) {
+    // Small key/value store for main-process settings (JSON values)
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS app_settings (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL
+      );
+    `);
+    db.pragma("user_version = 11");
+  }
+
+  if (userVersion < 12) {
+    // Messages composed while disconnected, sent in id order on reconnect
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS outbox (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        payload TEXT NOT NULL,
+        channel INTEGER NOT NULL DEFAULT 0,
+        to_node INTEGER,
+        reply_id INTEGER,
+        created_at INTEGER NOT NULL
+      );
+    `);
+    db.pragma("user_version = 12");
+  }
+
+  if (userVersion < 13) {
+    // Number of times an outgoing message was sent; status/error hold the final outcome
+    db.exec(`ALTER TABLE messages ADD COLUMN attempts INTEGER;`);
+    db.pragma("user_version = 13");
+  }
 }
 
 export function getDatabase(): Database.Database {
@@ -71,6 +255,25 @@ export function getDatabase(): Database.Database {
   return db;
 }
 
+/** Read a JSON value from app_settings (null if unset or unreadable) */
+export function readSetting<T>(key: string): T | null {
+  const row = getDatabase()
+    .prepare("SELECT value FROM app_settings WHERE key = ?")
+    .get(key) as { value: string } | undefined;
+  if (!row) return null;
+  try {
+    return JSON.parse(row.value) as T;
+  } catch {
+    return null;
+  }
+}
+
+export function writeSetting(key: string, value: unknown): void {
+  getDatabase()
+    .prepare("INSERT OR REPLACE INTO app_settings (key, value) VALUES (?, ?)")
+    .run(key, JSON.stringify(value));
+}
+
 export function getDatabasePath(): string {
   return path.join(app.getPath("userData"), "electastic.db");
 }
@@ -1,6 +1,40 @@
-import { app, BrowserWindow, ipcMain, dialog, powerMonitor } from "electron";
+import { app, BrowserWindow, ipcMain, dialog, powerMonitor, protocol } from "electron";
 import path from "path";
+import fs from "fs/promises";
 import { initDatabase, getDatabase, exportDatabase, mergeDatabase } from "./database";
+import { openTcpSocket, writeTcpSocket, closeTcpSocket, closeAllTcpSockets } from "./tcp";
+import {
+  MBTILES_SCHEME,
+  openMbtiles,
+  closeMbtiles,
+  closeAllMbtiles,
+  handleMbtilesRequest,
+} from "./mbtiles";
+import {
+  TILE_CACHE_SCHEME,
+  handleTileCacheRequest,
+  estimateTiles,
+  startRegionDownload,
+  cancelRegionDownload,
+  listRegions,
+  deleteRegion,
+  clearTileCache,
+  getTileCacheStats,
+  closeTileCache,
+  type TileBounds,
+} from "./tileCache";
+import {
+  getRetentionPolicy,
+  setRetentionPolicy,
+  pruneDatabase,
+  startRetentionSchedule,
+  stopRetentionSchedule,
+  getDatabaseReport,
+  vacuumDatabase,
+  checkDatabaseIntegrity,
+  type RetentionPolicy,
+} from "./retention";
+import { rememberUserFiles, forgetUserFile, assertUserFile } from "./userFiles";
 
 let mainWindow: BrowserWindow | null = null;
 
@@ -24,6 +58,19 @@ process.on("unhandledRejection", (reason) => {
   console.error("Unhandled rejection:", reason);
 });
 
+// Offline map tiles are served over mbtiles:// and tilecache:// — must be
+// registered before ready
+protocol.registerSchemesAsPrivileged([
+  {
+    scheme: MBTILES_SCHEME,
+    privileges: { standard: true, secure: true, supportFetchAPI: true, corsEnabled: true },
+  },
+  {
+    scheme: TILE_CACHE_SCHEME,
+    privileges: { standard: true, secure: true, supportFetchAPI: true, corsEnabled: true },
+  },
+]);
+
 // Enable Web Bluetooth feature flag
 app.commandLine.appendSwitch("enable-features", "WebBluetooth");
 // Enable Web Serial (experimental)
@@ -182,11 +229,37 @@ ipcMain.on("serial-port-cancelled", () => {
 });
 
 // ─── IPC: Database operations ──────────────────────────────────────
+const MESSAGE_COLUMNS = `id, sender_id, sender_name, payload, channel, timestamp,
+       packet_id AS packetId, status, error, emoji, reply_id AS replyId, to_node, attempts`;
+
+/** A messages row as selected by MESSAGE_COLUMNS */
+interface MessageRow {
+  id: number;
+  sender_id: number;
+  sender_name: string | null;
+  payload: string;
+  channel: number;
+  timestamp: number;
+  packetId: number | null;
+  status: string | null;
+  error: string | null;
+  emoji: number | null;
+  replyId: number | null;
+  to_node: number | null;
+  attempts: number | null;
+}
+
+/** Map to_node back to `to` for the renderer */
+function toChatMessage<R extends MessageRow>(row: R) {
+  const { to_node, ...rest } = row;
+  return { ...rest, to: to_node ?? undefined };
+}
+
 ipcMain.handle("db:saveMessage", (_event, message) => {
   const db = getDatabase();
   const stmt = db.prepare(`
-    INSERT INTO messages (sender_id, sender_name, payload, channel, timestamp, packet_id, status, error, emoji, reply_id, to_node)
-    VALUES (@sender_id, @sender_name, @payload, @channel, @timestamp, @packet_id, @status, @error, @emoji, @reply_id, @to_node)
+    INSERT INTO messages (sender_id, sender_name, payload, channel, timestamp, packet_id, status, error, emoji, reply_id, to_node, attempts)
+    VALUES (@sender_id, @sender_name, @payload, @channel, @timestamp, @packet_id, @status, @error, @emoji, @reply_id, @to_node, @attempts)
   `);
   return stmt.run({
     sender_id: message.sender_id,
@@ -200,30 +273,25 @@ ipcMain.handle("db:saveMessage", (_event, message) => {
     emoji: message.emoji ?? null,
     reply_id: message.replyId ?? null,
     to_node: message.to ?? null,
+    attempts: message.attempts ?? null,
   });
 });
 
 ipcMain.handle("db:getMessages", (_event, channel?: number, limit = 200) => {
   const db = getDatabase();
-  const columns = `id, sender_id, sender_name, payload, channel, timestamp,
-       packet_id AS packetId, status, error, emoji, reply_id AS replyId, to_node`;
-  let rows: any[];
+  let rows: MessageRow[];
   if (channel !== undefined && channel !== null) {
     rows = db
       .prepare(
-        `SELECT ${columns} FROM messages WHERE channel = ? ORDER BY timestamp DESC LIMIT ?`
+        `SELECT ${MESSAGE_COLUMNS} FROM messages WHERE channel = ? ORDER BY timestamp DESC LIMIT ?`
       )
-      .all(channel, limit);
+      .all(channel, limit) as MessageRow[];
   } else {
     rows = db
-      .prepare(`SELECT ${columns} FROM messages ORDER BY timestamp DESC LIMIT ?`)
-      .all(limit);
+      .prepare(`SELECT ${MESSAGE_COLUMNS} FROM messages ORDER BY timestamp DESC LIMIT ?`)
+      .all(limit) as MessageRow[];
   }
-  // Map to_node back to `to` for the renderer
-  return rows.map((r: any) => {
-    const { to_node, ...rest } = r;
-    return { ...rest, to: to_node ?? undefined };
-  });
+  return rows.map(toChatMessage);
 });
 
 ipcMain.handle("db:saveNode", (_event, node) => {
@@ -266,6 +334,579 @@ ipcMain.handle(
   }
 );
 
+// A resend goes out under a new packet id; move the row over to it
+ipcMain.handle(
+  "db:markMessageResent",
+  (_event, oldPacketId: number, newPacketId: number, attempts: number) => {
+    const db = getDatabase();
+    return db
+      .prepare(
+        `UPDATE messages SET packet_id = ?, attempts = ?, status = 'sending', error = NULL
+         WHERE packet_id = ?`
+      )
+      .run(newPacketId, attempts, oldPacketId);
+  }
+);
+
+// ─── IPC: Outbox (messages queued while disconnected) ───────────────
+ipcMain.handle("db:queueMessage", (_event, item) => {
+  const db = getDatabase();
+  const result = db
+    .prepare(
+      `INSERT INTO outbox (payload, channel, to_node, reply_id, created_at)
+       VALUES (?, ?, ?, ?, ?)`
+    )
+    .run(item.payload, item.channel ?? 0, item.to ?? null, item.replyId ?? null, item.createdAt);
+  return Number(result.lastInsertRowid);
+});
+
+// Puts a claimed entry back under its old id, so it keeps its place in line
+ipcMain.handle("db:requeueMessage", (_event, item) => {
+  const db = getDatabase();
+  return db
+    .prepare(
+      `INSERT OR IGNORE INTO outbox (id, payload, channel, to_node, reply_id, created_at)
+       VALUES (?, ?, ?, ?, ?, ?)`
+    )
+    .run(item.id, item.payload, item.channel ?? 0, item.to ?? null, item.replyId ?? null, item.createdAt);
+});
+
+/** An outbox row (schema v12) as selected for the renderer */
+interface OutboxRow {
+  id: number;
+  payload: string;
+  channel: number;
+  to_node: number | null;
+  replyId: number | null;
+  createdAt: number;
+}
+
+ipcMain.handle("db:getQueuedMessages", () => {
+  const db = getDatabase();
+  const rows = db
+    .prepare(
+      `SELECT id, payload, channel, to_node, reply_id AS replyId, created_at AS createdAt
+       FROM outbox ORDER BY id ASC`
+    )
+    .all() as OutboxRow[];
+  return rows.map((r) => {
+    const { to_node, replyId, ...rest } = r;
+    return { ...rest, to: to_node ?? undefined, replyId: replyId ?? undefined };
+  });
+});
+
+ipcMain.handle("db:updateQueuedMessage", (_event, id: number, payload: string) => {
+  const db = getDatabase();
+  return db.prepare("UPDATE outbox SET payload = ? WHERE id = ?").run(payload, id);
+});
+
+ipcMain.handle("db:deleteQueuedMessage", (_event, id: number) => {
+  const db = getDatabase();
+  return db.prepare("DELETE FROM outbox WHERE id = ?").run(id);
+});
+
+ipcMain.handle("db:clearOutbox", () => {
+  const db = getDatabase();
+  return db.prepare("DELETE FROM outbox").run();
+});
+
+// ─── IPC: Message history paging ────────────────────────────────────
+type MessageConversation =
+  | { kind: "channel"; channel?: number }
+  | { kind: "dm"; self: number; peer: number };
+
+/** WHERE clause selecting one conversation: channel broadcasts (one or all) or a DM thread */
+function conversationClause(conversation: MessageConversation): {
+  sql: string;
+  params: number[];
+} {
+  if (conversation.kind === "dm") {
+    const { self, peer } = conversation;
+    return {
+      sql: "((sender_id = ? AND to_node = ?) OR (sender_id = ? AND to_node = ?))",
+      params: [self, peer, peer, self],
+    };
+  }
+  if (conversation.channel === undefined || conversation.channel === null) {
+    return { sql: "to_node IS NULL", params: [] };
+  }
+  return { sql: "to_node IS NULL AND channel = ?", params: [conversation.channel] };
+}
+
+// One page of a conversation older than the cursor, oldest-first.
+// Live messages have no row id yet, so the cursor id is optional.
+ipcMain.handle(
+  "db:getMessagePage",
+  (
+    _event,
+    conversation: MessageConversation,
+    before?: { timestamp: number; id?: number } | null,
+    limit = 100
+  ) => {
+    const db = getDatabase();
+    const { sql, params } = conversationClause(conversation);
+    const where = [sql];
+    const cursorParams: number[] = [];
+    if (before) {
+      if (before.id !== undefined && before.id !== null) {
+        where.push("(timestamp < ? OR (timestamp = ? AND id < ?))");
+        cursorParams.push(before.timestamp, before.timestamp, before.id);
+      } else {
+        where.push("timestamp < ?");
+        cursorParams.push(before.timestamp);
+      }
+    }
+    const rows = db
+      .prepare(
+        `SELECT ${MESSAGE_COLUMNS} FROM messages
+         WHERE ${where.join(" AND ")}
+         ORDER BY timestamp DESC, id DESC LIMIT ?`
+      )
+      .all(...params, ...cursorParams, limit) as MessageRow[];
+    return rows.reverse().map(toChatMessage);
+  }
+);
+
+// ─── IPC: Message search (FTS5) ─────────────────────────────────────
+// Snippet match markers; the renderer splits on these to highlight
+const SNIPPET_START = "\u0002";
+const SNIPPET_END = "\u0003";
+
+/** Turn free text into an FTS5 query: every word must match, as a prefix */
+function toFtsQuery(text: string): string {
+  return text
+    .split(/\s+/)
+    .map((word) => word.replace(/"/g, ""))
+    .filter(Boolean)
+    .map((word) => `"${word}"*`)
+    .join(" ");
+}
+
+ipcMain.handle(
+  "db:searchMessages",
+  (
+    _event,
+    query: string,
+    filters: {
+      senderId?: number;
+      channel?: number;
+      dm?: boolean;
+      since?: number;
+      until?: number;
+    } = {},
+    limit = 100
+  ) => {
+    const match = toFtsQuery(query);
+    if (!match) return [];
+    const db = getDatabase();
+    // Reactions carry an emoji as payload — not worth matching
+    const where = ["(emoji IS NULL OR emoji = 0)"];
+    const params: unknown[] = [match];
+    if (filters.senderId !== undefined && filters.senderId !== null) {
+      where.push("sender_id = ?");
+      params.push(filters.senderId);
+    }
+    if (filters.channel !== undefined && filters.channel !== null) {
+      where.push("channel = ?");
+      params.push(filters.channel);
+    }
+    if (filters.dm === true) where.push("to_node IS NOT NULL");
+    if (filters.dm === false) where.push("to_node IS NULL");
+    if (filters.since !== undefined && filters.since !== null) {
+      where.push("timestamp >= ?");
+      params.push(filters.since);
+    }
+    if (filters.until !== undefined && filters.until !== null) {
+      where.push("timestamp <= ?");
+      params.push(filters.until);
+    }
+    const rows = db
+      .prepare(
+        `SELECT ${MESSAGE_COLUMNS}, hit.snippet
+         FROM messages
+         JOIN (
+           SELECT rowid,
+                  snippet(messages_fts, 0, '${SNIPPET_START}', '${SNIPPET_END}', '…', 16) AS snippet
+           FROM messages_fts WHERE messages_fts MATCH ?
+         ) hit ON hit.rowid = messages.id
+         WHERE ${where.join(" AND ")}
+         ORDER BY timestamp DESC LIMIT ?`
+      )
+      .all(...params, limit) as Array<MessageRow & { snippet: string }>;
+    return rows.map(toChatMessage);
+  }
+);
+
+// Messages before and after one message in the same conversation
+// (its channel, or the DM thread between the same two nodes), oldest-first
+ipcMain.handle("db:getMessageContext", (_event, id: number, around = 50) => {
+  const db = getDatabase();
+  const target = db
+    .prepare("SELECT id, sender_id, channel, timestamp, to_node FROM messages WHERE id = ?")
+    .get(id) as
+    | { id: number; sender_id: number; channel: number; timestamp: number; to_node: number | null }
+    | undefined;
+  if (!target) return [];
+
+  const { sql: conversation, params: conversationParams } = conversationClause(
+    target.to_node === null
+      ? { kind: "channel", channel: target.channel }
+      : { kind: "dm", self: target.sender_id, peer: target.to_node }
+  );
+
+  const before = db
+    .prepare(
+      `SELECT ${MESSAGE_COLUMNS} FROM messages
+       WHERE ${conversation} AND (timestamp < ? OR (timestamp = ? AND id <= ?))
+       ORDER BY timestamp DESC, id DESC LIMIT ?`
+    )
+    .all(
+      ...conversationParams, target.timestamp, target.timestamp, target.id, around + 1
+    ) as MessageRow[];
+  const after = db
+    .prepare(
+      `SELECT ${MESSAGE_COLUMNS} FROM messages
+       WHERE ${conversation} AND (timestamp > ? OR (timestamp = ? AND id > ?))
+       ORDER BY timestamp ASC, id ASC LIMIT ?`
+    )
+    .all(
+      ...conversationParams, target.timestamp, target.timestamp, target.id, around
+    ) as MessageRow[];
+  return [...before.reverse(), ...after].map(toChatMessage);
+});
+
+// ─── IPC: Telemetry history ─────────────────────────────────────────
+// Renderer field name → telemetry table column
+const TELEMETRY_FIELDS: Record<string, string> = {
+  batteryLevel: "battery_level",
+  voltage: "voltage",
+  channelUtilization: "channel_utilization",
+  airUtilTx: "air_util_tx",
+  uptimeSeconds: "uptime_seconds",
+  temperature: "temperature",
+  relativeHumidity: "relative_humidity",
+  barometricPressure: "barometric_pressure",
+  gasResistance: "gas_resistance",
+  lux: "lux",
+  iaq: "iaq",
+  ch1Voltage: "ch1_voltage",
+  ch1Current: "ch1_current",
+  ch2Voltage: "ch2_voltage",
+  ch2Current: "ch2_current",
+  ch3Voltage: "ch3_voltage",
+  ch3Current: "ch3_current",
+  pm10Standard: "pm10_standard",
+  pm25Standard: "pm25_standard",
+  pm100Standard: "pm100_standard",
+  particles03um: "particles_03um",
+  particles05um: "particles_05um",
+  particles10um: "particles_10um",
+  particles25um: "particles_25um",
+  particles50um: "particles_50um",
+  particles100um: "particles_100um",
+  co2: "co2",
+  snr: "snr",
+  rssi: "rssi",
+};
+
+ipcMain.handle("db:saveTelemetry", (_event, point) => {
+  const db = getDatabase();
+  const columns = Object.values(TELEMETRY_FIELDS);
+  const stmt = db.prepare(`
+    INSERT INTO telemetry (node_id, timestamp, ${columns.join(", ")})
+    VALUES (@node_id, @timestamp, ${columns.map((c) => `@${c}`).join(", ")})
+  `);
+  const row: Record<string, number | null> = {
+    node_id: point.nodeId,
+    timestamp: point.timestamp,
+  };
+  for (const [field, column] of Object.entries(TELEMETRY_FIELDS)) {
+    row[column] = typeof point[field] === "number" ? point[field] : null;
+  }
+  return stmt.run(row);
+});
+
+ipcMain.handle(
+  "db:getTelemetry",
+  (_event, nodeId?: number | null, since?: number, until?: number, limit = 5000) => {
+    const db = getDatabase();
+    const where: string[] = [];
+    const params: number[] = [];
+    if (nodeId !== undefined && nodeId !== null) {
+      where.push("node_id = ?");
+      params.push(nodeId);
+    }
+    if (since !== undefined && since !== null) {
+      where.push("timestamp >= ?");
+      params.push(since);
+    }
+    if (until !== undefined && until !== null) {
+      where.push("timestamp <= ?");
+      params.push(until);
+    }
+    const columns = Object.entries(TELEMETRY_FIELDS)
+      .map(([field, column]) => `${column} AS ${field}`)
+      .join(", ");
+    // Newest rows first so the limit keeps the most recent history
+    const rows = db
+      .prepare(
+        `SELECT node_id AS nodeId, timestamp, ${columns} FROM telemetry
+         ${where.length ? `WHERE ${where.join(" AND ")}` : ""}
+         ORDER BY timestamp DESC LIMIT ?`
+      )
+      .all(...params, limit) as Record<string, number | null>[];
+    // Drop NULL columns and return oldest-first for charting
+    return rows.reverse().map((r) => {
+      const point: Record<string, number> = {};
+      for (const [key, value] of Object.entries(r)) {
+        if (value !== null) point[key] = value;
+      }
+      return point;
+    });
+  }
+);
+
+ipcMain.handle("db:getTelemetryNodes", () => {
+  const db = getDatabase();
+  return db
+    .prepare(
+      `SELECT node_id AS nodeId, COUNT(*) AS count, MAX(timestamp) AS lastTimestamp
+       FROM telemetry GROUP BY node_id ORDER BY lastTimestamp DESC`
+    )
+    .all();
+});
+
+ipcMain.handle("db:clearTelemetry", () => {
+  const db = getDatabase();
+  return db.prepare("DELETE FROM telemetry").run();
+});
+
+// ─── IPC: Position history ──────────────────────────────────────────
+ipcMain.handle("db:savePosition", (_event, point) => {
+  const db = getDatabase();
+  const optional = (value: unknown) => (typeof value === "number" ? value : null);
+  return db
+    .prepare(
+      `INSERT INTO positions (node_id, timestamp, latitude, longitude, altitude, ground_speed, ground_track, precision_bits, sats_in_view)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .run(
+      point.nodeId,
+      point.timestamp,
+      point.latitude,
+      point.longitude,
+      optional(point.altitude),
+      optional(point.groundSpeed),
+      optional(point.groundTrack),
+      optional(point.precisionBits),
+      optional(point.satsInView)
+    );
+});
+
+ipcMain.handle(
+  "db:getPositions",
+  (_event, nodeId?: number | null, since?: number, until?: number, limit = 20000) => {
+    const db = getDatabase();
+    const where: string[] = [];
+    const params: number[] = [];
+    if (nodeId !== undefined && nodeId !== null) {
+      where.push("node_id = ?");
+      params.push(nodeId);
+    }
+    if (since !== undefined && since !== null) {
+      where.push("timestamp >= ?");
+      params.push(since);
+    }
+    if (until !== undefined && until !== null) {
+      where.push("timestamp <= ?");
+      params.push(until);
+    }
+    const rows = db
+      .prepare(
+        `SELECT node_id AS nodeId, timestamp, latitude, longitude, altitude,
+                ground_speed AS groundSpeed, ground_track AS groundTrack,
+                precision_bits AS precisionBits, sats_in_view AS satsInView
+         FROM positions
+         ${where.length ? `WHERE ${where.join(" AND ")}` : ""}
+         ORDER BY timestamp DESC LIMIT ?`
+      )
+      .all(...params, limit) as Record<string, number | null>[];
+    // Oldest-first so tracks are drawn in travel order
+    return rows.reverse().map((r) => {
+      const point: Record<string, number> = {};
+      for (const [key, value] of Object.entries(r)) {
+        if (value !== null) point[key] = value;
+      }
+      return point;
+    });
+  }
+);
+
+ipcMain.handle("db:clearPositions", () => {
+  const db = getDatabase();
+  return db.prepare("DELETE FROM positions").run();
+});
+
+// ─── IPC: Waypoints ─────────────────────────────────────────────────
+// expire is stored in ms; NULL means the waypoint never expires
+ipcMain.handle("db:saveWaypoint", (_event, waypoint) => {
+  const db = getDatabase();
+  return db
+    .prepare(
+      `INSERT OR REPLACE INTO waypoints (id, from_node, channel, latitude, longitude, name, description, icon, locked_to, expire, updated_at)
+       VALUES (@id, @from, @channel, @latitude, @longitude, @name, @description, @icon, @lockedTo, @expire, @updatedAt)`
+    )
+    .run({
+      ...waypoint,
+      icon: waypoint.icon ?? null,
+      lockedTo: waypoint.lockedTo ?? null,
+      expire: waypoint.expire ?? null,
+    });
+});
+
+ipcMain.handle("db:getWaypoints", () => {
+  const db = getDatabase();
+  const rows = db
+    .prepare(
+      `SELECT id, from_node AS "from", channel, latitude, longitude, name, description,
+              icon, locked_to AS lockedTo, expire, updated_at AS updatedAt
+       FROM waypoints WHERE expire IS NULL OR expire > ?
+       ORDER BY updated_at DESC`
+    )
+    .all(Date.now()) as Record<string, unknown>[];
+  return rows.map((r) => {
+    const waypoint: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(r)) {
+      if (value !== null) waypoint[key] = value;
+    }
+    return waypoint;
+  });
+});
+
+ipcMain.handle("db:deleteWaypoint", (_event, id: number) => {
+  const db = getDatabase();
+  return db.prepare("DELETE FROM waypoints WHERE id = ?").run(id);
+});
+
+ipcMain.handle("db:clearWaypoints", () => {
+  const db = getDatabase();
+  return db.prepare("DELETE FROM waypoints").run();
+});
+
+ipcMain.handle("db:pruneWaypoints", () => {
+  const db = getDatabase();
+  const result = db
+    .prepare("DELETE FROM waypoints WHERE expire IS NOT NULL AND expire <= ?")
+    .run(Date.now());
+  return result.changes;
+});
+
+// ─── IPC: Traceroute history ────────────────────────────────────────
+ipcMain.handle("db:saveTraceroute", (_event, result) => {
+  const db = getDatabase();
+  const info = db
+    .prepare(
+      `INSERT INTO traceroutes (from_node, to_node, timestamp, route, snr_towards, route_back, snr_back)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`
+    )
+    .run(
+      result.from,
+      result.to,
+      result.timestamp,
+      JSON.stringify(result.route),
+      JSON.stringify(result.snrTowards),
+      JSON.stringify(result.routeBack),
+      JSON.stringify(result.snrBack)
+    );
+  return Number(info.lastInsertRowid);
+});
+
+ipcMain.handle("db:getTraceroutes", (_event, nodeId?: number | null, limit = 50) => {
+  const db = getDatabase();
+  const hasNode = nodeId !== undefined && nodeId !== null;
+  const rows = db
+    .prepare(
+      `SELECT id, from_node, to_node, timestamp, route, snr_towards, route_back, snr_back
+       FROM traceroutes ${hasNode ? "WHERE to_node = ?" : ""}
+       ORDER BY timestamp DESC LIMIT ?`
+    )
+    .all(...(hasNode ? [nodeId, limit] : [limit])) as Array<{
+      id: number;
+      from_node: number;
+      to_node: number;
+      timestamp: number;
+      route: string;
+      snr_towards: string;
+      route_back: string;
+      snr_back: string;
+    }>;
+  return rows.map((r) => ({
+    id: r.id,
+    from: r.from_node,
+    to: r.to_node,
+    timestamp: r.timestamp,
+    route: JSON.parse(r.route),
+    snrTowards: JSON.parse(r.snr_towards),
+    routeBack: JSON.parse(r.route_back),
+    snrBack: JSON.parse(r.snr_back),
+  }));
+});
+
+ipcMain.handle("db:clearTraceroutes", () => {
+  const db = getDatabase();
+  return db.prepare("DELETE FROM traceroutes").run();
+});
+
+// ─── IPC: Mesh links (neighbor info + traceroute hops) ───────────────
+ipcMain.handle("db:saveLinks", (_event, links) => {
+  const db = getDatabase();
+  // Keep a known SNR when a newer report for the same link has none
+  const stmt = db.prepare(`
+    INSERT INTO links (from_node, to_node, snr, last_seen, source)
+    VALUES (@from, @to, @snr, @lastSeen, @source)
+    ON CONFLICT (from_node, to_node) DO UPDATE SET
+      snr = COALESCE(excluded.snr, snr),
+      last_seen = excluded.last_seen,
+      source = excluded.source
+  `);
+  const saveAll = db.transaction(
+    (rows: Array<{ from: number; to: number; snr: number | null; lastSeen: number; source: string }>) => {
+      for (const row of rows) stmt.run({ ...row, snr: row.snr ?? null });
+    }
+  );
+  saveAll(links);
+});
+
+ipcMain.handle("db:getLinks", (_event, since?: number) => {
+  const db = getDatabase();
+  return db
+    .prepare(
+      `SELECT from_node AS "from", to_node AS "to", snr, last_seen AS lastSeen, source
+       FROM links WHERE last_seen >= ? ORDER BY last_seen DESC`
+    )
+    .all(since ?? 0);
+});
+
+ipcMain.handle("db:clearLinks", () => {
+  const db = getDatabase();
+  return db.prepare("DELETE FROM links").run();
+});
+
+// ─── IPC: Retention & maintenance ───────────────────────────────────
+ipcMain.handle("db:getRetention", () => getRetentionPolicy());
+
+ipcMain.handle("db:setRetention", (_event, policy: RetentionPolicy) =>
+  setRetentionPolicy(policy)
+);
+
+ipcMain.handle("db:pruneNow", () => pruneDatabase());
+
+ipcMain.handle("db:report", () => getDatabaseReport());
+
+ipcMain.handle("db:vacuum", () => vacuumDatabase());
+
+ipcMain.handle("db:integrityCheck", () => checkDatabaseIntegrity());
+
 // ─── IPC: Export database ───────────────────────────────────────────
 ipcMain.handle("db:export", async () => {
   if (!mainWindow) return null;
@@ -296,6 +937,187 @@ ipcMain.handle("db:import", async () => {
   return null;
 });
 
+// ─── IPC: Map data export / import (GPX, KML, GeoJSON) ──────────────
+// Conversion happens in the renderer; the main process only owns the
+// file dialogs and disk access.
+const GEO_FILTERS = {
+  gpx: { name: "GPX", extensions: ["gpx"] },
+  kml: { name: "KML", extensions: ["kml"] },
+  geojson: { name: "GeoJSON", extensions: ["geojson", "json"] },
+};
+
+ipcMain.handle(
+  "geo:export",
+  async (_event, format: keyof typeof GEO_FILTERS, content: string) => {
+    if (!mainWindow) return null;
+    const filter = GEO_FILTERS[format];
+    if (!filter) throw new Error(`Unknown export format: ${format}`);
+    const result = await dialog.showSaveDialog(mainWindow, {
+      title: `Export Map Data as ${filter.name}`,
+      defaultPath: `electastic-map-${new Date().toISOString().slice(0, 10)}.${filter.extensions[0]}`,
+      filters: [filter],
+    });
+    if (result.canceled || !result.filePath) return null;
+    await fs.writeFile(result.filePath, content, "utf-8");
+    return result.filePath;
+  }
+);
+
+ipcMain.handle("geo:import", async () => {
+  if (!mainWindow) return null;
+  const result = await dialog.showOpenDialog(mainWindow, {
+    title: "Import Map Overlay",
+    filters: [
+      { name: "GPX, KML, GeoJSON", extensions: ["gpx", "kml", "geojson", "json"] },
+      ...Object.values(GEO_FILTERS),
+    ],
+    properties: ["openFile", "multiSelections"],
+  });
+  if (result.canceled) return null;
+  const files = await Promise.all(
+    result.filePaths.map(async (filePath) => ({
+      path: filePath,
+      content: await fs.readFile(filePath, "utf-8"),
+    }))
+  );
+  rememberUserFiles("geoOverlay", result.filePaths);
+  return files;
+});
+
+// Re-read a previously imported overlay when the map loads; only files
+// the user picked in the import dialog
+ipcMain.handle("geo:read", (_event, filePath: string) => {
+  assertUserFile("geoOverlay", filePath);
+  return fs.readFile(filePath, "utf-8");
+});
+
+ipcMain.handle("geo:forget", (_event, filePath: string) => {
+  forgetUserFile("geoOverlay", filePath);
+});
+
+// ─── IPC: Device config backup (YAML) ───────────────────────────────
+// Same split as the map data files: YAML is built and parsed in the
+// renderer.
+const CONFIG_FILTER = { name: "YAML", extensions: ["yaml", "yml"] };
+
+ipcMain.handle("config:export", async (_event, content: string) => {
+  if (!mainWindow) return null;
+  const result = await dialog.showSaveDialog(mainWindow, {
+    title: "Export Device Config",
+    defaultPath: `electastic-config-${new Date().toISOString().slice(0, 10)}.yaml`,
+    filters: [CONFIG_FILTER],
+  });
+  if (result.canceled || !result.filePath) return null;
+  await fs.writeFile(result.filePath, content, "utf-8");
+  return result.filePath;
+});
+
+ipcMain.handle("config:import", async () => {
+  if (!mainWindow) return null;
+  const result = await dialog.showOpenDialog(mainWindow, {
+    title: "Import Device Config",
+    filters: [CONFIG_FILTER],
+    properties: ["openFile"],
+  });
+  if (result.canceled || result.filePaths.length === 0) return null;
+  const filePath = result.filePaths[0];
+  return { path: filePath, content: await fs.readFile(filePath, "utf-8") };
+});
+
+// ─── IPC: TCP stream API (port 4403) ────────────────────────────────
+// Sockets are owned by the main process; raw bytes are relayed to the
+// renderer, which handles the 0x94 0xC3 stream framing.
+ipcMain.handle("tcp:connect", (event, host: string, port: number) => {
+  const sender = event.sender;
+  return openTcpSocket(host, port, {
+    onData: (socketId, data) => {
+      if (!sender.isDestroyed()) sender.send("tcp-data", socketId, data);
+    },
+    onClose: (socketId, error) => {
+      if (!sender.isDestroyed()) sender.send("tcp-closed", socketId, error);
+    },
+  });
+});
+
+ipcMain.handle("tcp:write", (_event, socketId: number, data: Uint8Array) => {
+  writeTcpSocket(socketId, data);
+});
+
+ipcMain.handle("tcp:disconnect", (_event, socketId: number) => {
+  closeTcpSocket(socketId);
+});
+
+// ─── IPC: Offline map tiles (MBTiles) ───────────────────────────────
+ipcMain.handle("mbtiles:add", async () => {
+  if (!mainWindow) return null;
+  const result = await dialog.showOpenDialog(mainWindow, {
+    title: "Add Offline Map Tiles",
+    filters: [{ name: "MBTiles", extensions: ["mbtiles"] }],
+    properties: ["openFile", "multiSelections"],
+  });
+  if (result.canceled) return null;
+  const added = [];
+  const errors: string[] = [];
+  for (const filePath of result.filePaths) {
+    try {
+      added.push(openMbtiles(filePath));
+    } catch (error) {
+      errors.push(`${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  rememberUserFiles("mbtiles", added.map((info) => info.path));
+  return { added, errors };
+});
+
+// Re-opens a saved package on startup; only files added via the dialog
+ipcMain.handle("mbtiles:open", (_event, filePath: string) => {
+  assertUserFile("mbtiles", filePath);
+  return openMbtiles(filePath);
+});
+
+// The package was removed from the map's sources
+ipcMain.handle("mbtiles:close", (_event, id: string) => {
+  const filePath = closeMbtiles(id);
+  if (filePath) forgetUserFile("mbtiles", filePath);
+});
+
+// ─── IPC: Tile cache (pre-downloaded regions) ───────────────────────
+ipcMain.handle(
+  "tiles:estimate",
+  (_event, bounds: TileBounds, minZoom: number, maxZoom: number) =>
+    estimateTiles(bounds, minZoom, maxZoom)
+);
+
+ipcMain.handle(
+  "tiles:download",
+  (
+    event,
+    options: TileBounds & { name: string; urlTemplate: string; minZoom: number; maxZoom: number }
+  ) => {
+    return startRegionDownload(options, (progress) => {
+      if (!event.sender.isDestroyed()) {
+        event.sender.send("tiles-download-progress", progress);
+      }
+    });
+  }
+);
+
+ipcMain.handle("tiles:cancel", (_event, regionId: number) => {
+  cancelRegionDownload(regionId);
+});
+
+ipcMain.handle("tiles:listRegions", () => listRegions());
+
+ipcMain.handle("tiles:deleteRegion", (_event, regionId: number) => {
+  deleteRegion(regionId);
+});
+
+ipcMain.handle("tiles:clear", () => {
+  clearTileCache();
+});
+
+ipcMain.handle("tiles:stats", () => getTileCacheStats());
+
 // ─── IPC: Clear Chromium session data (BLE cache, cookies, etc.) ──
 ipcMain.handle("session:clearData", async () => {
   const win = BrowserWindow.getAllWindows()[0];
@@ -316,7 +1138,10 @@ ipcMain.handle("session:clearData", async () => {
 app.whenReady().then(() => {
   try {
     initDatabase();
+    protocol.handle(MBTILES_SCHEME, handleMbtilesRequest);
+    protocol.handle(TILE_CACHE_SCHEME, handleTileCacheRequest);
     createWindow();
+    startRetentionSchedule();
   } catch (error) {
     console.error("Fatal startup error:", error);
     dialog.showErrorBox(
@@ -347,7 +1172,16 @@ app.whenReady().then(() => {
 });
 
 app.on("window-all-closed", () => {
+  closeAllTcpSockets();
   if (process.platform !== "darwin") {
     app.quit();
   }
 });
+
+// The prune schedule and the tile databases stay available with no
+// window open (macOS), so a reopened window can keep using them
+app.on("will-quit", () => {
+  stopRetentionSchedule();
+  closeAllMbtiles();
+  closeTileCache();
+});
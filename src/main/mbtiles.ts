@@ -0,0 +1,154 @@
+import Database from "better-sqlite3";
+import crypto from "crypto";
+import path from "path";
+
+// Offline raster tiles from MBTiles packages (SQLite files with a
+// `tiles` and `metadata` table). Packages are opened read-only and
+// served to Leaflet through the mbtiles:// protocol registered in
+// index.ts: mbtiles://<sourceId>/<z>/<x>/<y>
+
+export const MBTILES_SCHEME = "mbtiles";
+
+export interface MbtilesInfo {
+  id: string;
+  path: string;
+  name: string;
+  format: string;
+  minZoom: number;
+  maxZoom: number;
+  /** [west, south, east, north] in degrees, if the package declares it */
+  bounds?: [number, number, number, number];
+  attribution?: string;
+}
+
+const RASTER_FORMATS: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  webp: "image/webp",
+};
+
+interface OpenSource {
+  info: MbtilesInfo;
+  db: Database.Database;
+  getTile: Database.Statement;
+}
+
+const sources = new Map<string, OpenSource>();
+
+/** Stable id per file path, so saved settings survive restarts */
+function sourceIdFor(filePath: string): string {
+  return crypto.createHash("sha1").update(path.resolve(filePath)).digest("hex").slice(0, 12);
+}
+
+export function openMbtiles(filePath: string): MbtilesInfo {
+  const id = sourceIdFor(filePath);
+  const existing = sources.get(id);
+  if (existing) return existing.info;
+
+  const db = new Database(filePath, { readonly: true, fileMustExist: true });
+  try {
+    const metadata = new Map<string, string>();
+    for (const row of db.prepare("SELECT name, value FROM metadata").all() as {
+      name: string;
+      value: string;
+    }[]) {
+      metadata.set(row.name, row.value);
+    }
+
+    const format = (metadata.get("format") ?? "png").toLowerCase();
+    if (!RASTER_FORMATS[format]) {
+      throw new Error(
+        `Unsupported tile format "${format}" — only raster MBTiles (png, jpg, webp) can be displayed`
+      );
+    }
+
+    // Fall back to the zoom range actually present when metadata omits it
+    let minZoom = Number(metadata.get("minzoom"));
+    let maxZoom = Number(metadata.get("maxzoom"));
+    if (!Number.isFinite(minZoom) || !Number.isFinite(maxZoom)) {
+      const range = db
+        .prepare("SELECT MIN(zoom_level) AS min, MAX(zoom_level) AS max FROM tiles")
+        .get() as { min: number | null; max: number | null };
+      minZoom = range.min ?? 0;
+      maxZoom = range.max ?? 18;
+    }
+
+    const boundsParts = metadata.get("bounds")?.split(",").map(Number);
+    const bounds =
+      boundsParts?.length === 4 && boundsParts.every(Number.isFinite)
+        ? (boundsParts as [number, number, number, number])
+        : undefined;
+
+    const info: MbtilesInfo = {
+      id,
+      path: filePath,
+      name: metadata.get("name") || path.basename(filePath, path.extname(filePath)),
+      format,
+      minZoom,
+      maxZoom,
+      bounds,
+      attribution: metadata.get("attribution") || undefined,
+    };
+
+    sources.set(id, {
+      info,
+      db,
+      getTile: db.prepare(
+        "SELECT tile_data FROM tiles WHERE zoom_level = ? AND tile_column = ? AND tile_row = ?"
+      ),
+    });
+    return info;
+  } catch (error) {
+    db.close();
+    throw error;
+  }
+}
+
+/** Close an open package; returns its path, or null if it wasn't open */
+export function closeMbtiles(id: string): string | null {
+  const source = sources.get(id);
+  if (!source) return null;
+  sources.delete(id);
+  source.db.close();
+  return source.info.path;
+}
+
+export function closeAllMbtiles(): void {
+  for (const id of Array.from(sources.keys())) {
+    closeMbtiles(id);
+  }
+}
+
+export function listMbtiles(): MbtilesInfo[] {
+  return Array.from(sources.values()).map((s) => s.info);
+}
+
+/** Look up a tile by XYZ coordinates; MBTiles rows use TMS (flipped Y) */
+export function readMbtilesTile(
+  id: string,
+  z: number,
+  x: number,
+  y: number
+): { data: Buffer; contentType: string } | null {
+  const source = sources.get(id);
+  if (!source) return null;
+  const tmsY = (1 << z) - 1 - y;
+  const row = source.getTile.get(z, x, tmsY) as { tile_data: Buffer } | undefined;
+  if (!row) return null;
+  return { data: row.tile_data, contentType: RASTER_FORMATS[source.info.format] };
+}
+
+/** Handler for mbtiles://<id>/<z>/<x>/<y> requests */
+export function handleMbtilesRequest(request: Request): Response {
+  const url = new URL(request.url);
+  const [z, x, y] = url.pathname.split("/").filter(Boolean).map(Number);
+  if (![z, x, y].every(Number.isInteger)) {
+    return new Response(null, { status: 400 });
+  }
+  const tile = readMbtilesTile(url.hostname, z, x, y);
+  if (!tile) return new Response(null, { status: 404 });
+  return new Response(new Uint8Array(tile.data), {
+    headers: { "Content-Type": tile.contentType, "Cache-Control": "max-age=86400" },
+  });
+}
@@ -0,0 +1,202 @@
+import fs from "fs";
+import { getDatabase, getDatabasePath, readSetting, writeSetting } from "./database";
+
+// Retention policy for the main database and the maintenance tools shown
+// in Settings. The policy is stored in app_settings and applied by a
+// scheduled job here in the main process, so it also runs while the
+// renderer is busy or the radio is disconnected.
+
+export interface RetentionPolicy {
+  enabled: boolean;
+  // Delete messages older than this many days (0 = keep)
+  messageMaxAgeDays: number;
+  // Keep at most this many broadcast messages per channel (0 = no limit)
+  maxMessagesPerChannel: number;
+  // Exempt direct messages from the age limit
+  keepDirectMessages: boolean;
+  // Delete nodes not heard from in this many days (0 = keep)
+  nodeMaxAgeDays: number;
+}
+
+export interface PruneResult {
+  at: number;
+  messagesDeleted: number;
+  nodesDeleted: number;
+}
+
+export interface DatabaseReport {
+  path: string;
+  // Main file plus write-ahead log
+  fileBytes: number;
+  walBytes: number;
+  // Space VACUUM would give back
+  freeBytes: number;
+  tables: Array<{ name: string; rows: number }>;
+  lastPrune: PruneResult | null;
+}
+
+export const DEFAULT_RETENTION: RetentionPolicy = {
+  enabled: false,
+  messageMaxAgeDays: 90,
+  maxMessagesPerChannel: 5000,
+  keepDirectMessages: true,
+  nodeMaxAgeDays: 30,
+};
+
+const RETENTION_KEY = "retention";
+const LAST_PRUNE_KEY = "retention.lastPrune";
+const PRUNE_INTERVAL_MS = 6 * 60 * 60 * 1000;
+// First run shortly after startup, off the launch path
+const PRUNE_STARTUP_DELAY_MS = 60_000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const REPORT_TABLES = [
+  "messages",
+  "nodes",
+  "telemetry",
+  "positions",
+  "waypoints",
+  "traceroutes",
+  "links",
+];
+
+let pruneTimer: ReturnType<typeof setInterval> | null = null;
+let startupTimer: ReturnType<typeof setTimeout> | null = null;
+
+export function getRetentionPolicy(): RetentionPolicy {
+  return { ...DEFAULT_RETENTION, ...readSetting<Partial<RetentionPolicy>>(RETENTION_KEY) };
+}
+
+export function setRetentionPolicy(policy: RetentionPolicy): RetentionPolicy {
+  const clean: RetentionPolicy = {
+    enabled: !!policy.enabled,
+    messageMaxAgeDays: Math.max(0, Math.floor(policy.messageMaxAgeDays) || 0),
+    maxMessagesPerChannel: Math.max(0, Math.floor(policy.maxMessagesPerChannel) || 0),
+    keepDirectMessages: !!policy.keepDirectMessages,
+    nodeMaxAgeDays: Math.max(0, Math.floor(policy.nodeMaxAgeDays) || 0),
+  };
+  writeSetting(RETENTION_KEY, clean);
+  return clean;
+}
+
+/** Apply a retention policy now (the stored one by default) */
+export function pruneDatabase(policy = getRetentionPolicy()): PruneResult {
+  const db = getDatabase();
+  const now = Date.now();
+  let messagesDeleted = 0;
+  let nodesDeleted = 0;
+
+  db.transaction(() => {
+    if (policy.messageMaxAgeDays > 0) {
+      messagesDeleted += db
+        .prepare(
+          `DELETE FROM messages WHERE timestamp < ?
+           ${policy.keepDirectMessages ? "AND to_node IS NULL" : ""}`
+        )
+        .run(now - policy.messageMaxAgeDays * DAY_MS).changes;
+    }
+    if (policy.maxMessagesPerChannel > 0) {
+      messagesDeleted += db
+        .prepare(
+          `DELETE FROM messages WHERE id IN (
+             SELECT id FROM (
+               SELECT id, ROW_NUMBER() OVER (
+                 PARTITION BY channel ORDER BY timestamp DESC, id DESC
+               ) AS recency
+               FROM messages WHERE to_node IS NULL
+             ) WHERE recency > ?
+           )`
+        )
+        .run(policy.maxMessagesPerChannel).changes;
+    }
+    if (policy.nodeMaxAgeDays > 0) {
+      // last_heard = 0 means never heard directly; those are left alone
+      nodesDeleted += db
+        .prepare("DELETE FROM nodes WHERE last_heard > 0 AND last_heard < ?")
+        .run(now - policy.nodeMaxAgeDays * DAY_MS).changes;
+    }
+  })();
+
+  const result = { at: now, messagesDeleted, nodesDeleted };
+  writeSetting(LAST_PRUNE_KEY, result);
+  return result;
+}
+
+function runScheduledPrune(): void {
+  const policy = getRetentionPolicy();
+  if (!policy.enabled) return;
+  try {
+    // The result is saved as the last prune and shown in the maintenance UI
+    pruneDatabase(policy);
+  } catch (error) {
+    console.error("Retention prune failed:", error);
+  }
+}
+
+export function startRetentionSchedule(): void {
+  stopRetentionSchedule();
+  startupTimer = setTimeout(runScheduledPrune, PRUNE_STARTUP_DELAY_MS);
+  pruneTimer = setInterval(runScheduledPrune, PRUNE_INTERVAL_MS);
+}
+
+export function stopRetentionSchedule(): void {
+  if (startupTimer) clearTimeout(startupTimer);
+  if (pruneTimer) clearInterval(pruneTimer);
+  startupTimer = null;
+  pruneTimer = null;
+}
+
+// ─── Maintenance ────────────────────────────────────────────────────
+function fileSize(filePath: string): number {
+  try {
+    return fs.statSync(filePath).size;
+  } catch {
+    return 0;
+  }
+}
+
+export function getDatabaseReport(): DatabaseReport {
+  const db = getDatabase();
+  const dbPath = getDatabasePath();
+  const pageSize = db.pragma("page_size", { simple: true }) as number;
+  const freePages = db.pragma("freelist_count", { simple: true }) as number;
+  const tables = REPORT_TABLES.map((name) => ({
+    name,
+    rows: (db.prepare(`SELECT COUNT(*) AS c FROM ${name}`).get() as { c: number }).c,
+  }));
+  return {
+    path: dbPath,
+    fileBytes: fileSize(dbPath),
+    walBytes: fileSize(`${dbPath}-wal`),
+    freeBytes: pageSize * freePages,
+    tables,
+    lastPrune: readSetting<PruneResult>(LAST_PRUNE_KEY),
+  };
+}
+
+/** Rebuild the database file to reclaim free pages; returns bytes on disk before/after */
+export function vacuumDatabase(): { bytesBefore: number; bytesAfter: number } {
+  const db = getDatabase();
+  const dbPath = getDatabasePath();
+  const size = () => fileSize(dbPath) + fileSize(`${dbPath}-wal`);
+  const bytesBefore = size();
+  db.exec("INSERT INTO messages_fts(messages_fts) VALUES ('optimize')");
+  db.exec("VACUUM");
+  db.pragma("wal_checkpoint(TRUNCATE)");
+  return { bytesBefore, bytesAfter: size() };
+}
+
+/** SQLite integrity check plus a consistency check of the search index */
+export function checkDatabaseIntegrity(): { ok: boolean; problems: string[] } {
+  const db = getDatabase();
+  const rows = db.pragma("integrity_check") as Array<{ integrity_check: string }>;
+  const problems = rows.map((r) => r.integrity_check).filter((msg) => msg !== "ok");
+  try {
+    db.exec("INSERT INTO messages_fts(messages_fts) VALUES ('integrity-check')");
+  } catch (error) {
+    problems.push(
+      `Search index: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+  return { ok: problems.length === 0, problems };
+}
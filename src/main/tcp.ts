@@ -0,0 +1,84 @@
+import net from "net";
+
+// The renderer has no socket access, so TCP stream-API connections
+// (port 4403 on WiFi/Ethernet nodes and meshtasticd) are opened here and
+// raw bytes are relayed over IPC. Framing is handled in the renderer.
+
+const CONNECT_TIMEOUT_MS = 10_000;
+
+export interface TcpSocketHandlers {
+  onData: (socketId: number, data: Uint8Array) => void;
+  onClose: (socketId: number, error?: string) => void;
+}
+
+const sockets = new Map<number, net.Socket>();
+let nextSocketId = 1;
+
+export function openTcpSocket(
+  host: string,
+  port: number,
+  handlers: TcpSocketHandlers
+): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const socketId = nextSocketId++;
+    const socket = new net.Socket();
+    let connected = false;
+    let lastError: string | undefined;
+
+    socket.setNoDelay(true);
+    socket.setKeepAlive(true, 30_000);
+    socket.setTimeout(CONNECT_TIMEOUT_MS);
+
+    socket.once("timeout", () => {
+      if (!connected) {
+        socket.destroy(new Error(`Timed out connecting to ${host}:${port}`));
+      }
+    });
+
+    socket.once("connect", () => {
+      connected = true;
+      // Idle timeouts are handled by the renderer watchdog
+      socket.setTimeout(0);
+      sockets.set(socketId, socket);
+      resolve(socketId);
+    });
+
+    socket.on("data", (chunk: Buffer) => {
+      handlers.onData(socketId, new Uint8Array(chunk));
+    });
+
+    socket.on("error", (err) => {
+      lastError = err.message;
+      if (!connected) reject(err);
+    });
+
+    socket.on("close", () => {
+      sockets.delete(socketId);
+      if (connected) handlers.onClose(socketId, lastError);
+    });
+
+    socket.connect(port, host);
+  });
+}
+
+export function writeTcpSocket(socketId: number, data: Uint8Array): void {
+  const socket = sockets.get(socketId);
+  if (!socket || socket.destroyed) {
+    throw new Error("TCP socket is not connected");
+  }
+  socket.write(data);
+}
+
+export function closeTcpSocket(socketId: number): void {
+  const socket = sockets.get(socketId);
+  if (!socket) return;
+  sockets.delete(socketId);
+  socket.end();
+  socket.destroy();
+}
+
+export function closeAllTcpSockets(): void {
+  for (const socketId of Array.from(sockets.keys())) {
+    closeTcpSocket(socketId);
+  }
+}
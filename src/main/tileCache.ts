@@ -0,0 +1,395 @@
+import Database from "better-sqlite3";
+import path from "path";
+import { app } from "electron";
+
+// Pre-downloaded map tiles. The user marks a bounding box and zoom range
+// on the map; tiles are fetched here and stored in a separate SQLite
+// file so the main database stays small. The online tile layer is served
+// through tilecache://, which answers from the cache first and only
+// falls back to the network for tiles that were never downloaded.
+//
+// URL format: tilecache://tile/<z>/<x>/<y>?u=<encoded upstream template>
+
+export const TILE_CACHE_SCHEME = "tilecache";
+
+// Rough average for OSM raster tiles, used for size estimates only
+const AVG_TILE_BYTES = 20_000;
+const MAX_REGION_TILES = 50_000;
+const DOWNLOAD_CONCURRENCY = 4;
+const FETCH_TIMEOUT_MS = 15_000;
+const USER_AGENT = `Electastic/${app.getVersion()} (offline tile cache)`;
+
+export interface TileBounds {
+  west: number;
+  south: number;
+  east: number;
+  north: number;
+}
+
+export interface TileRegion extends TileBounds {
+  id: number;
+  name: string;
+  urlTemplate: string;
+  minZoom: number;
+  maxZoom: number;
+  tileCount: number;
+  downloaded: number;
+  failed: number;
+  status: "downloading" | "complete" | "cancelled" | "failed";
+  createdAt: number;
+}
+
+export interface TileDownloadProgress {
+  regionId: number;
+  done: number;
+  failed: number;
+  total: number;
+  status: TileRegion["status"];
+}
+
+let db: Database.Database | null = null;
+const activeDownloads = new Map<number, { cancelled: boolean }>();
+
+function getCacheDb(): Database.Database {
+  if (db) return db;
+  db = new Database(path.join(app.getPath("userData"), "tile-cache.db"));
+  db.pragma("journal_mode = WAL");
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS tiles (
+      source TEXT NOT NULL,
+      z INTEGER NOT NULL,
+      x INTEGER NOT NULL,
+      y INTEGER NOT NULL,
+      data BLOB NOT NULL,
+      content_type TEXT,
+      fetched_at INTEGER NOT NULL,
+      PRIMARY KEY (source, z, x, y)
+    ) WITHOUT ROWID;
+
+    CREATE TABLE IF NOT EXISTS regions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL,
+      url_template TEXT NOT NULL,
+      west REAL NOT NULL,
+      south REAL NOT NULL,
+      east REAL NOT NULL,
+      north REAL NOT NULL,
+      min_zoom INTEGER NOT NULL,
+      max_zoom INTEGER NOT NULL,
+      tile_count INTEGER NOT NULL,
+      downloaded INTEGER DEFAULT 0,
+      failed INTEGER DEFAULT 0,
+      status TEXT NOT NULL,
+      created_at INTEGER NOT NULL
+    );
+  `);
+  // A download interrupted by quitting the app can't be resumed in-process
+  db.prepare("UPDATE regions SET status = 'cancelled' WHERE status = 'downloading'").run();
+  return db;
+}
+
+export function closeTileCache(): void {
+  for (const job of activeDownloads.values()) job.cancelled = true;
+  db?.close();
+  db = null;
+}
+
+// ─── Tile math (Web Mercator / XYZ) ─────────────────────────────────
+function lonToTileX(lon: number, z: number): number {
+  return Math.floor(((lon + 180) / 360) * (1 << z));
+}
+
+function latToTileY(lat: number, z: number): number {
+  const clamped = Math.max(-85.0511, Math.min(85.0511, lat));
+  const rad = (clamped * Math.PI) / 180;
+  return Math.floor(
+    ((1 - Math.log(Math.tan(rad) + 1 / Math.cos(rad)) / Math.PI) / 2) * (1 << z)
+  );
+}
+
+function tileRange(bounds: TileBounds, z: number) {
+  const max = (1 << z) - 1;
+  const clamp = (v: number) => Math.max(0, Math.min(max, v));
+  return {
+    minX: clamp(lonToTileX(bounds.west, z)),
+    maxX: clamp(lonToTileX(bounds.east, z)),
+    minY: clamp(latToTileY(bounds.north, z)),
+    maxY: clamp(latToTileY(bounds.south, z)),
+  };
+}
+
+export function estimateTiles(
+  bounds: TileBounds,
+  minZoom: number,
+  maxZoom: number
+): { tileCount: number; estimatedBytes: number; maxTiles: number } {
+  let tileCount = 0;
+  for (let z = minZoom; z <= maxZoom; z++) {
+    const r = tileRange(bounds, z);
+    tileCount += (r.maxX - r.minX + 1) * (r.maxY - r.minY + 1);
+  }
+  return { tileCount, estimatedBytes: tileCount * AVG_TILE_BYTES, maxTiles: MAX_REGION_TILES };
+}
+
+function expandTemplate(template: string, z: number, x: number, y: number): string {
+  const subdomain = "abc"[(x + y) % 3];
+  return template
+    .replace("{s}", subdomain)
+    .replace("{z}", String(z))
+    .replace("{x}", String(x))
+    .replace("{y}", String(y));
+}
+
+async function fetchTile(url: string): Promise<{ data: Buffer; contentType: string }> {
+  const response = await fetch(url, {
+    headers: { "User-Agent": USER_AGENT },
+    signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+  });
+  if (!response.ok) throw new Error(`HTTP ${response.status} for ${url}`);
+  return {
+    data: Buffer.from(await response.arrayBuffer()),
+    contentType: response.headers.get("content-type") ?? "image/png",
+  };
+}
+
+// ─── Protocol handler ───────────────────────────────────────────────
+export async function handleTileCacheRequest(request: Request): Promise<Response> {
+  const url = new URL(request.url);
+  const [z, x, y] = url.pathname.split("/").filter(Boolean).map(Number);
+  const template = url.searchParams.get("u");
+  if (!template || ![z, x, y].every(Number.isInteger)) {
+    return new Response(null, { status: 400 });
+  }
+
+  const cached = getCacheDb()
+    .prepare("SELECT data, content_type FROM tiles WHERE source = ? AND z = ? AND x = ? AND y = ?")
+    .get(template, z, x, y) as { data: Buffer; content_type: string | null } | undefined;
+  if (cached) {
+    return new Response(new Uint8Array(cached.data), {
+      headers: { "Content-Type": cached.content_type ?? "image/png" },
+    });
+  }
+
+  try {
+    const tile = await fetchTile(expandTemplate(template, z, x, y));
+    return new Response(new Uint8Array(tile.data), {
+      headers: { "Content-Type": tile.contentType },
+    });
+  } catch {
+    // Offline and not cached
+    return new Response(null, { status: 404 });
+  }
+}
+
+// ─── Region downloads ───────────────────────────────────────────────
+interface RegionRow {
+  id: number;
+  name: string;
+  url_template: string;
+  west: number;
+  south: number;
+  east: number;
+  north: number;
+  min_zoom: number;
+  max_zoom: number;
+  tile_count: number;
+  downloaded: number;
+  failed: number;
+  status: TileRegion["status"];
+  created_at: number;
+}
+
+function toRegion(row: RegionRow): TileRegion {
+  return {
+    id: row.id,
+    name: row.name,
+    urlTemplate: row.url_template,
+    west: row.west,
+    south: row.south,
+    east: row.east,
+    north: row.north,
+    minZoom: row.min_zoom,
+    maxZoom: row.max_zoom,
+    tileCount: row.tile_count,
+    downloaded: row.downloaded,
+    failed: row.failed,
+    status: row.status,
+    createdAt: row.created_at,
+  };
+}
+
+export function listRegions(): TileRegion[] {
+  return (
+    getCacheDb().prepare("SELECT * FROM regions ORDER BY created_at DESC").all() as RegionRow[]
+  ).map(toRegion);
+}
+
+/**
+ * Start downloading a region in the background. Resolves with the new
+ * region id immediately; progress is reported through onProgress.
+ */
+export function startRegionDownload(
+  options: TileBounds & { name: string; urlTemplate: string; minZoom: number; maxZoom: number },
+  onProgress: (progress: TileDownloadProgress) => void
+): number {
+  const { tileCount } = estimateTiles(options, options.minZoom, options.maxZoom);
+  if (tileCount > MAX_REGION_TILES) {
+    throw new Error(
+      `Region has ${tileCount} tiles — the limit is ${MAX_REGION_TILES}. Select a smaller area or fewer zoom levels.`
+    );
+  }
+
+  const cacheDb = getCacheDb();
+  const regionId = Number(
+    cacheDb
+      .prepare(
+        `INSERT INTO regions (name, url_template, west, south, east, north, min_zoom, max_zoom, tile_count, status, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 'downloading', ?)`
+      )
+      .run(
+        options.name,
+        options.urlTemplate,
+        options.west,
+        options.south,
+        options.east,
+        options.north,
+        options.minZoom,
+        options.maxZoom,
+        tileCount,
+        Date.now()
+      ).lastInsertRowid
+  );
+
+  const job = { cancelled: false };
+  activeDownloads.set(regionId, job);
+  runDownload(regionId, options, tileCount, job, onProgress).catch((err) => {
+    console.error("Tile download failed:", err);
+  });
+  return regionId;
+}
+
+async function runDownload(
+  regionId: number,
+  options: TileBounds & { urlTemplate: string; minZoom: number; maxZoom: number },
+  total: number,
+  job: { cancelled: boolean },
+  onProgress: (progress: TileDownloadProgress) => void
+): Promise<void> {
+  const cacheDb = getCacheDb();
+  const exists = cacheDb.prepare(
+    "SELECT 1 FROM tiles WHERE source = ? AND z = ? AND x = ? AND y = ?"
+  );
+  const insert = cacheDb.prepare(
+    `INSERT OR REPLACE INTO tiles (source, z, x, y, data, content_type, fetched_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`
+  );
+  const updateProgress = cacheDb.prepare(
+    "UPDATE regions SET downloaded = ?, failed = ?, status = ? WHERE id = ?"
+  );
+
+  // Lazily walk every tile in the region, zoom by zoom
+  function* tiles() {
+    for (let z = options.minZoom; z <= options.maxZoom; z++) {
+      const r = tileRange(options, z);
+      for (let x = r.minX; x <= r.maxX; x++) {
+        for (let y = r.minY; y <= r.maxY; y++) yield { z, x, y };
+      }
+    }
+  }
+
+  const queue = tiles();
+  let done = 0;
+  let failed = 0;
+  let lastReport = 0;
+
+  const report = (status: TileRegion["status"], force = false) => {
+    const now = Date.now();
+    if (!force && now - lastReport < 250) return;
+    lastReport = now;
+    updateProgress.run(done, failed, status, regionId);
+    onProgress({ regionId, done, failed, total, status });
+  };
+
+  const worker = async () => {
+    for (let next = queue.next(); !next.done; next = queue.next()) {
+      if (job.cancelled) return;
+      const { z, x, y } = next.value;
+      if (!exists.get(options.urlTemplate, z, x, y)) {
+        try {
+          const tile = await fetchTile(expandTemplate(options.urlTemplate, z, x, y));
+          // The region may have been deleted while the request was in flight
+          if (job.cancelled) return;
+          insert.run(options.urlTemplate, z, x, y, tile.data, tile.contentType, Date.now());
+        } catch {
+          failed++;
+        }
+      }
+      done++;
+      report("downloading");
+    }
+  };
+
+  await Promise.all(Array.from({ length: DOWNLOAD_CONCURRENCY }, worker));
+  activeDownloads.delete(regionId);
+  if (!db) return; // cache closed during shutdown
+
+  const status: TileRegion["status"] = job.cancelled
+    ? "cancelled"
+    : failed === total && total > 0
+    ? "failed"
+    : "complete";
+  report(status, true);
+}
+
+export function cancelRegionDownload(regionId: number): void {
+  const job = activeDownloads.get(regionId);
+  if (job) job.cancelled = true;
+}
+
+/** Delete a region and the tiles no other region still covers */
+export function deleteRegion(regionId: number): void {
+  cancelRegionDownload(regionId);
+  const cacheDb = getCacheDb();
+  const row = cacheDb.prepare("SELECT * FROM regions WHERE id = ?").get(regionId) as
+    | RegionRow
+    | undefined;
+  if (!row) return;
+  const region = toRegion(row);
+  const others = listRegions().filter(
+    (r) => r.id !== regionId && r.urlTemplate === region.urlTemplate
+  );
+
+  const remove = cacheDb.transaction(() => {
+    for (let z = region.minZoom; z <= region.maxZoom; z++) {
+      const r = tileRange(region, z);
+      const clauses = ["source = ?", "z = ?", "x BETWEEN ? AND ?", "y BETWEEN ? AND ?"];
+      const params: (string | number)[] = [region.urlTemplate, z, r.minX, r.maxX, r.minY, r.maxY];
+      // Keep tiles that overlap another region at this zoom
+      for (const other of others) {
+        if (z < other.minZoom || z > other.maxZoom) continue;
+        const o = tileRange(other, z);
+        clauses.push("NOT (x BETWEEN ? AND ? AND y BETWEEN ? AND ?)");
+        params.push(o.minX, o.maxX, o.minY, o.maxY);
+      }
+      cacheDb.prepare(`DELETE FROM tiles WHERE ${clauses.join(" AND ")}`).run(...params);
+    }
+    cacheDb.prepare("DELETE FROM regions WHERE id = ?").run(regionId);
+  });
+  remove();
+}
+
+export function clearTileCache(): void {
+  for (const job of activeDownloads.values()) job.cancelled = true;
+  const cacheDb = getCacheDb();
+  cacheDb.exec("DELETE FROM tiles; DELETE FROM regions;");
+  cacheDb.exec("VACUUM");
+}
+
+export function getTileCacheStats(): { tileCount: number; bytes: number; regionCount: number } {
+  const cacheDb = getCacheDb();
+  const tiles = cacheDb
+    .prepare("SELECT COUNT(*) AS c, COALESCE(SUM(LENGTH(data)), 0) AS bytes FROM tiles")
+    .get() as { c: number; bytes: number };
+  const regions = cacheDb.prepare("SELECT COUNT(*) AS c FROM regions").get() as { c: number };
+  return { tileCount: tiles.c, bytes: tiles.bytes, regionCount: regions.c };
+}
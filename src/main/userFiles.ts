@@ -0,0 +1,38 @@
+import path from "path";
+import { readSetting, writeSetting } from "./database";
+
+// Files the user picked through a main-process dialog, remembered in
+// app_settings. Requests from the renderer to re-open a file by path are
+// only honoured for paths recorded here, so the renderer can't get main
+// to read or open arbitrary files.
+
+export type UserFileKind = "mbtiles" | "geoOverlay";
+
+function settingKey(kind: UserFileKind): string {
+  return `userFiles.${kind}`;
+}
+
+function listUserFiles(kind: UserFileKind): string[] {
+  return readSetting<string[]>(settingKey(kind)) ?? [];
+}
+
+export function rememberUserFiles(kind: UserFileKind, filePaths: string[]): void {
+  const known = new Set(listUserFiles(kind));
+  for (const filePath of filePaths) known.add(path.resolve(filePath));
+  writeSetting(settingKey(kind), Array.from(known));
+}
+
+export function forgetUserFile(kind: UserFileKind, filePath: string): void {
+  const resolved = path.resolve(filePath);
+  writeSetting(
+    settingKey(kind),
+    listUserFiles(kind).filter((p) => p !== resolved)
+  );
+}
+
+/** Throws unless the path was chosen by the user for this kind of file */
+export function assertUserFile(kind: UserFileKind, filePath: string): void {
+  if (typeof filePath !== "string" || !listUserFiles(kind).includes(path.resolve(filePath))) {
+    throw new Error("File was not added through the app; add it again");
+  }
+}
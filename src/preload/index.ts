@@ -27,6 +27,46 @@ contextBridge.exposeInMainWorld("electronAPI", {
 
     getMessages: (channel?: number, limit?: number) =>
       ipcRenderer.invoke("db:getMessages", channel, limit),
+    queueMessage: (item: {
+      payload: string;
+      channel: number;
+      to?: number;
+      replyId?: number;
+      createdAt: number;
+    }) => ipcRenderer.invoke("db:queueMessage", item),
+    requeueMessage: (item: {
+      id: number;
+      payload: string;
+      channel: number;
+      to?: number;
+      replyId?: number;
+      createdAt: number;
+    }) => ipcRenderer.invoke("db:requeueMessage", item),
+    getQueuedMessages: () => ipcRenderer.invoke("db:getQueuedMessages"),
+    updateQueuedMessage: (id: number, payload: string) =>
+      ipcRenderer.invoke("db:updateQueuedMessage", id, payload),
+    deleteQueuedMessage: (id: number) => ipcRenderer.invoke("db:deleteQueuedMessage", id),
+    clearOutbox: () => ipcRenderer.invoke("db:clearOutbox"),
+    getMessagePage: (
+      conversation:
+        | { kind: "channel"; channel?: number }
+        | { kind: "dm"; self: number; peer: number },
+      before?: { timestamp: number; id?: number } | null,
+      limit?: number
+    ) => ipcRenderer.invoke("db:getMessagePage", conversation, before, limit),
+    searchMessages: (
+      query: string,
+      filters?: {
+        senderId?: number;
+        channel?: number;
+        dm?: boolean;
+        since?: number;
+        until?: number;
+      },
+      limit?: number
+    ) => ipcRenderer.invoke("db:searchMessages", query, filters, limit),
+    getMessageContext: (id: number, around?: number) =>
+      ipcRenderer.invoke("db:getMessageContext", id, around),
 
     saveNode: (node: {
       node_id: number;
@@ -46,10 +86,141 @@ contextBridge.exposeInMainWorld("electronAPI", {
     deleteNode: (nodeId: number) => ipcRenderer.invoke("db:deleteNode", nodeId),
     updateMessageStatus: (packetId: number, status: string, error?: string) =>
       ipcRenderer.invoke("db:updateMessageStatus", packetId, status, error),
+    markMessageResent: (oldPacketId: number, newPacketId: number, attempts: number) =>
+      ipcRenderer.invoke("db:markMessageResent", oldPacketId, newPacketId, attempts),
+    saveTelemetry: (point: { nodeId: number; timestamp: number }) =>
+      ipcRenderer.invoke("db:saveTelemetry", point),
+    getTelemetry: (
+      nodeId?: number | null,
+      since?: number,
+      until?: number,
+      limit?: number
+    ) => ipcRenderer.invoke("db:getTelemetry", nodeId, since, until, limit),
+    getTelemetryNodes: () => ipcRenderer.invoke("db:getTelemetryNodes"),
+    clearTelemetry: () => ipcRenderer.invoke("db:clearTelemetry"),
+    savePosition: (point: {
+      nodeId: number;
+      timestamp: number;
+      latitude: number;
+      longitude: number;
+    }) => ipcRenderer.invoke("db:savePosition", point),
+    getPositions: (
+      nodeId?: number | null,
+      since?: number,
+      until?: number,
+      limit?: number
+    ) => ipcRenderer.invoke("db:getPositions", nodeId, since, until, limit),
+    clearPositions: () => ipcRenderer.invoke("db:clearPositions"),
+    saveWaypoint: (waypoint: { id: number; from: number; latitude: number; longitude: number }) =>
+      ipcRenderer.invoke("db:saveWaypoint", waypoint),
+    getWaypoints: () => ipcRenderer.invoke("db:getWaypoints"),
+    deleteWaypoint: (id: number) => ipcRenderer.invoke("db:deleteWaypoint", id),
+    pruneWaypoints: () => ipcRenderer.invoke("db:pruneWaypoints"),
+    clearWaypoints: () => ipcRenderer.invoke("db:clearWaypoints"),
+    saveTraceroute: (result: { from: number; to: number; timestamp: number }) =>
+      ipcRenderer.invoke("db:saveTraceroute", result),
+    getTraceroutes: (nodeId?: number | null, limit?: number) =>
+      ipcRenderer.invoke("db:getTraceroutes", nodeId, limit),
+    clearTraceroutes: () => ipcRenderer.invoke("db:clearTraceroutes"),
+    saveLinks: (links: Array<{ from: number; to: number; lastSeen: number }>) =>
+      ipcRenderer.invoke("db:saveLinks", links),
+    getLinks: (since?: number) => ipcRenderer.invoke("db:getLinks", since),
+    clearLinks: () => ipcRenderer.invoke("db:clearLinks"),
+    getRetention: () => ipcRenderer.invoke("db:getRetention"),
+    setRetention: (policy: {
+      enabled: boolean;
+      messageMaxAgeDays: number;
+      maxMessagesPerChannel: number;
+      keepDirectMessages: boolean;
+      nodeMaxAgeDays: number;
+    }) => ipcRenderer.invoke("db:setRetention", policy),
+    pruneNow: () => ipcRenderer.invoke("db:pruneNow"),
+    report: () => ipcRenderer.invoke("db:report"),
+    vacuum: () => ipcRenderer.invoke("db:vacuum"),
+    integrityCheck: () => ipcRenderer.invoke("db:integrityCheck"),
     exportDb: () => ipcRenderer.invoke("db:export"),
     importDb: () => ipcRenderer.invoke("db:import"),
   },
 
+  // ─── TCP stream API ─────────────────────────────────────────────
+  // The main process owns the socket; bytes are relayed in both directions.
+  tcp: {
+    connect: (host: string, port: number) =>
+      ipcRenderer.invoke("tcp:connect", host, port),
+    write: (socketId: number, data: Uint8Array) =>
+      ipcRenderer.invoke("tcp:write", socketId, data),
+    disconnect: (socketId: number) =>
+      ipcRenderer.invoke("tcp:disconnect", socketId),
+    onData: (callback: (socketId: number, data: Uint8Array) => void) => {
+      const handler = (_event: unknown, socketId: number, data: Uint8Array) =>
+        callback(socketId, data);
+      ipcRenderer.on("tcp-data", handler);
+      return () => {
+        ipcRenderer.removeListener("tcp-data", handler);
+      };
+    },
+    onClosed: (callback: (socketId: number, error?: string) => void) => {
+      const handler = (_event: unknown, socketId: number, error?: string) =>
+        callback(socketId, error);
+      ipcRenderer.on("tcp-closed", handler);
+      return () => {
+        ipcRenderer.removeListener("tcp-closed", handler);
+      };
+    },
+  },
+
+  // ─── Offline map tiles (MBTiles) ────────────────────────────────
+  geo: {
+    exportFile: (format: "gpx" | "kml" | "geojson", content: string) =>
+      ipcRenderer.invoke("geo:export", format, content),
+    importFiles: () => ipcRenderer.invoke("geo:import"),
+    readFile: (filePath: string) => ipcRenderer.invoke("geo:read", filePath),
+    forgetFile: (filePath: string) => ipcRenderer.invoke("geo:forget", filePath),
+  },
+
+  config: {
+    exportFile: (content: string) => ipcRenderer.invoke("config:export", content),
+    importFile: () => ipcRenderer.invoke("config:import"),
+  },
+
+  mbtiles: {
+    add: () => ipcRenderer.invoke("mbtiles:add"),
+    open: (filePath: string) => ipcRenderer.invoke("mbtiles:open", filePath),
+    close: (id: string) => ipcRenderer.invoke("mbtiles:close", id),
+  },
+
+  // ─── Tile cache (pre-downloaded regions) ────────────────────────
+  tiles: {
+    estimate: (
+      bounds: { west: number; south: number; east: number; north: number },
+      minZoom: number,
+      maxZoom: number
+    ) => ipcRenderer.invoke("tiles:estimate", bounds, minZoom, maxZoom),
+    download: (options: {
+      name: string;
+      urlTemplate: string;
+      west: number;
+      south: number;
+      east: number;
+      north: number;
+      minZoom: number;
+      maxZoom: number;
+    }) => ipcRenderer.invoke("tiles:download", options),
+    cancel: (regionId: number) => ipcRenderer.invoke("tiles:cancel", regionId),
+    listRegions: () => ipcRenderer.invoke("tiles:listRegions"),
+    deleteRegion: (regionId: number) =>
+      ipcRenderer.invoke("tiles:deleteRegion", regionId),
+    clear: () => ipcRenderer.invoke("tiles:clear"),
+    stats: () => ipcRenderer.invoke("tiles:stats"),
+    onProgress: (callback: (progress: unknown) => void) => {
+      const handler = (_event: unknown, progress: unknown) => callback(progress);
+      ipcRenderer.on("tiles-download-progress", handler);
+      return () => {
+        ipcRenderer.removeListener("tiles-download-progress", handler);
+      };
+    },
+  },
+
   // ─── Bluetooth device selection ─────────────────────────────────
   // Main process intercepts select-bluetooth-device and sends the
   // device list here. Renderer shows a picker, then calls select/cancel.
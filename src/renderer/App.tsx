@@ -1,5 +1,6 @@
 import { useState, useEffect, useCallback, useRef } from "react";
 import { useDevice } from "./hooks/useDevice";
+import { useConfigDraft } from "./hooks/useConfigDraft";
 import { useToast } from "./components/Toast";
 import Tabs from "./components/Tabs";
 import ErrorBoundary from "./components/ErrorBoundary";
@@ -9,7 +10,11 @@ import ChatPanel from "./components/ChatPanel";
 import NodeListPanel from "./components/NodeListPanel";
 import MapPanel from "./components/MapPanel";
 import TelemetryPanel from "./components/TelemetryPanel";
+import TopologyPanel from "./components/TopologyPanel";
 import SettingsPanel from "./components/SettingsPanel";
+import type { ConfigCase } from "./components/ConfigPanel";
+import type { ModuleCase } from "./components/ModuleConfigPanel";
+import type { TraceRouteResult } from "./lib/types";
 
 const TAB_NAMES = [
   "Connection",
@@ -17,6 +22,7 @@ const TAB_NAMES = [
   "Nodes",
   "Map",
   "Telemetry",
+  "Topology",
   "Settings",
 ];
 
@@ -24,7 +30,12 @@ export default function App() {
   const [activeTab, setActiveTab] = useState(0);
   const [selectedNodeId, setSelectedNodeId] = useState<number | null>(null);
   const [pendingDmTarget, setPendingDmTarget] = useState<number | null>(null);
+  // Traceroute drawn on the map (latest reply, or one picked from history)
+  const [mapRoute, setMapRoute] = useState<TraceRouteResult | null>(null);
   const device = useDevice();
+  // Unapplied settings edits, kept here so they survive switching tabs
+  const configDraft = useConfigDraft<ConfigCase>(device.deviceConfig);
+  const moduleDraft = useConfigDraft<ModuleCase>(device.moduleConfig);
   const { addToast } = useToast();
   const prevStatusRef = useRef(device.state.status);
 
@@ -67,6 +78,18 @@ export default function App() {
     }
   }, [device.state.status, addToast]);
 
+  // Announce traceroute replies and show the newest one on the map
+  const latestRoute = device.traceRoutes[0];
+  useEffect(() => {
+    if (!latestRoute) return;
+    setMapRoute(latestRoute);
+    const hops = latestRoute.route.length;
+    addToast(
+      `Route to ${device.getNodeName(latestRoute.to)}: ${hops === 0 ? "direct" : `${hops} hop(s)`}`,
+      "info"
+    );
+  }, [latestRoute, addToast, device.getNodeName]);
+
   const isConfigured = device.state.status === "configured";
   const isOperational = isConfigured || device.state.status === "stale";
   const selectedNode = selectedNodeId
@@ -76,7 +99,7 @@ export default function App() {
   // ─── Keyboard shortcuts: Cmd/Ctrl+1-7 for tabs ───────────────
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      if ((e.metaKey || e.ctrlKey) && e.key >= "1" && e.key <= "6") {
+      if ((e.metaKey || e.ctrlKey) && e.key >= "1" && e.key <= "7") {
         e.preventDefault();
         setActiveTab(parseInt(e.key) - 1);
       }
@@ -88,10 +111,11 @@ export default function App() {
   // Manual reconnect from banner
   const handleReconnect = useCallback(() => {
     const lastType = device.state.connectionType ?? "ble";
+    const lastAddress = device.state.connectionAddress;
     device.disconnect().then(() => {
       // Small delay before reconnecting
       setTimeout(() => {
-        device.connect(lastType).catch(() => {});
+        device.connect(lastType, lastAddress).catch(() => {});
       }, 500);
     });
   }, [device]);
@@ -151,7 +175,7 @@ export default function App() {
         <Tabs tabs={TAB_NAMES} active={activeTab} onChange={setActiveTab} />
 
         {/* Content */}
-        <main className={`flex-1 p-4 ${activeTab === 5 ? "overflow-hidden" : "overflow-auto"}`}>
+        <main className={`flex-1 p-4 ${activeTab >= 5 ? "overflow-hidden" : "overflow-auto"}`}>
           <ErrorBoundary>
             {activeTab === 0 && (
               <ConnectionPanel
@@ -167,6 +191,11 @@ export default function App() {
                 myNodeNum={device.state.myNodeNum}
                 onSend={device.sendMessage}
                 onReact={device.sendReaction}
+                onLoadMessageContext={device.loadMessageContext}
+                onLoadOlderMessages={device.loadOlderMessages}
+                onEditQueued={device.editQueuedMessage}
+                onCancelQueued={device.cancelQueuedMessage}
+                onRetry={device.retryMessage}
                 onNodeClick={setSelectedNodeId}
                 isConnected={isOperational}
                 nodes={device.nodes}
@@ -191,24 +220,52 @@ export default function App() {
                 nodes={device.nodes}
                 myNodeNum={device.state.myNodeNum}
                 onRefresh={device.requestRefresh}
+                waypoints={device.waypoints}
+                channels={device.channels}
+                onSendWaypoint={device.sendWaypoint}
+                onDeleteWaypoint={device.deleteWaypoint}
+                route={mapRoute}
+                onClearRoute={() => setMapRoute(null)}
                 isConnected={isOperational}
               />
             )}
             {activeTab === 4 && (
               <TelemetryPanel
                 telemetry={device.telemetry}
+                nodes={device.nodes}
+                displayUnits={device.displayUnits}
+                packetStats={device.packetStats}
+                statsSince={device.statsSince}
+                onResetStats={device.resetPacketStats}
                 onRefresh={device.requestRefresh}
                 isConnected={isOperational}
               />
             )}
             {activeTab === 5 && (
+              <TopologyPanel
+                nodes={device.nodes}
+                links={device.links}
+                myNodeNum={device.state.myNodeNum}
+                onNodeClick={setSelectedNodeId}
+              />
+            )}
+            {activeTab === 6 && (
               <SettingsPanel
                 onSetConfig={device.setConfig}
+                onSetModuleConfig={device.setModuleConfig}
                 onCommit={device.commitConfig}
+                onApplyChanges={device.applyConfigChanges}
+                onApplyConfigBackup={device.applyConfigBackup}
+                onSetCannedMessages={device.setCannedMessages}
                 onSetChannel={device.setDeviceChannel}
                 onClearChannel={device.clearChannel}
                 channelConfigs={device.channelConfigs}
+                deviceConfig={device.deviceConfig}
+                moduleConfig={device.moduleConfig}
+                configDraft={configDraft}
+                moduleDraft={moduleDraft}
                 nodes={device.nodes}
+                myNodeNum={device.state.myNodeNum}
                 messageCount={device.messages.length}
                 onReboot={device.reboot}
                 onShutdown={device.shutdown}
@@ -247,6 +304,13 @@ export default function App() {
           onClose={() => setSelectedNodeId(null)}
           onRequestPosition={device.requestPosition}
           onTraceRoute={device.traceRoute}
+          traceRoutes={device.traceRoutes}
+          getNodeName={device.getNodeName}
+          onShowRoute={(result) => {
+            setMapRoute(result);
+            setSelectedNodeId(null);
+            setActiveTab(3);
+          }}
           isConnected={isOperational}
         />
       </div>
@@ -286,7 +350,7 @@ function ConnectionBanner({
 
   if (status === "reconnecting") {
     const attempt = reconnectAttempt ?? 1;
-    // BLE retries forever; serial/HTTP have a 5-attempt limit
+    // BLE retries forever; serial/HTTP/TCP have a 5-attempt limit
     const attemptText =
       connectionType === "ble"
         ? `attempt ${attempt}`
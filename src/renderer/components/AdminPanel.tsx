@@ -1,56 +1,7 @@
 import { useState, useCallback } from "react";
 import type { MeshNode } from "../lib/types";
 import { useToast } from "./Toast";
-
-// ─── Confirmation Modal ─────────────────────────────────────────
-function ConfirmModal({
-  title,
-  message,
-  confirmLabel,
-  danger,
-  onConfirm,
-  onCancel,
-}: {
-  title: string;
-  message: string;
-  confirmLabel: string;
-  danger?: boolean;
-  onConfirm: () => void;
-  onCancel: () => void;
-}) {
-  return (
-    <div className="fixed inset-0 z-50 flex items-center justify-center">
-      {/* Backdrop */}
-      <div
-        className="absolute inset-0 bg-black/60 backdrop-blur-sm"
-        onClick={onCancel}
-      />
-      {/* Modal */}
-      <div className="relative bg-gray-800 border border-gray-600 rounded-xl shadow-2xl max-w-sm w-full mx-4 p-6 space-y-4">
-        <h3 className="text-lg font-semibold text-gray-200">{title}</h3>
-        <p className="text-sm text-gray-400 leading-relaxed">{message}</p>
-        <div className="flex gap-3 pt-2">
-          <button
-            onClick={onCancel}
-            className="flex-1 px-4 py-2.5 bg-gray-700 hover:bg-gray-600 text-gray-300 font-medium rounded-lg transition-colors text-sm"
-          >
-            Cancel
-          </button>
-          <button
-            onClick={onConfirm}
-            className={`flex-1 px-4 py-2.5 font-medium rounded-lg transition-colors text-sm text-white ${
-              danger
-                ? "bg-red-600 hover:bg-red-500"
-                : "bg-yellow-600 hover:bg-yellow-500"
-            }`}
-          >
-            {confirmLabel}
-          </button>
-        </div>
-      </div>
-    </div>
-  );
-}
+import ConfirmModal from "./ConfirmModal";
 
 interface Props {
   nodes: Map<number, MeshNode>;
@@ -349,12 +300,18 @@ export default function AdminPanel({
                 name: "Clear All Data",
                 title: "⚠ Clear All Local Data",
                 message:
-                  "This will permanently delete ALL local messages, nodes, and cached session data. This action CANNOT be undone.",
+                  "This will permanently delete ALL local messages (including unsent queued ones), nodes, telemetry history, waypoints, and cached session data. This action CANNOT be undone.",
                 confirmLabel: "Clear Everything",
                 danger: true,
                 action: async () => {
                   await window.electronAPI.db.clearMessages();
                   await window.electronAPI.db.clearNodes();
+                  await window.electronAPI.db.clearTelemetry();
+                  await window.electronAPI.db.clearPositions();
+                  await window.electronAPI.db.clearTraceroutes();
+                  await window.electronAPI.db.clearLinks();
+                  await window.electronAPI.db.clearWaypoints();
+                  await window.electronAPI.db.clearOutbox();
                   await window.electronAPI.clearSessionData();
                 },
               })
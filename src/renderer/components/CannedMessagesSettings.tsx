@@ -0,0 +1,148 @@
+import { useState } from "react";
+import {
+  CANNED_VARIABLES,
+  DEVICE_CANNED_MAX_BYTES,
+  hasVariables,
+  loadCannedMessages,
+  newCannedMessageId,
+  saveCannedMessages,
+  type CannedMessage,
+} from "../lib/cannedMessages";
+import { utf8Length } from "../lib/messageParts";
+import { useToast } from "./Toast";
+
+interface Props {
+  onSetCannedMessages: (messages: string[]) => Promise<void>;
+  isConnected: boolean;
+}
+
+/** Editor for the canned messages offered by the chat composer */
+export default function CannedMessagesSettings({ onSetCannedMessages, isConnected }: Props) {
+  const { addToast } = useToast();
+  const [messages, setMessages] = useState<CannedMessage[]>(loadCannedMessages);
+  const [syncing, setSyncing] = useState(false);
+
+  // Applies immediately — the composer reads the list when it opens the picker
+  const update = (next: CannedMessage[]) => {
+    setMessages(next);
+    saveCannedMessages(next);
+  };
+
+  const move = (index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= messages.length) return;
+    const next = [...messages];
+    [next[index], next[target]] = [next[target], next[index]];
+    update(next);
+  };
+
+  // The radio can't fill in variables, so only plain messages are synced
+  const deviceMessages = messages
+    .map((m) => m.text.trim())
+    .filter((text) => text && !hasVariables(text));
+  const deviceBytes = utf8Length(deviceMessages.join("|"));
+
+  const handleSync = async () => {
+    if (deviceMessages.some((text) => text.includes("|"))) {
+      addToast('Canned messages for the device can\'t contain "|"', "error");
+      return;
+    }
+    if (deviceBytes > DEVICE_CANNED_MAX_BYTES) {
+      addToast(
+        `Too long for the device: ${deviceBytes}/${DEVICE_CANNED_MAX_BYTES} bytes`,
+        "error"
+      );
+      return;
+    }
+    setSyncing(true);
+    try {
+      await onSetCannedMessages(deviceMessages);
+      addToast(`Sent ${deviceMessages.length} canned messages to the device`, "success");
+    } catch (err) {
+      addToast(
+        `Sync failed: ${err instanceof Error ? err.message : "Unknown error"}`,
+        "error"
+      );
+    } finally {
+      setSyncing(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-xs font-medium text-gray-400">Canned Messages</h3>
+      <div className="bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 space-y-2">
+        {messages.length === 0 && (
+          <p className="text-xs text-gray-500">No canned messages yet.</p>
+        )}
+        {messages.map((msg, i) => (
+          <div key={msg.id} className="flex items-center gap-1">
+            <input
+              type="text"
+              value={msg.text}
+              onChange={(e) =>
+                update(messages.map((m) => (m.id === msg.id ? { ...m, text: e.target.value } : m)))
+              }
+              placeholder="Message text"
+              className="flex-1 min-w-0 px-2 py-1 bg-gray-700 rounded text-sm text-gray-200 border border-gray-600 focus:border-green-500 focus:outline-none"
+            />
+            <button
+              onClick={() => move(i, -1)}
+              disabled={i === 0}
+              className="px-1.5 text-xs text-gray-500 hover:text-gray-300 disabled:opacity-30"
+              title="Move up"
+            >
+              ↑
+            </button>
+            <button
+              onClick={() => move(i, 1)}
+              disabled={i === messages.length - 1}
+              className="px-1.5 text-xs text-gray-500 hover:text-gray-300 disabled:opacity-30"
+              title="Move down"
+            >
+              ↓
+            </button>
+            <button
+              onClick={() => update(messages.filter((m) => m.id !== msg.id))}
+              className="px-1.5 text-xs text-gray-500 hover:text-red-400"
+              title="Delete"
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+        <button
+          onClick={() => update([...messages, { id: newCannedMessageId(), text: "" }])}
+          className="text-xs text-green-400 hover:text-green-300"
+        >
+          + Add message
+        </button>
+        <p className="text-xs text-gray-500">
+          Insert from the chat with the ☰ button or by typing / in the message box. Variables:{" "}
+          {CANNED_VARIABLES.map((v, i) => (
+            <span key={v.name} title={v.description}>
+              {i > 0 && ", "}
+              <code className="text-gray-400">{`{${v.name}}`}</code>
+            </span>
+          ))}
+          .
+        </p>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={handleSync}
+            disabled={!isConnected || syncing || deviceMessages.length === 0}
+            className="px-3 py-1.5 bg-gray-700 text-gray-300 hover:bg-gray-600 rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+            title="Replace the device's canned message module list"
+          >
+            {syncing ? "Sending…" : "Send to Device"}
+          </button>
+          <span
+            className={`text-xs ${deviceBytes > DEVICE_CANNED_MAX_BYTES ? "text-red-400" : "text-gray-500"}`}
+          >
+            {deviceMessages.length} without variables · {deviceBytes}/{DEVICE_CANNED_MAX_BYTES} bytes
+          </span>
+        </div>
+      </div>
+    </div>
+  );
+}
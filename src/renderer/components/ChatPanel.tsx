@@ -1,5 +1,28 @@
-import { useState, useRef, useEffect, useMemo, useCallback } from "react";
-import type { ChatMessage, MeshNode } from "../lib/types";
+import { useState, useRef, useEffect, useLayoutEffect, useMemo, useCallback } from "react";
+import type {
+  ChatMessage,
+  MeshNode,
+  MessageConversation,
+  MessageCursor,
+  MessageSearchFilters,
+  MessageSearchResult,
+} from "../lib/types";
+import { isBeforeCursor, messageCursor, messageKey } from "../lib/messageHistory";
+import {
+  MAX_MESSAGE_BYTES,
+  MAX_MESSAGE_PARTS,
+  combineMessageParts,
+  countParts,
+  isSendablePartCount,
+  utf8Length,
+  type DisplayMessage,
+} from "../lib/messageParts";
+import {
+  cannedVariables,
+  expandTemplate,
+  loadCannedMessages,
+  type CannedMessage,
+} from "../lib/cannedMessages";
 
 // Standard Meshtastic emoji reactions (matching mobile app conventions)
 const REACTION_EMOJIS = [
@@ -69,12 +92,56 @@ function HighlightText({
   );
 }
 
+/** Render a search snippet, highlighting the \u0002…\u0003 marked matches */
+function SnippetText({ snippet }: { snippet: string }) {
+  const parts = snippet.split(/[\u0002\u0003]/);
+  return (
+    <>
+      {parts.map((part, i) =>
+        i % 2 === 1 ? (
+          <mark key={i} className="bg-yellow-500/40 text-yellow-200 rounded px-0.5">
+            {part}
+          </mark>
+        ) : (
+          <span key={i}>{part}</span>
+        )
+      )}
+    </>
+  );
+}
+
+// Start loading the previous page when scrolled this close to the top
+const LOAD_OLDER_THRESHOLD_PX = 120;
+
+const SEARCH_LIMIT = 100;
+const SEARCH_DEBOUNCE_MS = 250;
+// How long a message jumped to from search stays highlighted
+const JUMP_HIGHLIGHT_MS = 3000;
+
+// Search scope select values; channel scopes are "ch:<index>"
+type SearchScope = "all" | "channels" | "dm" | `ch:${number}`;
+
+function scopeToFilters(scope: SearchScope): MessageSearchFilters {
+  if (scope === "channels") return { dm: false };
+  if (scope === "dm") return { dm: true };
+  if (scope.startsWith("ch:")) return { dm: false, channel: Number(scope.slice(3)) };
+  return {};
+}
+
 interface Props {
   messages: ChatMessage[];
   channels: Array<{ index: number; name: string }>;
   myNodeNum: number;
   onSend: (text: string, channel: number, destination?: number, replyId?: number) => Promise<void>;
   onReact: (emoji: number, replyId: number, channel: number, destination?: number) => Promise<void>;
+  onLoadMessageContext: (id: number) => Promise<ChatMessage[]>;
+  onLoadOlderMessages: (
+    conversation: MessageConversation,
+    before?: MessageCursor
+  ) => Promise<{ oldest: MessageCursor | null; hasMore: boolean }>;
+  onEditQueued: (queueId: number, text: string) => Promise<void>;
+  onRetry: (msg: ChatMessage) => Promise<void>;
+  onCancelQueued: (queueId: number) => Promise<void>;
   onNodeClick: (nodeNum: number) => void;
   isConnected: boolean;
   nodes: Map<number, MeshNode>;
@@ -88,6 +155,11 @@ export default function ChatPanel({
   myNodeNum,
   onSend,
   onReact,
+  onLoadMessageContext,
+  onLoadOlderMessages,
+  onEditQueued,
+  onCancelQueued,
+  onRetry,
   onNodeClick,
   isConnected,
   nodes,
@@ -95,11 +167,37 @@ export default function ChatPanel({
   onDmTargetConsumed,
 }: Props) {
   const [input, setInput] = useState("");
+  const inputRef = useRef<HTMLInputElement>(null);
+  // Canned message picker: opened by the button or by typing "/"
+  const [cannedMessages, setCannedMessages] = useState<CannedMessage[]>(loadCannedMessages);
+  const [showCanned, setShowCanned] = useState(false);
+  const [cannedIndex, setCannedIndex] = useState(0);
   const [channel, setChannel] = useState(0);
   const [sending, setSending] = useState(false);
   const [pickerOpenFor, setPickerOpenFor] = useState<number | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
   const [showSearch, setShowSearch] = useState(false);
+  const [searchScope, setSearchScope] = useState<SearchScope>("all");
+  const [searchSender, setSearchSender] = useState<number | null>(null);
+  const [searchFrom, setSearchFrom] = useState("");
+  const [searchTo, setSearchTo] = useState("");
+  const [searchResults, setSearchResults] = useState<MessageSearchResult[]>([]);
+  const [searching, setSearching] = useState(false);
+  // Message jumped to from a search result: scrolled to once, highlighted briefly
+  const [highlightKey, setHighlightKey] = useState<string | null>(null);
+  const pendingJumpRef = useRef<string | null>(null);
+  // Older history paging: conversations with nothing more stored, and the
+  // message to keep in place while a page is prepended above it
+  const [historyExhausted, setHistoryExhausted] = useState<Set<string>>(new Set());
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const loadingOlderRef = useRef(false);
+  // Search jumps merge a window of old messages that isn't joined to the
+  // history paged back from the newest message. Per conversation, where
+  // that contiguous history starts, and the messages pulled in by jumps.
+  const [historyStart, setHistoryStart] = useState<Map<string, MessageCursor>>(new Map());
+  const [contextKeys, setContextKeys] = useState<Set<string>>(new Set());
+  const [loadingGap, setLoadingGap] = useState(false);
+  const scrollAnchorRef = useRef<{ key: string; offset: number } | null>(null);
   const [showScrollButton, setShowScrollButton] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const scrollContainerRef = useRef<HTMLDivElement>(null);
@@ -120,6 +218,8 @@ export default function ChatPanel({
   });
   const [activeDmNode, setActiveDmNode] = useState<number | null>(null);
   const [replyingTo, setReplyingTo] = useState<ChatMessage | null>(null);
+  // Outbox entry being edited in place
+  const [editingQueued, setEditingQueued] = useState<{ id: number; text: string } | null>(null);
 
   // Persist openDmTabs to localStorage whenever it changes
   useEffect(() => {
@@ -169,7 +269,7 @@ export default function ChatPanel({
         regular.push(msg);
       }
     }
-    return { regularMessages: regular, reactionsByReplyId: reactions };
+    return { regularMessages: combineMessageParts(regular), reactionsByReplyId: reactions };
   }, [messages]);
 
   // Update unread counts when messages change
@@ -200,7 +300,7 @@ export default function ChatPanel({
   }, [channel, regularMessages.length, viewMode]);
 
   const filteredMessages = useMemo(() => {
-    let msgs: ChatMessage[];
+    let msgs: DisplayMessage[];
 
     if (viewMode === "dm" && activeDmNode != null) {
       // DM mode: show conversation between self and active DM node
@@ -215,23 +315,164 @@ export default function ChatPanel({
         (m) => !m.to && (channel === -1 || m.channel === channel)
       );
     }
+    return msgs;
+  }, [regularMessages, channel, viewMode, activeDmNode, myNodeNum]);
 
-    if (searchQuery.trim()) {
-      const q = searchQuery.toLowerCase();
-      msgs = msgs.filter(
-        (m) =>
-          m.payload.toLowerCase().includes(q) ||
-          m.sender_name.toLowerCase().includes(q)
+  const conversation = useMemo<MessageConversation>(
+    () =>
+      viewMode === "dm" && activeDmNode != null
+        ? { kind: "dm", self: myNodeNum, peer: activeDmNode }
+        : { kind: "channel", channel: channel === -1 ? undefined : channel },
+    [viewMode, activeDmNode, myNodeNum, channel]
+  );
+  const conversationKey =
+    conversation.kind === "dm"
+      ? `dm:${conversation.self}:${conversation.peer}`
+      : `ch:${conversation.channel ?? "all"}`;
+  const reachedStart = historyExhausted.has(conversationKey);
+
+  // Start of the history loaded back from the newest message; messages
+  // before it came from search jumps, with unloaded history in between
+  const blockStart = useMemo(() => {
+    const stored = historyStart.get(conversationKey);
+    if (stored) return stored;
+    const first = filteredMessages.find((m) => !contextKeys.has(messageKey(m)));
+    return first ? messageCursor(first) : null;
+  }, [historyStart, conversationKey, filteredMessages, contextKeys]);
+  const gapIndex =
+    blockStart && filteredMessages.length > 0 && isBeforeCursor(filteredMessages[0], blockStart)
+      ? filteredMessages.findIndex((m) => !isBeforeCursor(m, blockStart))
+      : -1;
+
+  // Remember a message's on-screen offset so it stays put when a page is inserted above it
+  const anchorMessage = useCallback((msg: DisplayMessage | undefined) => {
+    const el = scrollContainerRef.current;
+    if (!el || !msg) return;
+    const key = messageKey(msg);
+    const anchor = Array.from(el.querySelectorAll<HTMLElement>("[data-msg-key]")).find(
+      (node) => node.dataset.msgKey === key
+    );
+    if (anchor) scrollAnchorRef.current = { key, offset: anchor.offsetTop - el.scrollTop };
+  }, []);
+
+  // Fetch the page before the oldest message shown in this conversation
+  const loadOlder = useCallback(async () => {
+    if (!scrollContainerRef.current || loadingOlderRef.current || reachedStart) return;
+    loadingOlderRef.current = true;
+    setLoadingOlder(true);
+    const oldest = filteredMessages[0];
+    anchorMessage(oldest);
+    try {
+      const { oldest: next, hasMore } = await onLoadOlderMessages(
+        conversation,
+        oldest ? messageCursor(oldest) : undefined
+      );
+      if (!hasMore) setHistoryExhausted((prev) => new Set(prev).add(conversationKey));
+      // Without a gap, this page extends the contiguous history
+      if (gapIndex < 0 && next) {
+        setHistoryStart((prev) => new Map(prev).set(conversationKey, next));
+      }
+    } catch (err) {
+      console.error("Loading older messages failed:", err);
+    } finally {
+      loadingOlderRef.current = false;
+      setLoadingOlder(false);
+    }
+  }, [filteredMessages, conversation, conversationKey, reachedStart, gapIndex, anchorMessage, onLoadOlderMessages]);
+
+  // Fill the gap between a search jump's window and the contiguous history
+  // with the page before the latter; once they meet the gap is gone
+  const loadGap = useCallback(async () => {
+    if (gapIndex < 0 || !blockStart || loadingOlderRef.current) return;
+    loadingOlderRef.current = true;
+    setLoadingGap(true);
+    anchorMessage(filteredMessages[gapIndex]);
+    const windowEnd = filteredMessages[gapIndex - 1];
+    try {
+      const { oldest, hasMore } = await onLoadOlderMessages(conversation, blockStart);
+      const joined = !oldest || !hasMore || !isBeforeCursor(windowEnd, oldest);
+      setHistoryStart((prev) =>
+        new Map(prev).set(conversationKey, joined ? messageCursor(filteredMessages[0]) : oldest)
       );
+    } catch (err) {
+      console.error("Loading older messages failed:", err);
+    } finally {
+      loadingOlderRef.current = false;
+      setLoadingGap(false);
     }
-    return msgs;
-  }, [regularMessages, channel, searchQuery, viewMode, activeDmNode, myNodeNum]);
+  }, [gapIndex, blockStart, filteredMessages, conversation, conversationKey, anchorMessage, onLoadOlderMessages]);
+
+  // Keep the previously-oldest message where it was after a page is prepended
+  useLayoutEffect(() => {
+    const anchor = scrollAnchorRef.current;
+    const el = scrollContainerRef.current;
+    if (!anchor || !el) return;
+    const node = Array.from(el.querySelectorAll<HTMLElement>("[data-msg-key]")).find(
+      (n) => n.dataset.msgKey === anchor.key
+    );
+    scrollAnchorRef.current = null;
+    if (node) el.scrollTop = node.offsetTop - anchor.offset;
+  }, [filteredMessages]);
+
+  // A short conversation can't be scrolled, so keep paging until it fills the view
+  useEffect(() => {
+    const el = scrollContainerRef.current;
+    if (el && el.scrollHeight <= el.clientHeight) loadOlder();
+  }, [conversationKey, filteredMessages.length, loadOlder]);
+
+  // Full-text search over the whole database (debounced)
+  useEffect(() => {
+    if (!showSearch || !searchQuery.trim()) {
+      setSearchResults([]);
+      setSearching(false);
+      return;
+    }
+    const filters: MessageSearchFilters = {
+      ...scopeToFilters(searchScope),
+      senderId: searchSender ?? undefined,
+      since: searchFrom ? new Date(`${searchFrom}T00:00:00`).getTime() : undefined,
+      until: searchTo ? new Date(`${searchTo}T23:59:59.999`).getTime() : undefined,
+    };
+    let cancelled = false;
+    setSearching(true);
+    const timer = setTimeout(() => {
+      window.electronAPI.db
+        .searchMessages(searchQuery, filters, SEARCH_LIMIT)
+        .then((results) => {
+          if (!cancelled) setSearchResults(results);
+        })
+        .catch((err) => {
+          console.error("Message search failed:", err);
+          if (!cancelled) setSearchResults([]);
+        })
+        .finally(() => {
+          if (!cancelled) setSearching(false);
+        });
+    }, SEARCH_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [showSearch, searchQuery, searchScope, searchSender, searchFrom, searchTo]);
+
+  const searchSenders = useMemo(
+    () =>
+      Array.from(nodes.values())
+        .map((n) => ({
+          id: n.node_id,
+          label: n.long_name || n.short_name || `!${n.node_id.toString(16)}`,
+        }))
+        .sort((a, b) => a.label.localeCompare(b.label)),
+    [nodes]
+  );
 
   // Lookup map for messages by packetId (for reply references)
   const messagesByPacketId = useMemo(() => {
-    const map = new Map<number, ChatMessage>();
+    const map = new Map<number, DisplayMessage>();
     for (const msg of regularMessages) {
-      if (msg.packetId) map.set(msg.packetId, msg);
+      for (const part of msg.parts ?? [msg]) {
+        if (part.packetId) map.set(part.packetId, msg);
+      }
     }
     return map;
   }, [regularMessages]);
@@ -242,18 +483,39 @@ export default function ChatPanel({
     if (!el) return;
     const distFromBottom = el.scrollHeight - el.scrollTop - el.clientHeight;
     setShowScrollButton(distFromBottom > 200);
-  }, []);
+    if (el.scrollTop < LOAD_OLDER_THRESHOLD_PX) loadOlder();
+  }, [loadOlder]);
 
   // Auto-scroll on new messages (only if near bottom)
   useEffect(() => {
     const el = scrollContainerRef.current;
     if (!el) return;
+    if (pendingJumpRef.current) return;
     const distFromBottom = el.scrollHeight - el.scrollTop - el.clientHeight;
     if (distFromBottom < 200) {
       messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
     }
   }, [filteredMessages.length]);
 
+  // Scroll to a message jumped to from search once it is rendered
+  useEffect(() => {
+    const key = pendingJumpRef.current;
+    const el = scrollContainerRef.current;
+    if (!key || !el) return;
+    const target = Array.from(el.querySelectorAll<HTMLElement>("[data-msg-key]")).find(
+      (node) => node.dataset.msgKey === key
+    );
+    if (!target) return;
+    pendingJumpRef.current = null;
+    target.scrollIntoView({ block: "center" });
+  }, [filteredMessages, highlightKey]);
+
+  useEffect(() => {
+    if (!highlightKey) return;
+    const timer = setTimeout(() => setHighlightKey(null), JUMP_HIGHLIGHT_MS);
+    return () => clearTimeout(timer);
+  }, [highlightKey]);
+
   const scrollToBottom = useCallback(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   }, []);
@@ -288,8 +550,12 @@ export default function ChatPanel({
     return () => window.removeEventListener("keydown", handleKeys);
   }, []);
 
+  const inputBytes = utf8Length(input.trim());
+  const inputParts = inputBytes > MAX_MESSAGE_BYTES ? countParts(input.trim()) : 1;
+  const inputTooLong = !isSendablePartCount(inputParts);
+
   const handleSend = async () => {
-    if (!input.trim() || !isConnected || sending) return;
+    if (!input.trim() || sending || inputTooLong) return;
     setSending(true);
     try {
       const sendChannel = channel === -1 ? 0 : channel;
@@ -318,7 +584,71 @@ export default function ChatPanel({
     }
   };
 
+  const saveQueuedEdit = async () => {
+    if (!editingQueued) return;
+    const text = editingQueued.text.trim();
+    // A queued entry is a single packet; keep editing until it fits
+    if (utf8Length(text) > MAX_MESSAGE_BYTES) return;
+    setEditingQueued(null);
+    if (!text) return;
+    try {
+      await onEditQueued(editingQueued.id, text);
+    } catch (err) {
+      console.error("Editing queued message failed:", err);
+    }
+  };
+
+  // "/query" filters the canned list; the picker button shows all of it
+  const slashQuery = input.startsWith("/") ? input.slice(1).toLowerCase() : null;
+  const cannedSuggestions = useMemo(() => {
+    if (slashQuery !== null) {
+      return cannedMessages.filter((m) => m.text && m.text.toLowerCase().includes(slashQuery));
+    }
+    return showCanned ? cannedMessages.filter((m) => m.text) : [];
+  }, [cannedMessages, slashQuery, showCanned]);
+
+  const handleInputChange = (value: string) => {
+    // Settings may have changed the list since it was last read
+    if (value === "/") setCannedMessages(loadCannedMessages());
+    setInput(value);
+    setCannedIndex(0);
+  };
+
+  const toggleCannedPicker = () => {
+    if (!showCanned) setCannedMessages(loadCannedMessages());
+    setShowCanned((prev) => !prev);
+    setCannedIndex(0);
+    inputRef.current?.focus();
+  };
+
+  const insertCanned = (msg: CannedMessage) => {
+    setInput(expandTemplate(msg.text, cannedVariables(nodes.get(myNodeNum))));
+    setShowCanned(false);
+    inputRef.current?.focus();
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (cannedSuggestions.length > 0) {
+      if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+        e.preventDefault();
+        const step = e.key === "ArrowDown" ? 1 : -1;
+        setCannedIndex(
+          (prev) => (prev + step + cannedSuggestions.length) % cannedSuggestions.length
+        );
+        return;
+      }
+      if (e.key === "Enter" || e.key === "Tab") {
+        e.preventDefault();
+        insertCanned(cannedSuggestions[Math.min(cannedIndex, cannedSuggestions.length - 1)]);
+        return;
+      }
+      if (e.key === "Escape") {
+        e.preventDefault();
+        setShowCanned(false);
+        if (slashQuery !== null) setInput("");
+        return;
+      }
+    }
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
       handleSend();
@@ -349,6 +679,41 @@ export default function ChatPanel({
     }
   }, [activeDmNode, openDmTabs]);
 
+  // Open a search hit in its conversation with the surrounding history loaded
+  const jumpToMessage = async (result: MessageSearchResult) => {
+    try {
+      const inMemory = new Set(messages.map(messageKey));
+      const history = await onLoadMessageContext(result.id);
+      // A window that overlaps what's loaded is joined to it, not a gap
+      if (!history.some((m) => inMemory.has(messageKey(m)))) {
+        setContextKeys((prev) => {
+          const next = new Set(prev);
+          for (const m of history) next.add(messageKey(m));
+          return next;
+        });
+      }
+    } catch (err) {
+      console.error("Loading message context failed:", err);
+    }
+    if (result.to) {
+      openDmTo(result.sender_id === myNodeNum ? result.to : result.sender_id);
+    } else {
+      setChannel(result.channel);
+      setViewMode("channels");
+    }
+    const key = messageKey(result);
+    pendingJumpRef.current = key;
+    setHighlightKey(key);
+  };
+
+  const getConversationLabel = (msg: ChatMessage) => {
+    if (msg.to) {
+      const other = msg.sender_id === myNodeNum ? msg.to : msg.sender_id;
+      return `DM · ${getDmLabel(other)}`;
+    }
+    return channels.find((c) => c.index === msg.channel)?.name ?? `ch${msg.channel}`;
+  };
+
   function formatTime(ts: number): string {
     return new Date(ts).toLocaleTimeString([], {
       hour: "2-digit",
@@ -493,13 +858,87 @@ export default function ChatPanel({
             type="text"
             value={searchQuery}
             onChange={(e) => setSearchQuery(e.target.value)}
-            placeholder="Search messages..."
+            placeholder="Search all message history..."
             className="w-full px-3 py-1.5 bg-gray-700/80 rounded-lg text-gray-200 text-sm border border-gray-600/50 focus:border-green-500/50 focus:outline-none"
             autoFocus
           />
-          {searchQuery && (
-            <div className="text-xs text-gray-500 mt-1">
-              {filteredMessages.length} result{filteredMessages.length !== 1 ? "s" : ""}
+          <div className="flex flex-wrap items-center gap-2 mt-1.5 text-xs">
+            <select
+              value={searchScope}
+              onChange={(e) => setSearchScope(e.target.value as SearchScope)}
+              className="bg-gray-700 border border-gray-600 rounded-lg px-2 py-1 text-gray-200"
+            >
+              <option value="all">All conversations</option>
+              <option value="channels">All channels</option>
+              {channels.map((ch) => (
+                <option key={ch.index} value={`ch:${ch.index}`}>
+                  {ch.name}
+                </option>
+              ))}
+              <option value="dm">Direct messages</option>
+            </select>
+            <select
+              value={searchSender ?? ""}
+              onChange={(e) => setSearchSender(e.target.value ? Number(e.target.value) : null)}
+              className="bg-gray-700 border border-gray-600 rounded-lg px-2 py-1 text-gray-200 max-w-[12rem]"
+            >
+              <option value="">Any sender</option>
+              {searchSenders.map((s) => (
+                <option key={s.id} value={s.id}>
+                  {s.label}
+                </option>
+              ))}
+            </select>
+            <input
+              type="date"
+              value={searchFrom}
+              onChange={(e) => setSearchFrom(e.target.value)}
+              className="bg-gray-700 border border-gray-600 rounded-lg px-2 py-0.5 text-gray-200"
+              title="From date"
+            />
+            <span className="text-gray-500">–</span>
+            <input
+              type="date"
+              value={searchTo}
+              onChange={(e) => setSearchTo(e.target.value)}
+              className="bg-gray-700 border border-gray-600 rounded-lg px-2 py-0.5 text-gray-200"
+              title="To date"
+            />
+            {searchQuery.trim() && (
+              <span className="text-gray-500 ml-auto">
+                {searching
+                  ? "Searching…"
+                  : `${searchResults.length}${searchResults.length === SEARCH_LIMIT ? "+" : ""} result${searchResults.length !== 1 ? "s" : ""}`}
+              </span>
+            )}
+          </div>
+
+          {/* Search results — click to open the message in context */}
+          {searchQuery.trim() && searchResults.length > 0 && (
+            <div className="mt-2 max-h-56 overflow-y-auto bg-gray-800/80 border border-gray-700 rounded-lg divide-y divide-gray-700/60">
+              {searchResults.map((result) => (
+                <button
+                  key={result.id}
+                  onClick={() => jumpToMessage(result)}
+                  className="w-full text-left px-3 py-1.5 hover:bg-gray-700/60 transition-colors"
+                >
+                  <div className="flex items-center gap-2 text-[10px] text-gray-500">
+                    <span className="font-semibold text-green-400">{result.sender_name}</span>
+                    <span className={result.to ? "text-purple-400" : ""}>
+                      {getConversationLabel(result)}
+                    </span>
+                    <span className="ml-auto">
+                      {new Date(result.timestamp).toLocaleString([], {
+                        dateStyle: "short",
+                        timeStyle: "short",
+                      })}
+                    </span>
+                  </div>
+                  <p className="text-xs text-gray-300 truncate">
+                    <SnippetText snippet={result.snippet} />
+                  </p>
+                </button>
+              ))}
             </div>
           )}
         </div>
@@ -509,7 +948,7 @@ export default function ChatPanel({
       {!isConnected && (
         <div className="bg-gray-900/60 border border-gray-700 rounded-xl p-4 mb-2 text-center">
           <p className="text-gray-400 text-sm">
-            Not connected — messages are read-only
+            Not connected — new messages are queued and sent when the device reconnects
           </p>
         </div>
       )}
@@ -520,11 +959,14 @@ export default function ChatPanel({
         onScroll={handleScroll}
         className="flex-1 overflow-y-auto bg-gray-800/50 rounded-xl p-3 space-y-1.5 min-h-0 relative"
       >
+        {loadingOlder ? (
+          <div className="text-center text-xs text-gray-500 py-1">Loading older messages…</div>
+        ) : reachedStart && filteredMessages.length > 0 ? (
+          <div className="text-center text-[10px] text-gray-600 py-1">Beginning of conversation</div>
+        ) : null}
         {filteredMessages.length === 0 ? (
           <div className="text-center text-gray-500 py-12">
-            {searchQuery
-              ? "No messages match your search."
-              : isDmMode
+            {isDmMode
               ? `No messages with ${dmNodeName} yet.`
               : isConnected
               ? "No messages yet. Send one or wait for incoming messages."
@@ -549,8 +991,25 @@ export default function ChatPanel({
               </div>
             ) : null;
 
+            // History between a search jump's window and the newer messages
+            const gap =
+              i === gapIndex ? (
+                <div className="flex items-center gap-3 py-2">
+                  <div className="flex-1 border-t border-dashed border-gray-700" />
+                  <button
+                    onClick={loadGap}
+                    disabled={loadingGap}
+                    className="text-xs text-green-400 hover:text-green-300 disabled:text-gray-500 shrink-0"
+                  >
+                    {loadingGap ? "Loading messages…" : "Load messages in between"}
+                  </button>
+                  <div className="flex-1 border-t border-dashed border-gray-700" />
+                </div>
+              ) : null;
+
             return (
-              <div key={`${msg.timestamp}-${i}`}>
+              <div key={`${msg.timestamp}-${i}`} data-msg-key={messageKey(msg)}>
+                {gap}
                 {daySeparator}
                 <div
                   className={`flex flex-col ${
@@ -565,7 +1024,9 @@ export default function ChatPanel({
                   >
                     {/* Message bubble */}
                     <div
-                      className={`rounded-2xl px-3 py-2 min-w-0 ${
+                      className={`rounded-2xl px-3 py-2 min-w-0 transition-shadow ${
+                        highlightKey === messageKey(msg) ? "ring-2 ring-yellow-400/70" : ""
+                      } ${
                         isDm
                           ? isOwn
                             ? "rounded-br-sm bg-purple-600/20 border border-purple-500/30"
@@ -597,6 +1058,14 @@ export default function ChatPanel({
                             ch{msg.channel}
                           </span>
                         )}
+                        {msg.parts && (
+                          <span
+                            className="text-[10px] text-gray-600"
+                            title="Long message received in several packets"
+                          >
+                            {msg.parts.length} parts
+                          </span>
+                        )}
                       </div>
 
                       {/* Quoted reply context */}
@@ -619,13 +1088,63 @@ export default function ChatPanel({
                       })() : null}
 
                       {/* Message text with optional search highlight */}
-                      <p className="text-sm text-gray-200 break-words leading-relaxed">
-                        <HighlightText text={msg.payload} query={searchQuery} />
-                      </p>
+                      {editingQueued && editingQueued.id === msg.queueId ? (
+                        <input
+                          type="text"
+                          value={editingQueued.text}
+                          onChange={(e) => setEditingQueued({ ...editingQueued, text: e.target.value })}
+                          onKeyDown={(e) => {
+                            if (e.key === "Enter") saveQueuedEdit();
+                            if (e.key === "Escape") setEditingQueued(null);
+                          }}
+                          onBlur={saveQueuedEdit}
+                          autoFocus
+                          title={`${utf8Length(editingQueued.text.trim())}/${MAX_MESSAGE_BYTES} bytes`}
+                          className={`w-full min-w-[12rem] px-2 py-1 bg-gray-800 rounded text-sm text-gray-200 border focus:outline-none ${
+                            utf8Length(editingQueued.text.trim()) > MAX_MESSAGE_BYTES
+                              ? "border-red-500"
+                              : "border-gray-600 focus:border-green-500"
+                          }`}
+                        />
+                      ) : (
+                        <p className="text-sm text-gray-200 break-words leading-relaxed">
+                          <HighlightText text={msg.payload} query={searchQuery} />
+                        </p>
+                      )}
 
                       {/* Delivery status for own messages */}
                       {isOwn && msg.status && (
                         <div className="flex items-center justify-end gap-1 mt-0.5">
+                          {msg.status === "queued" && msg.queueId !== undefined && (
+                            <>
+                              <span
+                                className="text-[10px] text-yellow-400/80"
+                                title="Waiting to be sent when the device reconnects"
+                              >
+                                {"🕓"} Queued
+                              </span>
+                              {!msg.parts && (
+                                <button
+                                  onClick={() =>
+                                    setEditingQueued({ id: msg.queueId!, text: msg.payload })
+                                  }
+                                  className="text-[10px] text-gray-500 hover:text-gray-300 ml-1"
+                                >
+                                  Edit
+                                </button>
+                              )}
+                              <button
+                                onClick={() => {
+                                  for (const part of msg.parts ?? [msg]) {
+                                    if (part.queueId !== undefined) onCancelQueued(part.queueId);
+                                  }
+                                }}
+                                className="text-[10px] text-gray-500 hover:text-red-400"
+                              >
+                                Cancel
+                              </button>
+                            </>
+                          )}
                           {msg.status === "sending" && (
                             <span
                               className="text-[10px] text-gray-500"
@@ -634,10 +1153,22 @@ export default function ChatPanel({
                               {"⏳"}
                             </span>
                           )}
+                          {msg.status === "retrying" && (
+                            <span
+                              className="text-[10px] text-yellow-400/80 cursor-help"
+                              title={`${msg.error || "Not delivered"} — sent ${msg.attempts ?? 1}×, retrying automatically`}
+                            >
+                              {"↻"} Retrying…
+                            </span>
+                          )}
                           {msg.status === "acked" && (
                             <span
                               className="text-[10px] text-green-500"
-                              title="Delivered"
+                              title={
+                                (msg.attempts ?? 1) > 1
+                                  ? `Delivered after ${msg.attempts} attempts`
+                                  : "Delivered"
+                              }
                             >
                               {"✓"}
                             </span>
@@ -645,11 +1176,30 @@ export default function ChatPanel({
                           {msg.status === "failed" && (
                             <span
                               className="text-[10px] text-red-400 cursor-help"
-                              title={msg.error || "Failed to deliver"}
+                              title={
+                                (msg.attempts ?? 1) > 1
+                                  ? `${msg.error || "Failed to deliver"} after ${msg.attempts} attempts`
+                                  : msg.error || "Failed to deliver"
+                              }
                             >
                               {"✗"} {msg.error || "Failed"}
                             </span>
                           )}
+                          {(msg.status === "failed" || msg.status === "retrying") &&
+                            isConnected &&
+                            msg.packetId && (
+                              <button
+                                onClick={() => {
+                                  for (const part of msg.parts ?? [msg]) {
+                                    if (part.status !== "failed" && part.status !== "retrying") continue;
+                                    onRetry(part).catch((err) => console.error("Retry failed:", err));
+                                  }
+                                }}
+                                className="text-[10px] text-gray-500 hover:text-gray-300 ml-1"
+                              >
+                                Retry
+                              </button>
+                            )}
                         </div>
                       )}
                     </div>
@@ -826,43 +1376,79 @@ export default function ChatPanel({
       )}
 
       {/* Input area */}
-      <div className={`flex gap-2 ${replyingTo ? "mt-1" : "mt-2"}`}>
+      <div className={`relative flex gap-2 ${replyingTo ? "mt-1" : "mt-2"}`}>
+        {cannedSuggestions.length > 0 && (
+          <div className="absolute bottom-full left-0 right-0 mb-1 max-h-56 overflow-y-auto bg-gray-800 border border-gray-600 rounded-lg shadow-xl z-20 py-1">
+            {cannedSuggestions.map((msg, i) => (
+              <button
+                key={msg.id}
+                // Keep focus in the input so keyboard selection keeps working
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => insertCanned(msg)}
+                onMouseEnter={() => setCannedIndex(i)}
+                className={`block w-full text-left px-3 py-1.5 text-sm truncate ${
+                  i === cannedIndex ? "bg-gray-700 text-gray-100" : "text-gray-300"
+                }`}
+              >
+                {msg.text}
+              </button>
+            ))}
+          </div>
+        )}
+        <button
+          onClick={toggleCannedPicker}
+          disabled={sending}
+          className={`px-3 rounded-xl border transition-colors disabled:opacity-50 ${
+            showCanned
+              ? "bg-gray-600 border-gray-500 text-gray-200"
+              : "bg-gray-700/80 border-gray-600/50 text-gray-400 hover:text-gray-200"
+          }`}
+          title="Canned messages (or type /)"
+        >
+          ☰
+        </button>
         <input
+          ref={inputRef}
           type="text"
           value={input}
-          onChange={(e) => setInput(e.target.value)}
+          onChange={(e) => handleInputChange(e.target.value)}
           onKeyDown={handleKeyDown}
-          disabled={!isConnected || sending}
+          disabled={sending}
           placeholder={
             isDmMode
               ? `DM to ${dmNodeName}...`
               : isConnected
               ? "Type a message..."
-              : "Connect to send messages"
+              : "Type a message — it will be sent when reconnected"
           }
           className={`flex-1 px-4 py-2.5 rounded-xl text-gray-200 border focus:outline-none disabled:opacity-50 transition-colors ${
             isDmMode
               ? "bg-purple-900/20 border-purple-600/50 focus:border-purple-500/50 focus:ring-1 focus:ring-purple-500/30"
               : "bg-gray-700/80 border-gray-600/50 focus:border-green-500/50 focus:ring-1 focus:ring-green-500/30"
           }`}
-          maxLength={228}
         />
         <button
           onClick={handleSend}
-          disabled={!isConnected || !input.trim() || sending}
+          disabled={!input.trim() || sending || inputTooLong}
           className={`px-5 py-2.5 font-medium rounded-xl transition-colors ${
             isDmMode
               ? "bg-purple-600 hover:bg-purple-500 disabled:bg-gray-600 disabled:text-gray-400 text-white"
               : "bg-green-600 hover:bg-green-500 disabled:bg-gray-600 disabled:text-gray-400 text-white"
           }`}
         >
-          {sending ? "..." : "Send"}
+          {sending ? "..." : isConnected ? "Send" : "Queue"}
         </button>
       </div>
-      {/* Character count — only show near limit */}
-      {input.length > 180 && (
-        <div className="text-xs text-gray-500 mt-1 text-right">
-          {input.length}/228
+      {/* Byte count — only shown near the single-packet limit */}
+      {inputBytes > MAX_MESSAGE_BYTES - 48 && (
+        <div
+          className={`text-xs mt-1 text-right ${inputTooLong ? "text-red-400" : "text-gray-500"}`}
+        >
+          {inputParts > 1
+            ? inputTooLong
+              ? `Too long (max ${MAX_MESSAGE_PARTS} parts)`
+              : `${inputBytes} bytes · sent as ${inputParts} parts`
+            : `${inputBytes}/${MAX_MESSAGE_BYTES} bytes`}
         </div>
       )}
     </div>
@@ -0,0 +1,215 @@
+import { useState } from "react";
+import type { LocalOnly } from "@meshtastic/protobufs";
+import {
+  buildConfigBackup,
+  buildConfigRestore,
+  diffConfigBackup,
+  parseConfigBackup,
+  type BackupSection,
+  type ConfigBackup as Backup,
+  type ConfigRestore,
+  type LiveConfig,
+} from "../lib/configBackup";
+import type { MeshNode } from "../lib/types";
+import { useToast } from "./Toast";
+
+interface Props {
+  onApplyConfigBackup: (restore: ConfigRestore) => Promise<void>;
+  deviceConfig: LocalOnly.LocalConfig;
+  moduleConfig: LocalOnly.LocalModuleConfig;
+  channelConfigs: Array<{ index: number; name: string; role: number; psk: Uint8Array }>;
+  nodes: Map<number, MeshNode>;
+  myNodeNum: number;
+  isConnected: boolean;
+}
+
+interface Review {
+  fileName: string;
+  backup: Backup;
+  sections: BackupSection[];
+  selected: Set<string>;
+}
+
+/** Export / import of the device's settings as a CLI-style YAML file */
+export default function ConfigBackup({
+  onApplyConfigBackup,
+  deviceConfig,
+  moduleConfig,
+  channelConfigs,
+  nodes,
+  myNodeNum,
+  isConnected,
+}: Props) {
+  const { addToast } = useToast();
+  const [review, setReview] = useState<Review | null>(null);
+  const [applying, setApplying] = useState(false);
+
+  const myNode = nodes.get(myNodeNum);
+  const live: LiveConfig = {
+    deviceConfig,
+    moduleConfig,
+    channels: channelConfigs,
+    owner: myNode ? { longName: myNode.long_name, shortName: myNode.short_name } : undefined,
+  };
+
+  const handleExport = async () => {
+    try {
+      const path = await window.electronAPI.config.exportFile(buildConfigBackup(live));
+      if (path) addToast(`Config exported to: ${path}`, "success");
+    } catch (err) {
+      addToast(`Export failed: ${err instanceof Error ? err.message : "Unknown error"}`, "error");
+    }
+  };
+
+  const handleImport = async () => {
+    try {
+      const file = await window.electronAPI.config.importFile();
+      if (!file) return;
+      const backup = parseConfigBackup(file.content);
+      const sections = diffConfigBackup(backup, live);
+      setReview({
+        fileName: file.path.split(/[\\/]/).pop() ?? file.path,
+        backup,
+        sections,
+        // Sections that already match are left out unless ticked
+        selected: new Set(
+          sections.filter((s) => s.changes.length > 0 && !s.skipped).map((s) => s.id)
+        ),
+      });
+    } catch (err) {
+      addToast(`Import failed: ${err instanceof Error ? err.message : "Unknown error"}`, "error");
+    }
+  };
+
+  const toggleSection = (id: string) => {
+    setReview((prev) => {
+      if (!prev) return prev;
+      const selected = new Set(prev.selected);
+      if (selected.has(id)) selected.delete(id);
+      else selected.add(id);
+      return { ...prev, selected };
+    });
+  };
+
+  const handleApply = async () => {
+    if (!review) return;
+    setApplying(true);
+    try {
+      const restore = buildConfigRestore(review.backup, live, review.selected);
+      await onApplyConfigBackup(restore);
+      const applied = review.selected.size - restore.skipped.length;
+      const skipped = restore.skipped.length > 0 ? `, skipped ${restore.skipped.length} unreported` : "";
+      addToast(
+        `Applied ${applied} section${applied === 1 ? "" : "s"}${skipped} — the device may reboot`,
+        "success"
+      );
+      setReview(null);
+    } catch (err) {
+      addToast(`Apply failed: ${err instanceof Error ? err.message : "Unknown error"}`, "error");
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="bg-gray-800/50 border border-gray-700 rounded-lg px-4 py-3 space-y-3">
+        <p className="text-xs text-gray-500">
+          Save the owner, channels, device and module config to a YAML file in the Meshtastic CLI's
+          --export-config layout, or restore one after reviewing what it changes.
+        </p>
+        <div className="flex gap-2">
+          <button
+            onClick={handleExport}
+            disabled={!isConnected}
+            className="px-3 py-1.5 bg-gray-700 text-gray-300 hover:bg-gray-600 rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+          >
+            Export Config
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={!isConnected}
+            className="px-3 py-1.5 bg-gray-700 text-gray-300 hover:bg-gray-600 rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+          >
+            Import Config…
+          </button>
+        </div>
+      </div>
+
+      {review && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center">
+          <div
+            className="absolute inset-0 bg-black/60 backdrop-blur-sm"
+            onClick={() => !applying && setReview(null)}
+          />
+          <div className="relative bg-gray-800 border border-gray-600 rounded-xl shadow-2xl max-w-2xl w-full mx-4 p-6 space-y-4 max-h-[85vh] flex flex-col">
+            <div>
+              <h3 className="text-lg font-semibold text-gray-200">Import Config</h3>
+              <p className="text-xs text-gray-500 mt-1">
+                {review.fileName} — selected sections are written in one transaction.
+              </p>
+            </div>
+            <div className="flex-1 overflow-y-auto space-y-2 pr-1">
+              {review.sections.map((section) => (
+                <div key={section.id} className="bg-gray-900/50 border border-gray-700 rounded-lg px-3 py-2">
+                  <label className="flex items-center gap-2 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={review.selected.has(section.id)}
+                      onChange={() => toggleSection(section.id)}
+                      disabled={!!section.skipped}
+                      className="accent-green-500"
+                    />
+                    <span className="text-sm text-gray-200 flex-1">{section.label}</span>
+                    <span
+                      className={`text-xs ${section.changes.length > 0 ? "text-yellow-400" : "text-gray-500"}`}
+                    >
+                      {section.changes.length > 0
+                        ? `${section.changes.length} changed`
+                        : "matches device"}
+                    </span>
+                  </label>
+                  {section.skipped && (
+                    <p className="text-xs text-yellow-400/80 mt-1">{section.skipped}</p>
+                  )}
+                  {section.changes.length > 0 && (
+                    <table className="w-full mt-2 text-xs font-mono">
+                      <tbody>
+                        {section.changes.map((change) => (
+                          <tr key={change.field} className="align-top">
+                            <td className="py-0.5 pr-3 text-gray-400 whitespace-nowrap">{change.field}</td>
+                            <td className="py-0.5 pr-2 text-red-300/80 break-all">{change.current}</td>
+                            <td className="py-0.5 pr-2 text-gray-600">→</td>
+                            <td className="py-0.5 text-green-300 break-all">{change.incoming}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              ))}
+            </div>
+            <div className="flex gap-3 pt-2">
+              <button
+                onClick={() => setReview(null)}
+                disabled={applying}
+                className="flex-1 px-4 py-2.5 bg-gray-700 hover:bg-gray-600 text-gray-300 font-medium rounded-lg transition-colors text-sm"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleApply}
+                disabled={applying || !isConnected || review.selected.size === 0}
+                className="flex-1 px-4 py-2.5 bg-green-600 hover:bg-green-500 disabled:bg-gray-600 disabled:text-gray-400 text-white font-medium rounded-lg transition-colors text-sm"
+              >
+                {applying
+                  ? "Applying…"
+                  : `Apply ${review.selected.size} section${review.selected.size === 1 ? "" : "s"}`}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
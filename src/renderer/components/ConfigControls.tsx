@@ -0,0 +1,325 @@
+import { useEffect, useState } from "react";
+
+// Form controls shared by the device and module config editors. Every
+// control can mark its field as changed but not yet applied.
+
+/** Field label with a marker for unsaved changes */
+export function FieldLabel({ label, dirty }: { label: string; dirty?: boolean }) {
+  return (
+    <label className="text-sm text-gray-400 flex items-center gap-1.5">
+      {label}
+      {dirty && (
+        <span className="w-1.5 h-1.5 rounded-full bg-yellow-400" title="Changed, not applied yet" />
+      )}
+    </label>
+  );
+}
+
+/** Reusable select component */
+export function ConfigSelect({
+  label,
+  value,
+  options,
+  onChange,
+  disabled,
+  dirty,
+  description,
+}: {
+  label: string;
+  value: number;
+  options: Array<{ value: number; label: string; description?: string }>;
+  onChange: (val: number) => void;
+  disabled: boolean;
+  dirty?: boolean;
+  description?: string;
+}) {
+  return (
+    <div className="space-y-1">
+      <FieldLabel label={label} dirty={dirty} />
+      <select
+        value={value}
+        onChange={(e) => onChange(Number(e.target.value))}
+        disabled={disabled}
+        className="w-full px-3 py-2 bg-gray-700 rounded-lg text-gray-200 border border-gray-600 focus:border-green-500 focus:outline-none disabled:opacity-50"
+      >
+        {/* Keep a value the list doesn't know instead of showing the first option */}
+        {!options.some((o) => o.value === value) && <option value={value}>Unknown ({value})</option>}
+        {options.map((o) => (
+          <option key={o.value} value={o.value}>
+            {o.label}
+          </option>
+        ))}
+      </select>
+      {description && <p className="text-xs text-gray-500">{description}</p>}
+    </div>
+  );
+}
+
+/** Reusable toggle switch */
+export function ConfigToggle({
+  label,
+  checked,
+  onChange,
+  disabled,
+  dirty,
+  description,
+}: {
+  label: string;
+  checked: boolean;
+  onChange: (val: boolean) => void;
+  disabled: boolean;
+  dirty?: boolean;
+  description?: string;
+}) {
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between">
+        <FieldLabel label={label} dirty={dirty} />
+        <button
+          onClick={() => onChange(!checked)}
+          disabled={disabled}
+          className={`relative w-10 h-5 rounded-full transition-colors disabled:opacity-50 ${
+            checked ? "bg-green-600" : "bg-gray-600"
+          }`}
+        >
+          <span
+            className={`absolute top-0.5 left-0.5 w-4 h-4 rounded-full bg-white transition-transform ${
+              checked ? "translate-x-5" : "translate-x-0"
+            }`}
+          />
+        </button>
+      </div>
+      {description && <p className="text-xs text-gray-500">{description}</p>}
+    </div>
+  );
+}
+
+/** Reusable number input */
+export function ConfigNumber({
+  label,
+  value,
+  onChange,
+  disabled,
+  dirty,
+  min,
+  max,
+  step,
+  unit,
+  description,
+}: {
+  label: string;
+  value: number;
+  onChange: (val: number) => void;
+  disabled: boolean;
+  dirty?: boolean;
+  min?: number;
+  max?: number;
+  step?: number;
+  unit?: string;
+  description?: string;
+}) {
+  return (
+    <div className="space-y-1">
+      <FieldLabel label={label} dirty={dirty} />
+      <div className="flex items-center gap-2">
+        <input
+          type="number"
+          value={value}
+          onChange={(e) => onChange(Number(e.target.value))}
+          min={min}
+          max={max}
+          step={step}
+          disabled={disabled}
+          className="w-28 px-3 py-2 bg-gray-700 rounded-lg text-gray-200 border border-gray-600 focus:border-green-500 focus:outline-none disabled:opacity-50"
+        />
+        {unit && <span className="text-sm text-gray-500">{unit}</span>}
+      </div>
+      {description && <p className="text-xs text-gray-500">{description}</p>}
+    </div>
+  );
+}
+
+/** Reusable text input */
+export function ConfigText({
+  label,
+  value,
+  onChange,
+  disabled,
+  dirty,
+  secret,
+  placeholder,
+  description,
+}: {
+  label: string;
+  value: string;
+  onChange: (val: string) => void;
+  disabled: boolean;
+  dirty?: boolean;
+  secret?: boolean;
+  placeholder?: string;
+  description?: string;
+}) {
+  return (
+    <div className="space-y-1">
+      <FieldLabel label={label} dirty={dirty} />
+      <input
+        type={secret ? "password" : "text"}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        disabled={disabled}
+        placeholder={placeholder}
+        className="w-full px-3 py-2 bg-gray-700 rounded-lg text-gray-200 border border-gray-600 focus:border-green-500 focus:outline-none disabled:opacity-50"
+      />
+      {description && <p className="text-xs text-gray-500">{description}</p>}
+    </div>
+  );
+}
+
+/**
+ * Text input for values with a strict format (IP addresses, keys). Keeps
+ * the typed text locally and reports a value only once it parses.
+ */
+export function ConfigParsed<T>({
+  label,
+  value,
+  format,
+  parse,
+  onChange,
+  disabled,
+  dirty,
+  mono,
+  placeholder,
+  description,
+}: {
+  label: string;
+  value: T;
+  format: (val: T) => string;
+  parse: (text: string) => T | null;
+  onChange: (val: T) => void;
+  disabled: boolean;
+  dirty?: boolean;
+  mono?: boolean;
+  placeholder?: string;
+  description?: string;
+}) {
+  const formatted = format(value);
+  const [text, setText] = useState(formatted);
+  const valid = parse(text) !== null;
+
+  // Follow external changes (device refresh, revert)
+  useEffect(() => {
+    setText(formatted);
+  }, [formatted]);
+
+  return (
+    <div className="space-y-1">
+      <FieldLabel label={label} dirty={dirty} />
+      <input
+        type="text"
+        value={text}
+        onChange={(e) => {
+          setText(e.target.value);
+          const parsed = parse(e.target.value);
+          if (parsed !== null) onChange(parsed);
+        }}
+        disabled={disabled}
+        placeholder={placeholder}
+        spellCheck={false}
+        className={`w-full px-3 py-2 bg-gray-700 rounded-lg text-gray-200 border focus:outline-none disabled:opacity-50 ${
+          mono ? "font-mono text-xs" : ""
+        } ${valid ? "border-gray-600 focus:border-green-500" : "border-red-500"}`}
+      />
+      {description && <p className="text-xs text-gray-500">{description}</p>}
+    </div>
+  );
+}
+
+/** Collapsible section wrapper */
+export function ConfigSection({
+  title,
+  children,
+  onApply,
+  onRevert,
+  applying,
+  dirtyCount,
+  unavailable,
+  disabled,
+  errors = [],
+  staged = false,
+}: {
+  title: string;
+  children: React.ReactNode;
+  onApply: () => void;
+  onRevert: () => void;
+  applying: boolean;
+  dirtyCount: number;
+  // The device hasn't reported this section, so it can't be applied safely
+  unavailable: boolean;
+  disabled: boolean;
+  // Validation problems that block applying
+  errors?: string[];
+  // Edits wait for the panel-wide review instead of a per-section Apply
+  staged?: boolean;
+}) {
+  return (
+    <details className="group bg-gray-800/50 rounded-lg border border-gray-700">
+      <summary className="px-4 py-3 cursor-pointer text-gray-200 font-medium flex items-center justify-between hover:bg-gray-800 rounded-lg transition-colors">
+        <span className="flex items-center gap-2">
+          {title}
+          {dirtyCount > 0 && (
+            <span className="text-xs font-normal px-1.5 py-0.5 rounded bg-yellow-900/50 text-yellow-400">
+              {dirtyCount} changed
+            </span>
+          )}
+        </span>
+        <svg
+          className="w-4 h-4 text-gray-500 group-open:rotate-180 transition-transform"
+          fill="none"
+          viewBox="0 0 24 24"
+          stroke="currentColor"
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </summary>
+      <div className="px-4 pb-4 space-y-4">
+        {unavailable && !disabled && (
+          <p className="text-xs text-yellow-400/80">
+            The device hasn't reported this section yet.
+          </p>
+        )}
+        {children}
+        {errors.length > 0 && (
+          <ul className="text-xs text-red-400 bg-red-900/20 border border-red-800/50 rounded-lg px-3 py-2 space-y-0.5">
+            {errors.map((err) => (
+              <li key={err}>{err}</li>
+            ))}
+          </ul>
+        )}
+        <div className="flex gap-2">
+          {staged ? (
+            <p className="flex-1 text-xs text-gray-500 self-center">
+              {dirtyCount > 0 ? "Changes are staged for review." : "No staged changes."}
+            </p>
+          ) : (
+            <button
+              onClick={onApply}
+              disabled={disabled || applying || unavailable || dirtyCount === 0 || errors.length > 0}
+              className="flex-1 px-4 py-2 bg-green-600 hover:bg-green-500 disabled:bg-gray-600 disabled:text-gray-400 text-white text-sm font-medium rounded-lg transition-colors"
+            >
+              {applying ? "Applying..." : `Apply ${title}`}
+            </button>
+          )}
+          {dirtyCount > 0 && (
+            <button
+              onClick={onRevert}
+              disabled={applying}
+              className="px-4 py-2 bg-gray-700 text-gray-300 hover:bg-gray-600 text-sm font-medium rounded-lg transition-colors disabled:opacity-50"
+            >
+              Revert
+            </button>
+          )}
+        </div>
+      </div>
+    </details>
+  );
+}
@@ -1,4 +1,22 @@
 import { useState, useEffect } from "react";
+import { Config, type LocalOnly } from "@meshtastic/protobufs";
+import type { ConfigDraft } from "../hooks/useConfigDraft";
+import {
+  ConfigNumber,
+  ConfigParsed,
+  ConfigSection,
+  ConfigSelect,
+  ConfigText,
+  ConfigToggle,
+  FieldLabel,
+} from "./ConfigControls";
+import ConfigReviewModal, {
+  fieldLabel,
+  formatConfigValue as formatValue,
+  UNREPORTED_SECTION,
+  type ReviewSection,
+} from "./ConfigReviewModal";
+import { moduleReviewSections, type ModuleCase } from "./ModuleConfigPanel";
 
 interface ChannelConfig {
   index: number;
@@ -16,53 +34,91 @@ interface Props {
     settings: { name: string; psk: Uint8Array };
   }) => Promise<void>;
   onClearChannel: (index: number) => Promise<void>;
+  // Writes several sections in one edit-settings transaction
+  onApplyChanges: (changes: { config: unknown[]; moduleConfig: unknown[] }) => Promise<void>;
   channelConfigs: ChannelConfig[];
+  deviceConfig: LocalOnly.LocalConfig;
+  // Edits over deviceConfig and the module config, kept by App so staged
+  // sections survive switching tabs; applied together in staged mode
+  configDraft: ConfigDraft<ConfigCase>;
+  moduleDraft: ConfigDraft<ModuleCase>;
+  staged: boolean;
+  onStagedChange: (staged: boolean) => void;
   isConnected: boolean;
 }
 
+// Config.payloadVariant cases, which double as LocalConfig field names
+export type ConfigCase =
+  | "device"
+  | "position"
+  | "power"
+  | "network"
+  | "display"
+  | "lora"
+  | "bluetooth"
+  | "security";
+
+const Region = Config.Config_LoRaConfig_RegionCode;
+const Preset = Config.Config_LoRaConfig_ModemPreset;
+const Role = Config.Config_DeviceConfig_Role;
+
+// Values come from the protobuf enums so the selects match what the device reports
 const REGIONS = [
-  { value: 0, label: "Unset" },
-  { value: 1, label: "US" },
-  { value: 2, label: "EU_433" },
-  { value: 3, label: "EU_868" },
-  { value: 4, label: "CN" },
-  { value: 5, label: "JP" },
-  { value: 6, label: "ANZ" },
-  { value: 7, label: "KR" },
-  { value: 8, label: "TW" },
-  { value: 9, label: "RU" },
-  { value: 10, label: "IN" },
-  { value: 11, label: "NZ_865" },
-  { value: 12, label: "TH" },
-  { value: 13, label: "UA_433" },
-  { value: 14, label: "UA_868" },
-  { value: 15, label: "MY_433" },
-  { value: 16, label: "MY_919" },
-  { value: 17, label: "SG_923" },
-  { value: 18, label: "LORA_24" },
+  { value: Region.UNSET, label: "Unset" },
+  { value: Region.US, label: "US" },
+  { value: Region.EU_433, label: "EU_433" },
+  { value: Region.EU_868, label: "EU_868" },
+  { value: Region.CN, label: "CN" },
+  { value: Region.JP, label: "JP" },
+  { value: Region.ANZ, label: "ANZ" },
+  { value: Region.ANZ_433, label: "ANZ_433" },
+  { value: Region.KR, label: "KR" },
+  { value: Region.TW, label: "TW" },
+  { value: Region.RU, label: "RU" },
+  { value: Region.IN, label: "IN" },
+  { value: Region.NZ_865, label: "NZ_865" },
+  { value: Region.TH, label: "TH" },
+  { value: Region.UA_433, label: "UA_433" },
+  { value: Region.UA_868, label: "UA_868" },
+  { value: Region.MY_433, label: "MY_433" },
+  { value: Region.MY_919, label: "MY_919" },
+  { value: Region.SG_923, label: "SG_923" },
+  { value: Region.PH_433, label: "PH_433" },
+  { value: Region.PH_868, label: "PH_868" },
+  { value: Region.PH_915, label: "PH_915" },
+  { value: Region.KZ_433, label: "KZ_433" },
+  { value: Region.KZ_863, label: "KZ_863" },
+  { value: Region.NP_865, label: "NP_865" },
+  { value: Region.BR_902, label: "BR_902" },
+  { value: Region.LORA_24, label: "LORA_24" },
 ];
 
 const MODEM_PRESETS = [
-  { value: 0, label: "Long Fast" },
-  { value: 1, label: "Long Slow" },
-  { value: 2, label: "Long Moderate" },
-  { value: 3, label: "Short Fast" },
-  { value: 4, label: "Short Slow" },
-  { value: 5, label: "Medium Fast" },
-  { value: 6, label: "Medium Slow" },
+  { value: Preset.LONG_FAST, label: "Long Fast" },
+  { value: Preset.LONG_SLOW, label: "Long Slow" },
+  { value: Preset.VERY_LONG_SLOW, label: "Very Long Slow (deprecated)" },
+  { value: Preset.MEDIUM_SLOW, label: "Medium Slow" },
+  { value: Preset.MEDIUM_FAST, label: "Medium Fast" },
+  { value: Preset.SHORT_SLOW, label: "Short Slow" },
+  { value: Preset.SHORT_FAST, label: "Short Fast" },
+  { value: Preset.LONG_MODERATE, label: "Long Moderate" },
+  { value: Preset.SHORT_TURBO, label: "Short Turbo" },
 ];
 
 const DEVICE_ROLES = [
-  { value: 0, label: "Client", description: "Normal client mode" },
-  { value: 1, label: "Client Mute", description: "Client that does not transmit" },
-  { value: 2, label: "Router", description: "Dedicated router/repeater" },
-  { value: 3, label: "Router Client", description: "Router + client mode" },
-  { value: 5, label: "Tracker", description: "GPS tracker only" },
-  { value: 6, label: "Sensor", description: "Telemetry sensor node" },
-  { value: 7, label: "TAK", description: "TAK-enabled device" },
-  { value: 8, label: "Client Hidden", description: "Client, hidden from node list" },
-  { value: 9, label: "Lost and Found", description: "Broadcasts position for recovery" },
-  { value: 10, label: "TAK Tracker", description: "TAK tracker mode" },
+  { value: Role.CLIENT, label: "Client", description: "Normal client mode" },
+  { value: Role.CLIENT_MUTE, label: "Client Mute", description: "Client that does not transmit" },
+  { value: Role.ROUTER, label: "Router", description: "Dedicated router/repeater" },
+  { value: Role.ROUTER_CLIENT, label: "Router Client", description: "Router + client mode (deprecated)" },
+  { value: Role.REPEATER, label: "Repeater", description: "Rebroadcasts without appearing in the node list (deprecated)" },
+  { value: Role.TRACKER, label: "Tracker", description: "GPS tracker only" },
+  { value: Role.SENSOR, label: "Sensor", description: "Telemetry sensor node" },
+  { value: Role.TAK, label: "TAK", description: "TAK-enabled device" },
+  { value: Role.CLIENT_HIDDEN, label: "Client Hidden", description: "Client, hidden from node list" },
+  { value: Role.LOST_AND_FOUND, label: "Lost and Found", description: "Broadcasts position for recovery" },
+  { value: Role.TAK_TRACKER, label: "TAK Tracker", description: "TAK tracker mode" },
+  { value: Role.ROUTER_LATE, label: "Router Late", description: "Rebroadcasts only after other routers had their turn" },
+  { value: Role.CLIENT_BASE, label: "Client Base", description: "Client that also routes for its favorite nodes" },
 ];
 
 const DISPLAY_UNITS = [
@@ -70,158 +126,97 @@ const DISPLAY_UNITS = [
   { value: 1, label: "Imperial" },
 ];
 
-/** Reusable select component */
-function ConfigSelect({
-  label,
-  value,
-  options,
-  onChange,
-  disabled,
-  description,
-}: {
-  label: string;
-  value: number;
-  options: Array<{ value: number; label: string; description?: string }>;
-  onChange: (val: number) => void;
-  disabled: boolean;
-  description?: string;
-}) {
-  return (
-    <div className="space-y-1">
-      <label className="text-sm text-gray-400">{label}</label>
-      <select
-        value={value}
-        onChange={(e) => onChange(Number(e.target.value))}
-        disabled={disabled}
-        className="w-full px-3 py-2 bg-gray-700 rounded-lg text-gray-200 border border-gray-600 focus:border-green-500 focus:outline-none disabled:opacity-50"
-      >
-        {options.map((o) => (
-          <option key={o.value} value={o.value}>
-            {o.label}
-          </option>
-        ))}
-      </select>
-      {description && <p className="text-xs text-gray-500">{description}</p>}
-    </div>
-  );
+const OLED_TYPES = [
+  { value: 0, label: "Auto detect" },
+  { value: 1, label: "SSD1306" },
+  { value: 2, label: "SH1106" },
+  { value: 3, label: "SH1107" },
+];
+
+// Only used when the modem preset is off
+const BANDWIDTHS = [
+  { value: 0, label: "Default" },
+  { value: 31, label: "31.25 kHz" },
+  { value: 62, label: "62.5 kHz" },
+  { value: 125, label: "125 kHz" },
+  { value: 250, label: "250 kHz" },
+  { value: 500, label: "500 kHz" },
+];
+
+const CODING_RATES = [
+  { value: 0, label: "Default" },
+  { value: 5, label: "4/5" },
+  { value: 6, label: "4/6" },
+  { value: 7, label: "4/7" },
+  { value: 8, label: "4/8" },
+];
+
+const ADDRESS_MODES = [
+  { value: 0, label: "DHCP" },
+  { value: 1, label: "Static" },
+];
+
+const SECTION_TITLES: Record<ConfigCase, string> = {
+  lora: "LoRa / Radio",
+  device: "Device Role",
+  position: "Position / GPS",
+  power: "Power",
+  network: "Network",
+  bluetooth: "Bluetooth",
+  display: "Display",
+  security: "Security",
+};
+
+// Enum fields, so the review names values instead of numbering them
+const FIELD_OPTIONS: Partial<Record<ConfigCase, Record<string, Array<{ value: number; label: string }>>>> = {
+  lora: { region: REGIONS, modemPreset: MODEM_PRESETS, bandwidth: BANDWIDTHS, codingRate: CODING_RATES },
+  device: { role: DEVICE_ROLES },
+  display: { units: DISPLAY_UNITS, oled: OLED_TYPES },
+  network: { addressMode: ADDRESS_MODES },
+};
+
+// Shown as set/empty rather than printed in the review
+const SECRET_FIELDS = new Set(["privateKey", "wifiPsk"]);
+
+// Firmware stores IPv4 addresses as little-endian uint32
+function ipToString(ip: number): string {
+  return [ip & 255, (ip >>> 8) & 255, (ip >>> 16) & 255, ip >>> 24].join(".");
 }
 
-/** Reusable toggle switch */
-function ConfigToggle({
-  label,
-  checked,
-  onChange,
-  disabled,
-  description,
-}: {
-  label: string;
-  checked: boolean;
-  onChange: (val: boolean) => void;
-  disabled: boolean;
-  description?: string;
-}) {
-  return (
-    <div className="space-y-1">
-      <div className="flex items-center justify-between">
-        <label className="text-sm text-gray-400">{label}</label>
-        <button
-          onClick={() => onChange(!checked)}
-          disabled={disabled}
-          className={`relative w-10 h-5 rounded-full transition-colors disabled:opacity-50 ${
-            checked ? "bg-green-600" : "bg-gray-600"
-          }`}
-        >
-          <span
-            className={`absolute top-0.5 left-0.5 w-4 h-4 rounded-full bg-white transition-transform ${
-              checked ? "translate-x-5" : "translate-x-0"
-            }`}
-          />
-        </button>
-      </div>
-      {description && <p className="text-xs text-gray-500">{description}</p>}
-    </div>
-  );
+function parseIp(text: string): number | null {
+  const parts = text.trim().split(".");
+  if (parts.length !== 4 || parts.some((p) => !/^\d{1,3}$/.test(p) || Number(p) > 255)) {
+    return null;
+  }
+  return parts.reduce((acc, p, i) => acc + Number(p) * 2 ** (8 * i), 0);
 }
 
-/** Reusable number input */
-function ConfigNumber({
-  label,
-  value,
-  onChange,
-  disabled,
-  min,
-  max,
-  unit,
-  description,
-}: {
-  label: string;
-  value: number;
-  onChange: (val: number) => void;
-  disabled: boolean;
-  min?: number;
-  max?: number;
-  unit?: string;
-  description?: string;
-}) {
-  return (
-    <div className="space-y-1">
-      <label className="text-sm text-gray-400">{label}</label>
-      <div className="flex items-center gap-2">
-        <input
-          type="number"
-          value={value}
-          onChange={(e) => onChange(Number(e.target.value))}
-          min={min}
-          max={max}
-          disabled={disabled}
-          className="w-28 px-3 py-2 bg-gray-700 rounded-lg text-gray-200 border border-gray-600 focus:border-green-500 focus:outline-none disabled:opacity-50"
-        />
-        {unit && <span className="text-sm text-gray-500">{unit}</span>}
-      </div>
-      {description && <p className="text-xs text-gray-500">{description}</p>}
-    </div>
-  );
+function bytesToBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
 }
 
-/** Collapsible section wrapper */
-function ConfigSection({
-  title,
-  children,
-  onApply,
-  applying,
-  disabled,
-}: {
-  title: string;
-  children: React.ReactNode;
-  onApply: () => void;
-  applying: boolean;
-  disabled: boolean;
-}) {
-  return (
-    <details className="group bg-gray-800/50 rounded-lg border border-gray-700">
-      <summary className="px-4 py-3 cursor-pointer text-gray-200 font-medium flex items-center justify-between hover:bg-gray-800 rounded-lg transition-colors">
-        <span>{title}</span>
-        <svg
-          className="w-4 h-4 text-gray-500 group-open:rotate-180 transition-transform"
-          fill="none"
-          viewBox="0 0 24 24"
-          stroke="currentColor"
-        >
-          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
-        </svg>
-      </summary>
-      <div className="px-4 pb-4 space-y-4">
-        {children}
-        <button
-          onClick={onApply}
-          disabled={disabled || applying}
-          className="w-full px-4 py-2 bg-green-600 hover:bg-green-500 disabled:bg-gray-600 disabled:text-gray-400 text-white text-sm font-medium rounded-lg transition-colors"
-        >
-          {applying ? "Applying..." : `Apply ${title}`}
-        </button>
-      </div>
-    </details>
-  );
+function base64ToBytes(text: string): Uint8Array | null {
+  try {
+    return Uint8Array.from(atob(text.trim()), (c) => c.charCodeAt(0));
+  } catch {
+    return null;
+  }
+}
+
+// Curve25519 keys: 32 bytes, or empty to leave unset
+const parseKey = (text: string) => {
+  if (!text.trim()) return new Uint8Array(0);
+  const bytes = base64ToBytes(text);
+  return bytes && bytes.length === 32 ? bytes : null;
+};
+
+function formatConfigValue(section: ConfigCase, key: string, value: unknown): string {
+  return formatValue(value, {
+    options: FIELD_OPTIONS[section]?.[key],
+    secret: SECRET_FIELDS.has(key),
+    // network.ipv4Config
+    nested: (v) => (typeof v === "number" ? ipToString(v) : String(v)),
+  });
 }
 
 function pskToHex(psk: Uint8Array): string {
@@ -252,55 +247,112 @@ export default function ConfigPanel({
   onCommit,
   onSetChannel,
   onClearChannel,
+  onApplyChanges,
   channelConfigs,
+  deviceConfig,
+  configDraft,
+  moduleDraft,
+  staged,
+  onStagedChange,
   isConnected,
 }: Props) {
-  // ─── LoRa settings ────────────────────────────────────────────
-  const [region, setRegion] = useState(1);
-  const [modemPreset, setModemPreset] = useState(0);
-  const [hopLimit, setHopLimit] = useState(3);
-
-  // ─── Device settings ──────────────────────────────────────────
-  const [deviceRole, setDeviceRole] = useState(0);
+  const { field, setField, isDirty, dirtyCount, revert, revertAll, dirtySections, changes, merged } =
+    configDraft;
+  const [status, setStatus] = useState<string | null>(null);
+  const [applyingSection, setApplyingSection] = useState<string | null>(null);
+  const [reviewOpen, setReviewOpen] = useState(false);
+  const [reviewError, setReviewError] = useState<string | null>(null);
 
-  // ─── Position settings ────────────────────────────────────────
-  const [positionBroadcastSecs, setPositionBroadcastSecs] = useState(900);
-  const [gpsUpdateInterval, setGpsUpdateInterval] = useState(120);
-  const [fixedPosition, setFixedPosition] = useState(false);
+  const disabled = !isConnected;
+  const fieldDisabled = disabled || applyingSection !== null;
 
-  // ─── Power settings ───────────────────────────────────────────
-  const [isPowerSaving, setIsPowerSaving] = useState(false);
+  // Props shared by every section wrapper
+  const sectionProps = (section: ConfigCase, extra?: Record<string, unknown>) => ({
+    title: SECTION_TITLES[section],
+    onApply: () => applyConfig(SECTION_TITLES[section], section, extra),
+    onRevert: () => revert(section),
+    applying: applyingSection === SECTION_TITLES[section],
+    dirtyCount: dirtyCount(section),
+    unavailable: !deviceConfig[section],
+    disabled,
+    staged,
+  });
 
-  // ─── Bluetooth settings ───────────────────────────────────────
-  const [btEnabled, setBtEnabled] = useState(true);
-  const [btFixedPin, setBtFixedPin] = useState(123456);
+  // Staged device and module sections share one review and one transaction
+  const stagedSections = dirtySections();
+  const stagedModules = moduleDraft.dirtySections();
+  const stagedSectionCount = stagedSections.length + stagedModules.length;
+  const stagedCount =
+    stagedSections.reduce((sum, section) => sum + dirtyCount(section), 0) +
+    stagedModules.reduce((sum, section) => sum + moduleDraft.dirtyCount(section), 0);
 
-  // ─── Display settings ─────────────────────────────────────────
-  const [screenOnSecs, setScreenOnSecs] = useState(60);
-  const [displayUnits, setDisplayUnits] = useState(0);
+  const reviewSections: ReviewSection[] = [
+    ...stagedSections.map((section) => ({
+      title: SECTION_TITLES[section],
+      changes: changes(section).map((c) => ({
+        label: fieldLabel(c.key),
+        current: formatConfigValue(section, c.key, c.current),
+        next: formatConfigValue(section, c.key, c.next),
+      })),
+      skipped: deviceConfig[section] ? undefined : UNREPORTED_SECTION,
+    })),
+    ...moduleReviewSections(moduleDraft),
+  ];
 
-  // ─── Shared state ─────────────────────────────────────────────
-  const [status, setStatus] = useState<string | null>(null);
-  const [applyingSection, setApplyingSection] = useState<string | null>(null);
+  const discardAll = () => {
+    revertAll();
+    moduleDraft.revertAll();
+  };
 
-  const disabled = !isConnected;
+  // One transaction for every staged section. On failure the edits stay
+  // staged and useDevice drops anything it recorded for the snapshot.
+  const applyAll = async () => {
+    const sections = stagedSections.filter((section) => deviceConfig[section]);
+    const modules = stagedModules.filter((section) => moduleDraft.reported(section));
+    const count = sections.length + modules.length;
+    if (!isConnected || count === 0) return;
+    setApplyingSection("all");
+    setReviewError(null);
+    try {
+      await onApplyChanges({
+        config: sections.map((section) => ({
+          payloadVariant: { case: section, value: merged(section) },
+        })),
+        moduleConfig: modules.map((section) => ({
+          payloadVariant: { case: section, value: moduleDraft.merged(section) },
+        })),
+      });
+      sections.forEach(revert);
+      modules.forEach(moduleDraft.revert);
+      setReviewOpen(false);
+      setStatus(`${count} section${count === 1 ? "" : "s"} applied successfully!`);
+    } catch (err) {
+      setReviewError(`Failed: ${err instanceof Error ? err.message : "Unknown error"}`);
+    } finally {
+      setApplyingSection(null);
+    }
+  };
 
+  // Sends the whole section: the device replaces it, so fields not shown
+  // here must carry the values it reported
   const applyConfig = async (
     section: string,
-    configCase: string,
-    configValue: Record<string, unknown>
+    configCase: ConfigCase,
+    extra?: Record<string, unknown>
   ) => {
-    if (!isConnected) return;
+    const value = merged(configCase);
+    if (!isConnected || !value) return;
     setApplyingSection(section);
     setStatus(`Applying ${section}...`);
     try {
       await onSetConfig({
         payloadVariant: {
           case: configCase,
-          value: configValue,
+          value: { ...value, ...extra },
         },
       });
       await onCommit();
+      revert(configCase);
       setStatus(`${section} applied successfully!`);
     } catch (err) {
       setStatus(
@@ -311,6 +363,16 @@ export default function ConfigPanel({
     }
   };
 
+  const deviceRole = field("device", "role", 0);
+  const usePreset = field("lora", "usePreset", true);
+  const wifiEnabled = field("network", "wifiEnabled", false);
+  const addressMode = field<number>("network", "addressMode", 0);
+  const ipv4Config = field<Record<string, unknown>>("network", "ipv4Config", {});
+  const adminKeys = field<Uint8Array[]>("security", "adminKey", []);
+  const isManaged = field("security", "isManaged", false);
+  const btEnabled = field("bluetooth", "enabled", true);
+  const hopLimit = field("lora", "hopLimit", 3);
+
   return (
     <div className="space-y-4">
       {!isConnected && (
@@ -319,44 +381,158 @@ export default function ConfigPanel({
         </div>
       )}
 
+      <div className="flex items-center gap-3 bg-gray-800 rounded-lg px-4 py-2">
+        <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={staged}
+            onChange={(e) => onStagedChange(e.target.checked)}
+            className="accent-green-500"
+          />
+          Stage changes
+        </label>
+        <span className="flex-1 text-xs text-gray-500">
+          {!staged
+            ? "Each section is applied on its own."
+            : stagedCount > 0
+            ? `${stagedCount} change${stagedCount === 1 ? "" : "s"} in ${stagedSectionCount} section${stagedSectionCount === 1 ? "" : "s"}`
+            : "Edits wait for review and are applied together."}
+        </span>
+        {staged && stagedCount > 0 && (
+          <>
+            <button
+              onClick={discardAll}
+              disabled={applyingSection !== null}
+              className="px-3 py-1.5 bg-gray-700 text-gray-300 hover:bg-gray-600 rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+            >
+              Discard All
+            </button>
+            <button
+              onClick={() => {
+                setReviewError(null);
+                setReviewOpen(true);
+              }}
+              disabled={disabled}
+              className="px-3 py-1.5 bg-green-600 hover:bg-green-500 disabled:bg-gray-600 disabled:text-gray-400 text-white rounded-lg text-sm font-medium transition-colors"
+            >
+              Review &amp; Apply
+            </button>
+          </>
+        )}
+      </div>
+
       {/* ═══ LoRa / Radio ═══ */}
-      <ConfigSection
-        title="LoRa / Radio"
-        onApply={() =>
-          applyConfig("LoRa", "lora", {
-            region,
-            modemPreset,
-            usePreset: true,
-            hopLimit,
-          })
-        }
-        applying={applyingSection === "LoRa"}
-        disabled={disabled}
-      >
+      <ConfigSection {...sectionProps("lora")}>
         <ConfigSelect
           label="Region"
-          value={region}
+          value={field("lora", "region", 0)}
           options={REGIONS}
-          onChange={setRegion}
-          disabled={disabled || applyingSection !== null}
+          onChange={(v) => setField("lora", "region", v)}
+          disabled={fieldDisabled}
+          dirty={isDirty("lora", "region")}
         />
-        <ConfigSelect
-          label="Modem Preset"
-          value={modemPreset}
-          options={MODEM_PRESETS}
-          onChange={setModemPreset}
-          disabled={disabled || applyingSection !== null}
+        <ConfigToggle
+          label="Use Modem Preset"
+          checked={usePreset}
+          onChange={(v) => setField("lora", "usePreset", v)}
+          disabled={fieldDisabled}
+          dirty={isDirty("lora", "usePreset")}
+          description="Turn off to set bandwidth, spread factor and coding rate by hand. All nodes must match."
+        />
+        {usePreset ? (
+          <ConfigSelect
+            label="Modem Preset"
+            value={field("lora", "modemPreset", 0)}
+            options={MODEM_PRESETS}
+            onChange={(v) => setField("lora", "modemPreset", v)}
+            disabled={fieldDisabled}
+            dirty={isDirty("lora", "modemPreset")}
+          />
+        ) : (
+          <>
+            <ConfigSelect
+              label="Bandwidth"
+              value={field("lora", "bandwidth", 0)}
+              options={BANDWIDTHS}
+              onChange={(v) => setField("lora", "bandwidth", v)}
+              disabled={fieldDisabled}
+              dirty={isDirty("lora", "bandwidth")}
+            />
+            <ConfigNumber
+              label="Spread Factor"
+              value={field("lora", "spreadFactor", 0)}
+              onChange={(v) => setField("lora", "spreadFactor", v)}
+              disabled={fieldDisabled}
+              dirty={isDirty("lora", "spreadFactor")}
+              min={0}
+              max={12}
+              description="7–12. Higher = longer range, slower. 0 = default."
+            />
+            <ConfigSelect
+              label="Coding Rate"
+              value={field("lora", "codingRate", 0)}
+              options={CODING_RATES}
+              onChange={(v) => setField("lora", "codingRate", v)}
+              disabled={fieldDisabled}
+              dirty={isDirty("lora", "codingRate")}
+            />
+          </>
+        )}
+        <ConfigNumber
+          label="Frequency Offset"
+          value={field("lora", "frequencyOffset", 0)}
+          onChange={(v) => setField("lora", "frequencyOffset", v)}
+          disabled={fieldDisabled}
+          dirty={isDirty("lora", "frequencyOffset")}
+          step={0.001}
+          unit="MHz"
+          description="Corrects for crystal drift on radios that need calibration."
+        />
+        <ConfigNumber
+          label="TX Power"
+          value={field("lora", "txPower", 0)}
+          onChange={(v) => setField("lora", "txPower", v)}
+          disabled={fieldDisabled}
+          dirty={isDirty("lora", "txPower")}
+          min={0}
+          max={30}
+          unit="dBm"
+          description="0 = maximum legal power for the region."
+        />
+        <ConfigToggle
+          label="Override Duty Cycle"
+          checked={field("lora", "overrideDutyCycle", false)}
+          onChange={(v) => setField("lora", "overrideDutyCycle", v)}
+          disabled={fieldDisabled}
+          dirty={isDirty("lora", "overrideDutyCycle")}
+          description="Ignore the regional duty cycle limit. Only where that is legal."
+        />
+        <ConfigToggle
+          label="Ignore MQTT"
+          checked={field("lora", "ignoreMqtt", false)}
+          onChange={(v) => setField("lora", "ignoreMqtt", v)}
+          disabled={fieldDisabled}
+          dirty={isDirty("lora", "ignoreMqtt")}
+          description="Don't relay packets that other nodes received via MQTT."
+        />
+        <ConfigToggle
+          label="RX Boosted Gain"
+          checked={field("lora", "sx126xRxBoostedGain", false)}
+          onChange={(v) => setField("lora", "sx126xRxBoostedGain", v)}
+          disabled={fieldDisabled}
+          dirty={isDirty("lora", "sx126xRxBoostedGain")}
+          description="Better receive sensitivity on SX126x radios at a small power cost."
         />
         <div className="space-y-1">
-          <label className="text-sm text-gray-400">Hop Limit</label>
+          <FieldLabel label="Hop Limit" dirty={isDirty("lora", "hopLimit")} />
           <div className="flex items-center gap-3">
             <input
               type="range"
               min={1}
               max={7}
               value={hopLimit}
-              onChange={(e) => setHopLimit(Number(e.target.value))}
-              disabled={disabled || applyingSection !== null}
+              onChange={(e) => setField("lora", "hopLimit", Number(e.target.value))}
+              disabled={fieldDisabled}
               className="flex-1 accent-green-500 disabled:opacity-50"
             />
             <span className="text-gray-200 font-mono text-lg w-6 text-center">
@@ -371,18 +547,14 @@ export default function ConfigPanel({
       </ConfigSection>
 
       {/* ═══ Device Role ═══ */}
-      <ConfigSection
-        title="Device Role"
-        onApply={() => applyConfig("Device", "device", { role: deviceRole })}
-        applying={applyingSection === "Device"}
-        disabled={disabled}
-      >
+      <ConfigSection {...sectionProps("device")}>
         <ConfigSelect
           label="Role"
           value={deviceRole}
           options={DEVICE_ROLES}
-          onChange={setDeviceRole}
-          disabled={disabled || applyingSection !== null}
+          onChange={(v) => setField("device", "role", v)}
+          disabled={fieldDisabled}
+          dirty={isDirty("device", "role")}
           description={
             DEVICE_ROLES.find((r) => r.value === deviceRole)?.description
           }
@@ -390,23 +562,13 @@ export default function ConfigPanel({
       </ConfigSection>
 
       {/* ═══ Position / GPS ═══ */}
-      <ConfigSection
-        title="Position / GPS"
-        onApply={() =>
-          applyConfig("Position", "position", {
-            positionBroadcastSecs,
-            gpsUpdateInterval,
-            fixedPosition,
-          })
-        }
-        applying={applyingSection === "Position"}
-        disabled={disabled}
-      >
+      <ConfigSection {...sectionProps("position")}>
         <ConfigNumber
           label="Position Broadcast Interval"
-          value={positionBroadcastSecs}
-          onChange={setPositionBroadcastSecs}
-          disabled={disabled || applyingSection !== null}
+          value={field("position", "positionBroadcastSecs", 900)}
+          onChange={(v) => setField("position", "positionBroadcastSecs", v)}
+          disabled={fieldDisabled}
+          dirty={isDirty("position", "positionBroadcastSecs")}
           min={0}
           max={86400}
           unit="seconds"
@@ -414,9 +576,10 @@ export default function ConfigPanel({
         />
         <ConfigNumber
           label="GPS Update Interval"
-          value={gpsUpdateInterval}
-          onChange={setGpsUpdateInterval}
-          disabled={disabled || applyingSection !== null}
+          value={field("position", "gpsUpdateInterval", 120)}
+          onChange={(v) => setField("position", "gpsUpdateInterval", v)}
+          disabled={fieldDisabled}
+          dirty={isDirty("position", "gpsUpdateInterval")}
           min={0}
           max={86400}
           unit="seconds"
@@ -424,55 +587,168 @@ export default function ConfigPanel({
         />
         <ConfigToggle
           label="Fixed Position"
-          checked={fixedPosition}
-          onChange={setFixedPosition}
-          disabled={disabled || applyingSection !== null}
+          checked={field("position", "fixedPosition", false)}
+          onChange={(v) => setField("position", "fixedPosition", v)}
+          disabled={fieldDisabled}
+          dirty={isDirty("position", "fixedPosition")}
           description="When enabled, the device will use a manually-set position instead of GPS."
         />
       </ConfigSection>
 
       {/* ═══ Power ═══ */}
-      <ConfigSection
-        title="Power"
-        onApply={() =>
-          applyConfig("Power", "power", { isPowerSaving })
-        }
-        applying={applyingSection === "Power"}
-        disabled={disabled}
-      >
+      <ConfigSection {...sectionProps("power")}>
         <ConfigToggle
           label="Power Saving Mode"
-          checked={isPowerSaving}
-          onChange={setIsPowerSaving}
-          disabled={disabled || applyingSection !== null}
+          checked={field("power", "isPowerSaving", false)}
+          onChange={(v) => setField("power", "isPowerSaving", v)}
+          disabled={fieldDisabled}
+          dirty={isDirty("power", "isPowerSaving")}
           description="Enable low-power mode. Reduces responsiveness but significantly extends battery life."
         />
+        <ConfigNumber
+          label="Shutdown on Battery After"
+          value={field("power", "onBatteryShutdownAfterSecs", 0)}
+          onChange={(v) => setField("power", "onBatteryShutdownAfterSecs", v)}
+          disabled={fieldDisabled}
+          dirty={isDirty("power", "onBatteryShutdownAfterSecs")}
+          min={0}
+          unit="seconds"
+          description="Turn off this long after external power is lost. 0 = never."
+        />
+        <ConfigNumber
+          label="Light Sleep Duration"
+          value={field("power", "lsSecs", 0)}
+          onChange={(v) => setField("power", "lsSecs", v)}
+          disabled={fieldDisabled}
+          dirty={isDirty("power", "lsSecs")}
+          min={0}
+          unit="seconds"
+          description="Light sleep length in power saving mode (ESP32 only). 0 = default (300s)."
+        />
+        <ConfigNumber
+          label="Minimum Wake Time"
+          value={field("power", "minWakeSecs", 0)}
+          onChange={(v) => setField("power", "minWakeSecs", v)}
+          disabled={fieldDisabled}
+          dirty={isDirty("power", "minWakeSecs")}
+          min={0}
+          unit="seconds"
+          description="Stay awake at least this long after receiving a packet. 0 = default (10s)."
+        />
+        <ConfigNumber
+          label="Deep Sleep Duration"
+          value={field("power", "sdsSecs", 0)}
+          onChange={(v) => setField("power", "sdsSecs", v)}
+          disabled={fieldDisabled}
+          dirty={isDirty("power", "sdsSecs")}
+          min={0}
+          unit="seconds"
+          description="Super deep sleep length when the battery is low. 0 = default (1 year)."
+        />
+        <ConfigNumber
+          label="Bluetooth Wait"
+          value={field("power", "waitBluetoothSecs", 0)}
+          onChange={(v) => setField("power", "waitBluetoothSecs", v)}
+          disabled={fieldDisabled}
+          dirty={isDirty("power", "waitBluetoothSecs")}
+          min={0}
+          unit="seconds"
+          description="Keep Bluetooth on this long before sleeping when nothing is connected. 0 = default (60s)."
+        />
+        <ConfigNumber
+          label="ADC Multiplier Override"
+          value={field("power", "adcMultiplierOverride", 0)}
+          onChange={(v) => setField("power", "adcMultiplierOverride", v)}
+          disabled={fieldDisabled}
+          dirty={isDirty("power", "adcMultiplierOverride")}
+          min={0}
+          max={6}
+          step={0.01}
+          description="Calibrates the battery voltage reading. 0 = board default."
+        />
+      </ConfigSection>
+
+      {/* ═══ Network ═══ */}
+      <ConfigSection {...sectionProps("network")}>
+        <ConfigToggle
+          label="WiFi Enabled"
+          checked={wifiEnabled}
+          onChange={(v) => setField("network", "wifiEnabled", v)}
+          disabled={fieldDisabled}
+          dirty={isDirty("network", "wifiEnabled")}
+          description="Turning WiFi on disables Bluetooth on ESP32 boards."
+        />
+        <ConfigText
+          label="WiFi SSID"
+          value={field("network", "wifiSsid", "")}
+          onChange={(v) => setField("network", "wifiSsid", v)}
+          disabled={fieldDisabled || !wifiEnabled}
+          dirty={isDirty("network", "wifiSsid")}
+        />
+        <ConfigText
+          label="WiFi Password"
+          value={field("network", "wifiPsk", "")}
+          onChange={(v) => setField("network", "wifiPsk", v)}
+          disabled={fieldDisabled || !wifiEnabled}
+          dirty={isDirty("network", "wifiPsk")}
+          secret
+        />
+        <ConfigToggle
+          label="Ethernet Enabled"
+          checked={field("network", "ethEnabled", false)}
+          onChange={(v) => setField("network", "ethEnabled", v)}
+          disabled={fieldDisabled}
+          dirty={isDirty("network", "ethEnabled")}
+          description="For boards with a wired Ethernet port."
+        />
+        <ConfigText
+          label="NTP Server"
+          value={field("network", "ntpServer", "")}
+          onChange={(v) => setField("network", "ntpServer", v)}
+          disabled={fieldDisabled}
+          dirty={isDirty("network", "ntpServer")}
+          placeholder="meshtastic.pool.ntp.org"
+        />
+        <ConfigSelect
+          label="Address Mode"
+          value={addressMode}
+          options={ADDRESS_MODES}
+          onChange={(v) => setField("network", "addressMode", v)}
+          disabled={fieldDisabled}
+          dirty={isDirty("network", "addressMode")}
+        />
+        {addressMode === 1 &&
+          (["ip", "gateway", "subnet", "dns"] as const).map((key) => (
+            <ConfigParsed
+              key={key}
+              label={{ ip: "IP Address", gateway: "Gateway", subnet: "Subnet Mask", dns: "DNS Server" }[key]}
+              value={Number(ipv4Config[key] ?? 0)}
+              format={ipToString}
+              parse={parseIp}
+              onChange={(v) => setField("network", "ipv4Config", { ...ipv4Config, [key]: v })}
+              disabled={fieldDisabled}
+              dirty={isDirty("network", "ipv4Config")}
+              placeholder="0.0.0.0"
+            />
+          ))}
       </ConfigSection>
 
       {/* ═══ Bluetooth ═══ */}
-      <ConfigSection
-        title="Bluetooth"
-        onApply={() =>
-          applyConfig("Bluetooth", "bluetooth", {
-            enabled: btEnabled,
-            fixedPin: btFixedPin,
-          })
-        }
-        applying={applyingSection === "Bluetooth"}
-        disabled={disabled}
-      >
+      <ConfigSection {...sectionProps("bluetooth")}>
         <ConfigToggle
           label="Bluetooth Enabled"
           checked={btEnabled}
-          onChange={setBtEnabled}
-          disabled={disabled || applyingSection !== null}
+          onChange={(v) => setField("bluetooth", "enabled", v)}
+          disabled={fieldDisabled}
+          dirty={isDirty("bluetooth", "enabled")}
           description="Toggle Bluetooth radio on the device."
         />
         <ConfigNumber
           label="Pairing PIN"
-          value={btFixedPin}
-          onChange={setBtFixedPin}
-          disabled={disabled || applyingSection !== null || !btEnabled}
+          value={field("bluetooth", "fixedPin", 123456)}
+          onChange={(v) => setField("bluetooth", "fixedPin", v)}
+          disabled={fieldDisabled || !btEnabled}
+          dirty={isDirty("bluetooth", "fixedPin")}
           min={100000}
           max={999999}
           description="6-digit fixed PIN for Bluetooth pairing. Default: 123456."
@@ -480,22 +756,13 @@ export default function ConfigPanel({
       </ConfigSection>
 
       {/* ═══ Display ═══ */}
-      <ConfigSection
-        title="Display"
-        onApply={() =>
-          applyConfig("Display", "display", {
-            screenOnSecs,
-            units: displayUnits,
-          })
-        }
-        applying={applyingSection === "Display"}
-        disabled={disabled}
-      >
+      <ConfigSection {...sectionProps("display")}>
         <ConfigNumber
           label="Screen On Duration"
-          value={screenOnSecs}
-          onChange={setScreenOnSecs}
-          disabled={disabled || applyingSection !== null}
+          value={field("display", "screenOnSecs", 60)}
+          onChange={(v) => setField("display", "screenOnSecs", v)}
+          disabled={fieldDisabled}
+          dirty={isDirty("display", "screenOnSecs")}
           min={0}
           max={3600}
           unit="seconds"
@@ -503,10 +770,108 @@ export default function ConfigPanel({
         />
         <ConfigSelect
           label="Display Units"
-          value={displayUnits}
+          value={field("display", "units", 0)}
           options={DISPLAY_UNITS}
-          onChange={setDisplayUnits}
-          disabled={disabled || applyingSection !== null}
+          onChange={(v) => setField("display", "units", v)}
+          disabled={fieldDisabled}
+          dirty={isDirty("display", "units")}
+        />
+        <ConfigSelect
+          label="OLED Type"
+          value={field("display", "oled", 0)}
+          options={OLED_TYPES}
+          onChange={(v) => setField("display", "oled", v)}
+          disabled={fieldDisabled}
+          dirty={isDirty("display", "oled")}
+          description="Override only if the screen is detected wrongly."
+        />
+        <ConfigToggle
+          label="Flip Screen"
+          checked={field("display", "flipScreen", false)}
+          onChange={(v) => setField("display", "flipScreen", v)}
+          disabled={fieldDisabled}
+          dirty={isDirty("display", "flipScreen")}
+          description="Rotate the screen 180°."
+        />
+        <ConfigToggle
+          label="Compass North Top"
+          checked={field("display", "compassNorthTop", false)}
+          onChange={(v) => setField("display", "compassNorthTop", v)}
+          disabled={fieldDisabled}
+          dirty={isDirty("display", "compassNorthTop")}
+          description="Fix north to the top of the compass instead of the direction of travel."
+        />
+        <ConfigToggle
+          label="Bold Heading"
+          checked={field("display", "headingBold", false)}
+          onChange={(v) => setField("display", "headingBold", v)}
+          disabled={fieldDisabled}
+          dirty={isDirty("display", "headingBold")}
+          description="Print the first line of each screen in bold."
+        />
+      </ConfigSection>
+
+      {/* ═══ Security ═══ */}
+      <ConfigSection {...sectionProps("security")}>
+        <ConfigParsed
+          label="Public Key"
+          value={field("security", "publicKey", new Uint8Array(0))}
+          format={bytesToBase64}
+          parse={parseKey}
+          onChange={(v) => setField("security", "publicKey", v)}
+          disabled
+          mono
+          description="Derived from the private key and shared with other nodes for direct messages."
+        />
+        <ConfigParsed
+          label="Private Key"
+          value={field("security", "privateKey", new Uint8Array(0))}
+          format={bytesToBase64}
+          parse={parseKey}
+          onChange={(v) => setField("security", "privateKey", v)}
+          disabled={fieldDisabled}
+          dirty={isDirty("security", "privateKey")}
+          mono
+          description="32 bytes, base64. Changing it changes this node's identity for encrypted DMs."
+        />
+        {[0, 1, 2].map((i) => (
+          <ConfigParsed
+            key={i}
+            label={`Admin Key ${i + 1}`}
+            value={adminKeys[i] ?? new Uint8Array(0)}
+            format={bytesToBase64}
+            parse={parseKey}
+            onChange={(v) => {
+              const next = [0, 1, 2].map((j) => (j === i ? v : adminKeys[j] ?? new Uint8Array(0)));
+              // Drop empty slots from the end
+              while (next.length > 0 && next[next.length - 1].length === 0) next.pop();
+              setField("security", "adminKey", next);
+            }}
+            disabled={fieldDisabled}
+            dirty={isDirty("security", "adminKey")}
+            mono
+            placeholder="Public key of a node allowed to administer this one"
+          />
+        ))}
+        <ConfigToggle
+          label="Managed Mode"
+          checked={isManaged}
+          onChange={(v) => setField("security", "isManaged", v)}
+          disabled={fieldDisabled}
+          dirty={isDirty("security", "isManaged")}
+          description={
+            isManaged && adminKeys.every((k) => k.length === 0)
+              ? "Warning: without an admin key nobody can change this device's config once applied."
+              : "Config can only be changed remotely by an admin key holder, not from connected clients."
+          }
+        />
+        <ConfigToggle
+          label="Serial Console"
+          checked={field("security", "serialEnabled", true)}
+          onChange={(v) => setField("security", "serialEnabled", v)}
+          disabled={fieldDisabled}
+          dirty={isDirty("security", "serialEnabled")}
+          description="Allow the serial API and debug console over USB."
         />
       </ConfigSection>
 
@@ -535,15 +900,29 @@ export default function ConfigPanel({
         </div>
       )}
 
+      {reviewOpen && (
+        <ConfigReviewModal
+          sections={reviewSections}
+          applying={applyingSection === "all"}
+          error={reviewError}
+          onApply={applyAll}
+          onCancel={() => setReviewOpen(false)}
+        />
+      )}
+
       {/* Info */}
       <div className="bg-gray-800 rounded-lg p-4 text-sm text-gray-500 space-y-1">
+        <p>
+          Values are read from the device when it connects. Changed fields
+          are marked until they are applied.
+        </p>
         <p>
           Changes are written to the device's flash memory and persist across
           reboots.
         </p>
         <p>
           The device may briefly restart after applying new LoRa or device
-          settings.
+          settings. With staged changes it restarts once for all of them.
         </p>
       </div>
     </div>
@@ -0,0 +1,144 @@
+export interface ReviewSection {
+  title: string;
+  changes: Array<{ label: string; current: string; next: string }>;
+  // Shown instead of applying, e.g. when the device never reported the section
+  skipped?: string;
+  // Validation problems; any of these blocks "Apply All"
+  errors?: string[];
+}
+
+export const UNREPORTED_SECTION = "The device hasn't reported this section, so it will be skipped.";
+
+export interface ValueFormat {
+  // Enum fields, so the review names values instead of numbering them
+  options?: Array<{ value: number; label: string }>;
+  // Shown as set/empty rather than printed
+  secret?: boolean;
+  // Fields of nested messages such as network.ipv4Config
+  nested?: (value: unknown) => string;
+}
+
+export function fieldLabel(key: string): string {
+  return key.replace(/([A-Z])/g, " $1").replace(/^./, (c) => c.toUpperCase());
+}
+
+export function formatConfigValue(value: unknown, format: ValueFormat = {}): string {
+  if (value === undefined) return "—";
+  if (format.secret) {
+    return (value as { length?: number }).length ? "••••••" : "(empty)";
+  }
+  const option = format.options?.find((o) => o.value === value);
+  if (option) return option.label;
+  if (typeof value === "boolean") return value ? "On" : "Off";
+  if (value instanceof Uint8Array) {
+    return value.length ? btoa(String.fromCharCode(...value)) : "(empty)";
+  }
+  if (Array.isArray(value)) {
+    return value.length ? value.map((v) => formatConfigValue(v, format)).join(", ") : "(none)";
+  }
+  if (value && typeof value === "object") {
+    return Object.entries(value)
+      .filter(([k]) => k !== "$typeName")
+      .map(([k, v]) => `${k} ${format.nested ? format.nested(v) : String(v)}`)
+      .join(", ");
+  }
+  return value === "" ? "(empty)" : String(value);
+}
+
+/** Field-by-field diff of staged config edits, applied together */
+export default function ConfigReviewModal({
+  sections,
+  applying,
+  error,
+  onApply,
+  onCancel,
+}: {
+  sections: ReviewSection[];
+  applying: boolean;
+  error: string | null;
+  onApply: () => void;
+  onCancel: () => void;
+}) {
+  const applicable = sections.filter((s) => !s.skipped).length;
+  const blocked = sections.some((s) => !s.skipped && (s.errors?.length ?? 0) > 0);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black/60 backdrop-blur-sm"
+        onClick={() => !applying && onCancel()}
+      />
+      {/* Modal */}
+      <div className="relative bg-gray-800 border border-gray-600 rounded-xl shadow-2xl max-w-2xl w-full mx-4 p-6 space-y-4 max-h-[85vh] flex flex-col">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-200">Review Changes</h3>
+          <p className="text-xs text-gray-500 mt-1">
+            Everything below is written in one transaction; the device saves and restarts once.
+          </p>
+        </div>
+        <div className="flex-1 overflow-y-auto space-y-2 pr-1">
+          {sections.map((section) => (
+            <div
+              key={section.title}
+              className="bg-gray-900/50 border border-gray-700 rounded-lg px-3 py-2"
+            >
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-gray-200">{section.title}</span>
+                <span className="text-xs text-yellow-400">{section.changes.length} changed</span>
+              </div>
+              {section.skipped && (
+                <p className="text-xs text-yellow-400/80 mt-1">{section.skipped}</p>
+              )}
+              {!section.skipped && section.errors && section.errors.length > 0 && (
+                <ul className="text-xs text-red-400 mt-1 space-y-0.5">
+                  {section.errors.map((err) => (
+                    <li key={err}>{err}</li>
+                  ))}
+                </ul>
+              )}
+              <table className="w-full mt-2 text-xs font-mono">
+                <tbody>
+                  {section.changes.map((change) => (
+                    <tr key={change.label} className="align-top">
+                      <td className="py-0.5 pr-3 text-gray-400 whitespace-nowrap">{change.label}</td>
+                      <td className="py-0.5 pr-2 text-red-300/80 break-all">{change.current}</td>
+                      <td className="py-0.5 pr-2 text-gray-600">→</td>
+                      <td className="py-0.5 text-green-300 break-all">{change.next}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ))}
+        </div>
+        {blocked && (
+          <div className="px-3 py-2 rounded-lg text-sm bg-red-900/50 border border-red-700 text-red-300">
+            Fix the problems above before applying.
+          </div>
+        )}
+        {error && (
+          <div className="px-3 py-2 rounded-lg text-sm bg-red-900/50 border border-red-700 text-red-300">
+            {error} — nothing was saved; your edits are still staged.
+          </div>
+        )}
+        <div className="flex gap-3 pt-2">
+          <button
+            onClick={onCancel}
+            disabled={applying}
+            className="flex-1 px-4 py-2.5 bg-gray-700 hover:bg-gray-600 text-gray-300 font-medium rounded-lg transition-colors text-sm"
+          >
+            Keep Editing
+          </button>
+          <button
+            onClick={onApply}
+            disabled={applying || applicable === 0 || blocked}
+            className="flex-1 px-4 py-2.5 bg-green-600 hover:bg-green-500 disabled:bg-gray-600 disabled:text-gray-400 text-white font-medium rounded-lg transition-colors text-sm"
+          >
+            {applying ? "Applying..." : "Apply All"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -5,6 +5,11 @@ import type {
   BluetoothDevice,
   SerialPortInfo,
 } from "../lib/types";
+import {
+  loadSimulationOptions,
+  saveSimulationOptions,
+  type SimulationOptions,
+} from "../lib/simulator";
 
 // ─── Connection Profiles (localStorage) ───────────────────────────
 interface ConnectionProfile {
@@ -12,6 +17,7 @@ interface ConnectionProfile {
   name: string;
   type: ConnectionType;
   httpAddress?: string;
+  tcpAddress?: string;
 }
 
 function loadProfiles(): ConnectionProfile[] {
@@ -49,6 +55,18 @@ function ConnectionIcon({ type }: { type: ConnectionType }) {
           <path strokeLinecap="round" strokeLinejoin="round" d="M8.111 16.404a5.5 5.5 0 017.778 0M12 20h.01m-7.08-7.071c3.904-3.905 10.236-3.905 14.141 0M1.394 9.393c5.857-5.858 15.355-5.858 21.213 0" />
         </svg>
       );
+    case "tcp":
+      return (
+        <svg className={cls} fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+          <path strokeLinecap="round" strokeLinejoin="round" d="M5 12h14M5 12a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v4a2 2 0 01-2 2M5 12a2 2 0 00-2 2v4a2 2 0 002 2h14a2 2 0 002-2v-4a2 2 0 00-2-2m-2-4h.01M17 16h.01" />
+        </svg>
+      );
+    case "simulated":
+      return (
+        <svg className={cls} fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+          <path strokeLinecap="round" strokeLinejoin="round" d="M19.428 15.428a2 2 0 00-1.022-.547l-2.387-.477a6 6 0 00-3.86.517l-.318.158a6 6 0 01-3.86.517L6.05 15.21a2 2 0 00-1.806.547M8 4h8l-1 1v5.172a2 2 0 00.586 1.414l5 5c1.26 1.26.367 3.414-1.415 3.414H4.828c-1.782 0-2.674-2.154-1.414-3.414l5-5A2 2 0 009 10.172V5L8 4z" />
+        </svg>
+      );
   }
 }
 
@@ -79,7 +97,7 @@ function Spinner({ className = "" }: { className?: string }) {
 
 interface Props {
   state: DeviceState;
-  onConnect: (type: ConnectionType, httpAddress?: string) => Promise<void>;
+  onConnect: (type: ConnectionType, address?: string) => Promise<void>;
   onDisconnect: () => Promise<void>;
 }
 
@@ -90,6 +108,8 @@ export default function ConnectionPanel({
 }: Props) {
   const [connectionType, setConnectionType] = useState<ConnectionType>("ble");
   const [httpAddress, setHttpAddress] = useState("meshtastic.local");
+  const [tcpAddress, setTcpAddress] = useState("localhost:4403");
+  const [simOptions, setSimOptions] = useState<SimulationOptions>(loadSimulationOptions);
   const [error, setError] = useState<string | null>(null);
   const [connecting, setConnecting] = useState(false);
   const [connectionStage, setConnectionStage] = useState("");
@@ -146,6 +166,18 @@ export default function ConnectionPanel({
     return cleanup;
   }, []);
 
+  const updateSimOption = useCallback(
+    (key: keyof SimulationOptions, value: number, min: number, max: number) => {
+      if (Number.isNaN(value)) return;
+      setSimOptions((prev) => {
+        const next = { ...prev, [key]: Math.min(max, Math.max(min, value)) };
+        saveSimulationOptions(next);
+        return next;
+      });
+    },
+    []
+  );
+
   const handleConnect = useCallback(async () => {
     setError(null);
     setConnecting(true);
@@ -155,18 +187,22 @@ export default function ConnectionPanel({
     setShowSerialPicker(false);
     setConnectionStage("Scanning for devices...");
     try {
-      await onConnect(connectionType, httpAddress);
+      await onConnect(
+        connectionType,
+        connectionType === "tcp" ? tcpAddress : httpAddress
+      );
     } catch (err) {
       setError(err instanceof Error ? err.message : "Connection failed");
       setConnecting(false);
       setConnectionStage("");
     }
-  }, [connectionType, httpAddress, onConnect]);
+  }, [connectionType, httpAddress, tcpAddress, onConnect]);
 
   const handleConnectProfile = useCallback(
     async (profile: ConnectionProfile) => {
       setConnectionType(profile.type);
       if (profile.httpAddress) setHttpAddress(profile.httpAddress);
+      if (profile.tcpAddress) setTcpAddress(profile.tcpAddress);
       setError(null);
       setConnecting(true);
       setBleDevices([]);
@@ -175,7 +211,10 @@ export default function ConnectionPanel({
       setShowSerialPicker(false);
       setConnectionStage("Scanning for devices...");
       try {
-        await onConnect(profile.type, profile.httpAddress);
+        await onConnect(
+          profile.type,
+          profile.type === "tcp" ? profile.tcpAddress : profile.httpAddress
+        );
       } catch (err) {
         setError(err instanceof Error ? err.message : "Connection failed");
         setConnecting(false);
@@ -223,13 +262,14 @@ export default function ConnectionPanel({
       name: profileName.trim(),
       type: connectionType,
       httpAddress: connectionType === "http" ? httpAddress : undefined,
+      tcpAddress: connectionType === "tcp" ? tcpAddress : undefined,
     };
     const updated = [...profiles, newProfile];
     setProfiles(updated);
     saveProfiles(updated);
     setProfileName("");
     setShowProfileForm(false);
-  }, [profileName, connectionType, httpAddress, profiles]);
+  }, [profileName, connectionType, httpAddress, tcpAddress, profiles]);
 
   const handleDeleteProfile = useCallback(
     (id: string) => {
@@ -425,6 +465,7 @@ export default function ConnectionPanel({
                   <span className="text-gray-500 ml-2 text-xs uppercase">
                     {profile.type}
                     {profile.httpAddress && ` • ${profile.httpAddress}`}
+                    {profile.tcpAddress && ` • ${profile.tcpAddress}`}
                   </span>
                 </button>
                 <button
@@ -446,12 +487,12 @@ export default function ConnectionPanel({
       {/* Connection type selector */}
       <div className="space-y-3">
         <label className="text-sm text-gray-400">Connection Type</label>
-        <div className="grid grid-cols-3 gap-2">
-          {(["ble", "serial", "http"] as const).map((type) => (
+        <div className="grid grid-cols-5 gap-2">
+          {(["ble", "serial", "http", "tcp", "simulated"] as const).map((type) => (
             <button
               key={type}
               onClick={() => setConnectionType(type)}
-              className={`flex items-center justify-center gap-2 px-4 py-3 rounded-lg text-sm font-medium transition-all ${
+              className={`flex items-center justify-center gap-2 px-2 py-3 rounded-lg text-sm font-medium transition-all ${
                 connectionType === type
                   ? "bg-green-600 text-white ring-2 ring-green-400"
                   : "bg-gray-700 text-gray-300 hover:bg-gray-600"
@@ -461,6 +502,8 @@ export default function ConnectionPanel({
               {type === "ble" && "Bluetooth"}
               {type === "serial" && "USB Serial"}
               {type === "http" && "WiFi/HTTP"}
+              {type === "tcp" && "TCP"}
+              {type === "simulated" && "Simulated"}
             </button>
           ))}
         </div>
@@ -483,6 +526,51 @@ export default function ConnectionPanel({
         </div>
       )}
 
+      {/* TCP address input */}
+      {connectionType === "tcp" && (
+        <div className="space-y-2">
+          <label className="text-sm text-gray-400">Host</label>
+          <input
+            type="text"
+            value={tcpAddress}
+            onChange={(e) => setTcpAddress(e.target.value)}
+            placeholder="localhost:4403 or 192.168.1.x"
+            className="w-full px-3 py-2 bg-gray-700 rounded-lg text-gray-200 border border-gray-600 focus:border-green-500 focus:outline-none"
+          />
+          <p className="text-xs text-gray-500">
+            Hostname or IP, optionally with :port (default 4403)
+          </p>
+        </div>
+      )}
+
+      {/* Simulated mesh options */}
+      {connectionType === "simulated" && (
+        <div className="grid grid-cols-2 gap-3">
+          {([
+            ["nodeCount", "Nodes", 1, 50, 1],
+            ["seed", "Seed", 1, 999999, 1],
+            ["textIntervalSec", "Text every (s)", 0, 3600, 1],
+            ["positionIntervalSec", "Position every (s)", 0, 3600, 1],
+            ["telemetryIntervalSec", "Telemetry every (s)", 0, 3600, 1],
+            ["linkDropIntervalSec", "Link drop every (s)", 0, 86400, 1],
+            ["ackSuccessRate", "ACK success rate", 0, 1, 0.05],
+          ] as const).map(([key, label, min, max, step]) => (
+            <div key={key} className="space-y-1">
+              <label className="text-xs text-gray-400">{label}</label>
+              <input
+                type="number"
+                value={simOptions[key]}
+                min={min}
+                max={max}
+                step={step}
+                onChange={(e) => updateSimOption(key, Number(e.target.value), min, max)}
+                className="w-full px-3 py-2 bg-gray-700 rounded-lg text-gray-200 border border-gray-600 focus:border-green-500 focus:outline-none"
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Connection hints */}
       <div className="text-sm text-gray-500 bg-gray-800 rounded-lg p-3 space-y-1">
         {connectionType === "ble" && (
@@ -512,6 +600,19 @@ export default function ConnectionPanel({
             node. The device must have WiFi enabled in its config.
           </p>
         )}
+        {connectionType === "tcp" && (
+          <p>
+            Connect to the TCP stream API of meshtasticd or a network-attached
+            node. Works with Linux-native nodes and simulators.
+          </p>
+        )}
+        {connectionType === "simulated" && (
+          <p>
+            Runs a fake mesh inside the app with moving nodes, telemetry, chat
+            traffic and ACK/NAK responses. No radio required. Set an interval
+            to 0 to turn that traffic off.
+          </p>
+        )}
       </div>
 
       {/* Error display */}
@@ -565,6 +666,7 @@ export default function ConnectionPanel({
           <p className="text-xs text-gray-500">
             Saves: {connectionType.toUpperCase()}
             {connectionType === "http" ? ` • ${httpAddress}` : ""}
+            {connectionType === "tcp" ? ` • ${tcpAddress}` : ""}
           </p>
         </div>
       )}
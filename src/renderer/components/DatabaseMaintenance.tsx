@@ -0,0 +1,227 @@
+import { useCallback, useEffect, useState } from "react";
+import type { DatabaseReport, RetentionPolicy } from "../lib/types";
+import { formatBytes } from "../lib/tileSources";
+import ConfirmModal from "./ConfirmModal";
+import { useToast } from "./Toast";
+
+// Numeric retention fields, all "0 = off"
+const LIMIT_FIELDS: Array<{ key: keyof RetentionPolicy; label: string; unit: string }> = [
+  { key: "messageMaxAgeDays", label: "Delete messages older than", unit: "days" },
+  { key: "maxMessagesPerChannel", label: "Keep at most", unit: "messages per channel" },
+  { key: "nodeMaxAgeDays", label: "Delete nodes not heard for", unit: "days" },
+];
+
+/** Retention policy, size report and VACUUM / integrity check for the local database */
+export default function DatabaseMaintenance() {
+  const { addToast } = useToast();
+  const [report, setReport] = useState<DatabaseReport | null>(null);
+  const [policy, setPolicy] = useState<RetentionPolicy | null>(null);
+  const [dirty, setDirty] = useState(false);
+  const [busy, setBusy] = useState<"prune" | "vacuum" | "check" | null>(null);
+  const [confirmPrune, setConfirmPrune] = useState(false);
+  const [problems, setProblems] = useState<string[]>([]);
+
+  const refresh = useCallback(async () => {
+    try {
+      setReport(await window.electronAPI.db.report());
+    } catch (err) {
+      console.error("Failed to load database report:", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    window.electronAPI.db
+      .getRetention()
+      .then(setPolicy)
+      .catch((err) => console.error("Failed to load retention policy:", err));
+  }, [refresh]);
+
+  const update = (patch: Partial<RetentionPolicy>) => {
+    setPolicy((prev) => (prev ? { ...prev, ...patch } : prev));
+    setDirty(true);
+  };
+
+  const errorMessage = (err: unknown) => (err instanceof Error ? err.message : "Unknown error");
+
+  const handleSave = async () => {
+    if (!policy) return;
+    try {
+      setPolicy(await window.electronAPI.db.setRetention(policy));
+      setDirty(false);
+      addToast("Retention policy saved", "success");
+    } catch (err) {
+      addToast(`Save failed: ${errorMessage(err)}`, "error");
+    }
+  };
+
+  // Applies the policy shown in the form (saving it first)
+  const handlePrune = async () => {
+    setConfirmPrune(false);
+    if (!policy) return;
+    setBusy("prune");
+    try {
+      if (dirty) {
+        setPolicy(await window.electronAPI.db.setRetention(policy));
+        setDirty(false);
+      }
+      const result = await window.electronAPI.db.pruneNow();
+      addToast(
+        `Pruned ${result.messagesDeleted} messages and ${result.nodesDeleted} nodes`,
+        "success"
+      );
+      await refresh();
+    } catch (err) {
+      addToast(`Prune failed: ${errorMessage(err)}`, "error");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleVacuum = async () => {
+    setBusy("vacuum");
+    try {
+      const { bytesBefore, bytesAfter } = await window.electronAPI.db.vacuum();
+      addToast(
+        `Compacted ${formatBytes(bytesBefore)} → ${formatBytes(bytesAfter)}`,
+        "success"
+      );
+      await refresh();
+    } catch (err) {
+      addToast(`Vacuum failed: ${errorMessage(err)}`, "error");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleCheck = async () => {
+    setBusy("check");
+    try {
+      const result = await window.electronAPI.db.integrityCheck();
+      setProblems(result.problems);
+      addToast(
+        result.ok ? "Database integrity OK" : `${result.problems.length} integrity problems found`,
+        result.ok ? "success" : "error"
+      );
+    } catch (err) {
+      addToast(`Integrity check failed: ${errorMessage(err)}`, "error");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-xs font-medium text-gray-400">Database</h3>
+
+      <div className="text-sm text-gray-300">
+        {report
+          ? `${formatBytes(report.fileBytes + report.walBytes)} on disk · ${formatBytes(report.freeBytes)} reclaimable`
+          : "Loading…"}
+      </div>
+      {report && (
+        <div className="grid grid-cols-2 gap-x-4 text-xs text-gray-500">
+          {report.tables.map((t) => (
+            <div key={t.name} className="flex justify-between">
+              <span className="capitalize">{t.name}</span>
+              <span className="text-gray-400">{t.rows.toLocaleString()}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {policy && (
+        <div className="bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 space-y-2">
+          <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={policy.enabled}
+              onChange={() => update({ enabled: !policy.enabled })}
+              className="accent-green-500"
+            />
+            Prune automatically (every 6 hours)
+          </label>
+          {LIMIT_FIELDS.map(({ key, label, unit }) => (
+            <div key={key} className="flex items-center gap-2 text-xs text-gray-400">
+              <span className="w-40 shrink-0">{label}</span>
+              <input
+                type="number"
+                min={0}
+                value={policy[key] as number}
+                onChange={(e) => update({ [key]: Number(e.target.value) })}
+                className="w-20 px-2 py-1 bg-gray-700 rounded text-sm text-gray-200 border border-gray-600 focus:border-green-500 focus:outline-none"
+              />
+              <span>{unit}</span>
+            </div>
+          ))}
+          <label className="flex items-center gap-2 text-xs text-gray-400 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={policy.keepDirectMessages}
+              onChange={() => update({ keepDirectMessages: !policy.keepDirectMessages })}
+              className="accent-green-500"
+            />
+            Keep direct messages forever
+          </label>
+          <p className="text-xs text-gray-500">
+            0 turns a limit off. The per-channel limit applies to channel messages only.
+            {report?.lastPrune &&
+              ` Last pruned ${new Date(report.lastPrune.at).toLocaleString()}: ${report.lastPrune.messagesDeleted} messages, ${report.lastPrune.nodesDeleted} nodes.`}
+          </p>
+          <div className="flex gap-2">
+            <button
+              onClick={handleSave}
+              disabled={!dirty}
+              className="flex-1 px-3 py-1.5 bg-green-600 hover:bg-green-500 text-white rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+            >
+              Save Policy
+            </button>
+            <button
+              onClick={() => setConfirmPrune(true)}
+              disabled={busy !== null}
+              className="flex-1 px-3 py-1.5 bg-gray-700 text-gray-300 hover:bg-gray-600 rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+            >
+              {busy === "prune" ? "Pruning…" : "Prune Now"}
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <button
+          onClick={handleVacuum}
+          disabled={busy !== null}
+          className="flex-1 px-3 py-2 bg-gray-700 text-gray-300 hover:bg-gray-600 rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+          title="Rebuild the database file to reclaim space from deleted rows"
+        >
+          {busy === "vacuum" ? "Compacting…" : "Vacuum"}
+        </button>
+        <button
+          onClick={handleCheck}
+          disabled={busy !== null}
+          className="flex-1 px-3 py-2 bg-gray-700 text-gray-300 hover:bg-gray-600 rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+        >
+          {busy === "check" ? "Checking…" : "Check Integrity"}
+        </button>
+      </div>
+      {problems.length > 0 && (
+        <ul className="text-xs text-red-400 bg-red-900/20 border border-red-800/50 rounded-lg px-3 py-2 space-y-0.5 max-h-32 overflow-y-auto">
+          {problems.map((p, i) => (
+            <li key={i}>{p}</li>
+          ))}
+        </ul>
+      )}
+
+      {confirmPrune && policy && (
+        <ConfirmModal
+          title="Prune Database"
+          message="Messages and nodes outside the retention limits will be permanently deleted from the local database."
+          confirmLabel="Prune"
+          danger
+          onConfirm={handlePrune}
+          onCancel={() => setConfirmPrune(false)}
+        />
+      )}
+    </div>
+  );
+}
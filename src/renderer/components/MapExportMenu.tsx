@@ -0,0 +1,64 @@
+import { useState } from "react";
+import type { GeoFormat, MeshNode, PositionPoint } from "../lib/types";
+import { GEO_FORMATS, exportGeoData } from "../lib/geoFormats";
+import { useToast } from "./Toast";
+
+interface Props {
+  nodes: MeshNode[];
+  // Tracks currently shown on the map (empty when tracks are off)
+  tracks: Map<number, PositionPoint[]>;
+}
+
+/** Dropdown exporting node positions and tracks to GIS file formats */
+export default function MapExportMenu({ nodes, tracks }: Props) {
+  const [open, setOpen] = useState(false);
+  const { addToast } = useToast();
+  const trackCount = Array.from(tracks.values()).filter((t) => t.length > 1).length;
+
+  const handleExport = async (format: GeoFormat) => {
+    setOpen(false);
+    try {
+      const path = await window.electronAPI.geo.exportFile(
+        format,
+        exportGeoData(format, { nodes, tracks })
+      );
+      if (path) addToast(`Exported to: ${path}`, "success");
+    } catch (err) {
+      addToast(
+        `Export failed: ${err instanceof Error ? err.message : "Unknown error"}`,
+        "error"
+      );
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        disabled={nodes.length === 0 && trackCount === 0}
+        className="bg-gray-900/80 backdrop-blur-sm rounded-lg px-3 py-1.5 text-xs text-gray-300 border border-gray-700 hover:bg-gray-800 disabled:opacity-50"
+        title="Export node positions and tracks"
+      >
+        Export
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-56 bg-gray-900/95 backdrop-blur-sm border border-gray-700 rounded-lg p-2 space-y-1 text-sm shadow-xl">
+          <p className="text-xs text-gray-500 px-1 pb-1">
+            {nodes.length} positions, {trackCount} tracks
+            {trackCount === 0 && " — enable Tracks to include history"}
+          </p>
+          {GEO_FORMATS.map(({ format, label }) => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              className="w-full text-left px-2 py-1 rounded text-gray-300 hover:bg-gray-700"
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
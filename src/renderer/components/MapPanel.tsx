@@ -1,9 +1,47 @@
-import { useEffect, useMemo, useRef, useCallback } from "react";
-import { MapContainer, TileLayer, Marker, Popup, useMap, useMapEvents } from "react-leaflet";
+import { useEffect, useMemo, useRef, useCallback, useState } from "react";
+import {
+  MapContainer,
+  TileLayer,
+  Marker,
+  Popup,
+  Rectangle,
+  Polyline,
+  CircleMarker,
+  Tooltip,
+  GeoJSON,
+  useMap,
+  useMapEvents,
+} from "react-leaflet";
 import L from "leaflet";
-import type { MeshNode } from "../lib/types";
+import type { Feature, FeatureCollection } from "geojson";
+import type {
+  MbtilesInfo,
+  MeshNode,
+  PositionPoint,
+  TileBounds,
+  TraceRouteResult,
+  Waypoint,
+} from "../lib/types";
 import { getNodeStatus } from "../lib/nodeStatus";
+import {
+  loadTileSourceSettings,
+  saveTileSourceSettings,
+  mbtilesUrl,
+  cachedTileUrl,
+  type TileSourceSettings,
+} from "../lib/tileSources";
+import {
+  loadOverlaySettings,
+  saveOverlaySettings,
+  parseGeoFile,
+  type OverlaySetting,
+} from "../lib/geoFormats";
 import RefreshButton from "./RefreshButton";
+import MapExportMenu from "./MapExportMenu";
+import WaypointEditor, { type WaypointInput } from "./WaypointEditor";
+import TileDownloadPanel from "./TileDownloadPanel";
+import TileSourcePicker from "./TileSourcePicker";
+import { useToast } from "./Toast";
 
 // Fix for default markers not showing in bundled apps
 import markerIcon2x from "leaflet/dist/images/marker-icon-2x.png";
@@ -69,11 +107,37 @@ function getMarkerIcon(status: "online" | "stale" | "offline", isSelf: boolean):
     : MARKERS.offline;
 }
 
+// Emoji waypoint markers, cached per icon codepoint
+const waypointIcons = new Map<number, L.DivIcon>();
+const DEFAULT_WAYPOINT_ICON = 0x1f4cd; // 📍
+
+function getWaypointIcon(codepoint = DEFAULT_WAYPOINT_ICON): L.DivIcon {
+  let icon = waypointIcons.get(codepoint);
+  if (!icon) {
+    icon = L.divIcon({
+      html: `<div style="font-size:24px;line-height:28px;text-align:center;filter:drop-shadow(0 1px 1px #000)">${String.fromCodePoint(codepoint)}</div>`,
+      className: "",
+      iconSize: [28, 28],
+      iconAnchor: [14, 14],
+      popupAnchor: [0, -14],
+    });
+    waypointIcons.set(codepoint, icon);
+  }
+  return icon;
+}
+
 interface Props {
   nodes: Map<number, MeshNode>;
   myNodeNum: number;
   onRefresh: () => Promise<void>;
   isConnected: boolean;
+  waypoints: Map<number, Waypoint>;
+  channels: Array<{ index: number; name: string }>;
+  onSendWaypoint: (input: WaypointInput, channel: number) => Promise<void>;
+  onDeleteWaypoint: (id: number) => Promise<void>;
+  // Traceroute drawn as hop lines (null = none)
+  route: TraceRouteResult | null;
+  onClearRoute: () => void;
 }
 
 // Default center: Longmont, CO (same as Joey's original)
@@ -126,7 +190,320 @@ function MapFitter({ positions }: { positions: [number, number][] }) {
   return null;
 }
 
-export default function MapPanel({ nodes, myNodeNum, onRefresh, isConnected }: Props) {
+// Track history windows; 0 hides tracks
+const TRACK_RANGES = [
+  { label: "Off", ms: 0 },
+  { label: "1h", ms: 60 * 60 * 1000 },
+  { label: "6h", ms: 6 * 60 * 60 * 1000 },
+  { label: "24h", ms: 24 * 60 * 60 * 1000 },
+  { label: "7d", ms: 7 * 24 * 60 * 60 * 1000 },
+];
+const TRACK_RANGE_KEY = "electastic:mapTrackRange";
+const TRACK_COLORS = ["#3b82f6", "#f59e0b", "#ec4899", "#06b6d4", "#a855f7", "#ef4444", "#84cc16", "#22c55e"];
+
+function loadTrackRange(): number {
+  const saved = Number(localStorage.getItem(TRACK_RANGE_KEY));
+  return TRACK_RANGES.some((r) => r.ms === saved) ? saved : 0;
+}
+
+function groupByNode(points: PositionPoint[]): Map<number, PositionPoint[]> {
+  const tracks = new Map<number, PositionPoint[]>();
+  for (const p of points) {
+    const track = tracks.get(p.nodeId);
+    if (track) track.push(p);
+    else tracks.set(p.nodeId, [p]);
+  }
+  return tracks;
+}
+
+const OVERLAY_COLOR = "#f97316";
+
+function escapeHtml(text: string): string {
+  const div = document.createElement("div");
+  div.textContent = text;
+  return div.innerHTML;
+}
+
+// Name/description popups for imported overlay features
+function bindOverlayPopup(feature: Feature, layer: L.Layer) {
+  const props = (feature.properties ?? {}) as { name?: unknown; description?: unknown };
+  const lines = [props.name, props.description]
+    .filter((v): v is string => typeof v === "string" && v.length > 0)
+    .map(escapeHtml);
+  if (lines.length > 0) layer.bindPopup(lines.join("<br>"));
+}
+
+// Click-to-place for new waypoints
+function WaypointPlacer({ onPlace }: { onPlace: (latitude: number, longitude: number) => void }) {
+  const map = useMapEvents({
+    click(e) {
+      onPlace(e.latlng.lat, e.latlng.lng);
+    },
+  });
+  useEffect(() => {
+    map.getContainer().style.cursor = "crosshair";
+    return () => {
+      map.getContainer().style.cursor = "";
+    };
+  }, [map]);
+  return null;
+}
+
+const ROUTE_FORWARD_COLOR = "#22c55e";
+const ROUTE_BACK_COLOR = "#3b82f6";
+
+interface RouteSegment {
+  key: string;
+  from: MeshNode;
+  to: MeshNode;
+  snr: number | null;
+  back: boolean;
+}
+
+// Links between consecutive hops where both ends have a known position
+function routeSegments(route: TraceRouteResult, nodes: Map<number, MeshNode>): RouteSegment[] {
+  const segments: RouteSegment[] = [];
+  const add = (path: number[], snr: Array<number | null>, back: boolean) => {
+    for (let i = 0; i < path.length - 1; i++) {
+      const from = nodes.get(path[i]);
+      const to = nodes.get(path[i + 1]);
+      if (!from?.latitude || !to?.latitude) continue;
+      segments.push({ key: `${back ? "b" : "f"}${i}`, from, to, snr: snr[i] ?? null, back });
+    }
+  };
+  add([route.from, ...route.route, route.to], route.snrTowards, false);
+  if (route.snrBack.length > 0) {
+    add([route.to, ...route.routeBack, route.from], route.snrBack, true);
+  }
+  return segments;
+}
+
+const SELECTION_STYLE = { color: "#22c55e", weight: 2, dashArray: "6 4", fillOpacity: 0.1 };
+
+// Rectangle selection for tile downloads — map dragging is off while active
+function AreaSelector({ onSelect }: { onSelect: (bounds: TileBounds) => void }) {
+  const map = useMap();
+  const [start, setStart] = useState<L.LatLng | null>(null);
+  const [current, setCurrent] = useState<L.LatLng | null>(null);
+
+  useEffect(() => {
+    map.dragging.disable();
+    map.getContainer().style.cursor = "crosshair";
+    return () => {
+      map.dragging.enable();
+      map.getContainer().style.cursor = "";
+    };
+  }, [map]);
+
+  useMapEvents({
+    mousedown(e) {
+      setStart(e.latlng);
+      setCurrent(e.latlng);
+    },
+    mousemove(e) {
+      if (start) setCurrent(e.latlng);
+    },
+    mouseup(e) {
+      if (!start) return;
+      const bounds = L.latLngBounds(start, e.latlng);
+      setStart(null);
+      setCurrent(null);
+      // Ignore plain clicks
+      if (bounds.getNorthEast().equals(bounds.getSouthWest())) return;
+      onSelect({
+        west: bounds.getWest(),
+        south: bounds.getSouth(),
+        east: bounds.getEast(),
+        north: bounds.getNorth(),
+      });
+    },
+  });
+
+  if (!start || !current) return null;
+  return <Rectangle bounds={L.latLngBounds(start, current)} pathOptions={SELECTION_STYLE} />;
+}
+
+export default function MapPanel({
+  nodes,
+  myNodeNum,
+  onRefresh,
+  isConnected,
+  waypoints,
+  channels,
+  onSendWaypoint,
+  onDeleteWaypoint,
+  route,
+  onClearRoute,
+}: Props) {
+  const { addToast } = useToast();
+  const [tileSettings, setTileSettings] = useState<TileSourceSettings>(loadTileSourceSettings);
+  // Opened MBTiles packages keyed by source id, and paths that failed to open
+  const [mbtiles, setMbtiles] = useState<Map<string, MbtilesInfo>>(new Map());
+  const [missingMbtiles, setMissingMbtiles] = useState<Map<string, string>>(new Map());
+  // Tile pre-download: panel visibility, rectangle drawing mode and the drawn area
+  const [downloadOpen, setDownloadOpen] = useState(false);
+  const [selectingArea, setSelectingArea] = useState(false);
+  const [downloadBounds, setDownloadBounds] = useState<TileBounds | null>(null);
+  // Position history per node for the selected window
+  const [trackRange, setTrackRange] = useState(loadTrackRange);
+  const [tracks, setTracks] = useState<Map<number, PositionPoint[]>>(new Map());
+  // Waypoint placement mode and the waypoint (or new position) being edited
+  const [placingWaypoint, setPlacingWaypoint] = useState(false);
+  const [editingWaypoint, setEditingWaypoint] = useState<
+    Waypoint | { latitude: number; longitude: number } | null
+  >(null);
+  // Imported GPX/KML/GeoJSON overlays: saved list, parsed data and load errors by path
+  const [overlays, setOverlays] = useState<OverlaySetting[]>(loadOverlaySettings);
+  const [overlayData, setOverlayData] = useState<Map<string, FeatureCollection>>(new Map());
+  const [overlayErrors, setOverlayErrors] = useState<Map<string, string>>(new Map());
+
+  // Re-open saved MBTiles packages in the main process (no-op if already open)
+  useEffect(() => {
+    for (const { path } of loadTileSourceSettings().mbtiles) {
+      window.electronAPI.mbtiles
+        .open(path)
+        .then((info) => setMbtiles((prev) => new Map(prev).set(info.id, info)))
+        .catch((err) =>
+          setMissingMbtiles((prev) =>
+            new Map(prev).set(path, err instanceof Error ? err.message : String(err))
+          )
+        );
+    }
+  }, []);
+
+  // Re-read saved overlay files
+  useEffect(() => {
+    for (const { path } of loadOverlaySettings()) {
+      window.electronAPI.geo
+        .readFile(path)
+        .then((content) =>
+          setOverlayData((prev) => new Map(prev).set(path, parseGeoFile(path, content)))
+        )
+        .catch((err) =>
+          setOverlayErrors((prev) =>
+            new Map(prev).set(path, err instanceof Error ? err.message : String(err))
+          )
+        );
+    }
+  }, []);
+
+  const updateOverlays = useCallback((next: OverlaySetting[]) => {
+    const kept = new Set(next.map((o) => o.path));
+    // Removed files may no longer be re-read by the main process
+    for (const { path } of overlays) {
+      if (!kept.has(path)) window.electronAPI.geo.forgetFile(path);
+    }
+    setOverlayData((prev) => new Map(Array.from(prev).filter(([path]) => kept.has(path))));
+    setOverlayErrors((prev) => new Map(Array.from(prev).filter(([path]) => kept.has(path))));
+    saveOverlaySettings(next);
+    setOverlays(next);
+  }, [overlays]);
+
+  const handleImportOverlays = useCallback(async () => {
+    const files = await window.electronAPI.geo.importFiles();
+    if (!files) return;
+    const parsed = new Map<string, FeatureCollection>();
+    for (const file of files) {
+      try {
+        parsed.set(file.path, parseGeoFile(file.path, file.content));
+      } catch (err) {
+        addToast(
+          `${file.path.split(/[\\/]/).pop()}: ${err instanceof Error ? err.message : "Unknown error"}`,
+          "error"
+        );
+      }
+    }
+    if (parsed.size === 0) return;
+    setOverlayData((prev) => new Map([...prev, ...parsed]));
+    setOverlayErrors((prev) => new Map(Array.from(prev).filter(([path]) => !parsed.has(path))));
+    const next = [
+      ...overlays.filter((o) => !parsed.has(o.path)),
+      ...Array.from(parsed.keys()).map((path) => ({ path, enabled: true })),
+    ];
+    saveOverlaySettings(next);
+    setOverlays(next);
+    const featureCount = Array.from(parsed.values()).reduce((n, fc) => n + fc.features.length, 0);
+    addToast(`Imported ${featureCount} features from ${parsed.size} file(s)`, "success");
+  }, [overlays, addToast]);
+
+  const handleSaveWaypoint = useCallback(
+    async (input: WaypointInput, channel: number) => {
+      try {
+        await onSendWaypoint(input, channel);
+        addToast(`Waypoint "${input.name}" sent`, "success");
+        setEditingWaypoint(null);
+      } catch (err) {
+        addToast(
+          `Waypoint send failed: ${err instanceof Error ? err.message : "Unknown error"}`,
+          "error"
+        );
+      }
+    },
+    [onSendWaypoint, addToast]
+  );
+
+  const handleDeleteWaypoint = useCallback(
+    async (waypoint: Waypoint) => {
+      try {
+        await onDeleteWaypoint(waypoint.id);
+      } catch (err) {
+        addToast(
+          `Waypoint delete failed: ${err instanceof Error ? err.message : "Unknown error"}`,
+          "error"
+        );
+      }
+    },
+    [onDeleteWaypoint, addToast]
+  );
+
+  const updateTileSettings = useCallback((next: TileSourceSettings) => {
+    // Close packages that were removed from the list
+    const kept = new Set(next.mbtiles.map((m) => m.path));
+    for (const info of mbtiles.values()) {
+      if (!kept.has(info.path)) window.electronAPI.mbtiles.close(info.id);
+    }
+    setMbtiles((prev) => new Map(Array.from(prev).filter(([, info]) => kept.has(info.path))));
+    setMissingMbtiles((prev) => new Map(Array.from(prev).filter(([path]) => kept.has(path))));
+    saveTileSourceSettings(next);
+    setTileSettings(next);
+  }, [mbtiles]);
+
+  const handleAddMbtiles = useCallback(async () => {
+    const result = await window.electronAPI.mbtiles.add();
+    if (!result) return;
+    for (const error of result.errors) addToast(error, "error");
+    if (result.added.length === 0) return;
+    setMbtiles((prev) => {
+      const updated = new Map(prev);
+      for (const info of result.added) updated.set(info.id, info);
+      return updated;
+    });
+    const known = new Set(tileSettings.mbtiles.map((m) => m.path));
+    const next = {
+      ...tileSettings,
+      mbtiles: [
+        ...tileSettings.mbtiles,
+        ...result.added
+          .filter((info) => !known.has(info.path))
+          .map((info) => ({ path: info.path, enabled: true })),
+      ],
+    };
+    saveTileSourceSettings(next);
+    setTileSettings(next);
+    addToast(
+      `Added ${result.added.map((info) => info.name).join(", ")}`,
+      "success"
+    );
+  }, [tileSettings, addToast]);
+
+  const activeMbtiles = useMemo(() => {
+    const byPath = new Map(Array.from(mbtiles.values()).map((info) => [info.path, info]));
+    return tileSettings.mbtiles
+      .filter((m) => m.enabled)
+      .map((m) => byPath.get(m.path))
+      .filter((info): info is MbtilesInfo => info !== undefined);
+  }, [tileSettings, mbtiles]);
+
   const nodesWithPosition = useMemo(
     () =>
       Array.from(nodes.values()).filter(
@@ -140,6 +517,53 @@ export default function MapPanel({ nodes, myNodeNum, onRefresh, isConnected }: P
     [nodesWithPosition]
   );
 
+  useEffect(() => {
+    localStorage.setItem(TRACK_RANGE_KEY, String(trackRange));
+    if (!trackRange) {
+      setTracks(new Map());
+      return;
+    }
+    let stale = false;
+    window.electronAPI.db
+      .getPositions(null, Date.now() - trackRange)
+      .then((points) => {
+        if (!stale) setTracks(groupByNode(points));
+      })
+      .catch((err) => console.error("Failed to load position history:", err));
+    return () => {
+      stale = true;
+    };
+  }, [trackRange]);
+
+  // Extend tracks with live fixes and drop points that aged out of the window
+  useEffect(() => {
+    if (!trackRange) return;
+    setTracks((prev) => {
+      const cutoff = Date.now() - trackRange;
+      const next = new Map<number, PositionPoint[]>();
+      for (const [nodeId, track] of prev) {
+        const kept = track[0]?.timestamp < cutoff ? track.filter((p) => p.timestamp >= cutoff) : track;
+        if (kept.length > 0) next.set(nodeId, kept);
+      }
+      for (const node of nodesWithPosition) {
+        if (node.last_heard < cutoff) continue;
+        const track = next.get(node.node_id) ?? [];
+        const last = track[track.length - 1];
+        if (last && last.latitude === node.latitude && last.longitude === node.longitude) continue;
+        next.set(node.node_id, [
+          ...track,
+          {
+            nodeId: node.node_id,
+            timestamp: node.last_heard,
+            latitude: node.latitude,
+            longitude: node.longitude,
+          },
+        ]);
+      }
+      return next;
+    });
+  }, [nodesWithPosition, trackRange]);
+
   // Center on nodes if we have positions, otherwise default
   const center: [number, number] =
     nodesWithPosition.length > 0
@@ -151,6 +575,8 @@ export default function MapPanel({ nodes, myNodeNum, onRefresh, isConnected }: P
     return new Date(ts).toLocaleString();
   }
 
+  const routeLines = useMemo(() => (route ? routeSegments(route, nodes) : []), [route, nodes]);
+
   const statusCounts = useMemo(() => {
     const counts = { online: 0, stale: 0, offline: 0 };
     for (const n of nodesWithPosition) {
@@ -178,22 +604,304 @@ export default function MapPanel({ nodes, myNodeNum, onRefresh, isConnected }: P
             {statusCounts.offline}
           </span>
         </div>
+        <div className="bg-gray-900/80 backdrop-blur-sm rounded-lg px-2 py-1 flex items-center gap-1 text-xs border border-gray-700">
+          <span className="text-gray-400 px-1">Tracks</span>
+          {TRACK_RANGES.map((r) => (
+            <button
+              key={r.label}
+              onClick={() => setTrackRange(r.ms)}
+              className={`px-1.5 py-0.5 rounded ${
+                trackRange === r.ms ? "bg-green-600 text-white" : "text-gray-300 hover:bg-gray-700"
+              }`}
+            >
+              {r.label}
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={() => setPlacingWaypoint(!placingWaypoint)}
+          disabled={!isConnected}
+          className={`backdrop-blur-sm rounded-lg px-3 py-1.5 text-xs border disabled:opacity-50 ${
+            placingWaypoint
+              ? "bg-green-700/80 text-white border-green-600"
+              : "bg-gray-900/80 text-gray-300 border-gray-700 hover:bg-gray-800"
+          }`}
+          title={isConnected ? "Click the map to place a waypoint" : "Connect to send waypoints"}
+        >
+          {placingWaypoint ? "Click Map…" : "Add Waypoint"}
+        </button>
+        <MapExportMenu nodes={nodesWithPosition} tracks={tracks} />
+        <button
+          onClick={() => {
+            if (downloadOpen) {
+              setDownloadOpen(false);
+              setSelectingArea(false);
+              setDownloadBounds(null);
+            } else {
+              setDownloadOpen(true);
+              setSelectingArea(true);
+            }
+          }}
+          className={`backdrop-blur-sm rounded-lg px-3 py-1.5 text-xs border ${
+            downloadOpen
+              ? "bg-green-700/80 text-white border-green-600"
+              : "bg-gray-900/80 text-gray-300 border-gray-700 hover:bg-gray-800"
+          }`}
+          title="Download map tiles for offline use"
+        >
+          Download Area
+        </button>
+        <TileSourcePicker
+          settings={tileSettings}
+          sources={mbtiles}
+          missing={missingMbtiles}
+          onChange={updateTileSettings}
+          onAdd={handleAddMbtiles}
+          overlays={overlays}
+          overlayErrors={overlayErrors}
+          onOverlaysChange={updateOverlays}
+          onImportOverlays={handleImportOverlays}
+        />
         <div className="bg-gray-900/70 rounded-full">
           <RefreshButton onRefresh={onRefresh} disabled={!isConnected} />
         </div>
       </div>
 
+      {route && (
+        <div className="absolute top-14 right-3 z-[1000] bg-gray-900/90 backdrop-blur-sm border border-gray-700 rounded-lg px-3 py-2 text-xs text-gray-300 max-w-xs">
+          <div className="flex items-center justify-between gap-3">
+            <span className="font-medium">
+              Route to {nodes.get(route.to)?.long_name || `!${route.to.toString(16)}`}
+            </span>
+            <button onClick={onClearRoute} className="text-gray-500 hover:text-gray-300" title="Hide route">
+              ×
+            </button>
+          </div>
+          <div className="text-gray-500 mt-0.5">
+            {route.route.length === 0 ? "Direct" : `${route.route.length} hop(s)`} ·{" "}
+            {new Date(route.timestamp).toLocaleTimeString()}
+            <span className="ml-2" style={{ color: ROUTE_FORWARD_COLOR }}>— out</span>
+            {route.snrBack.length > 0 && (
+              <span className="ml-2" style={{ color: ROUTE_BACK_COLOR }}>- - back</span>
+            )}
+          </div>
+          {routeLines.length === 0 && (
+            <div className="text-yellow-400 mt-0.5">No hops with known positions</div>
+          )}
+        </div>
+      )}
+
+      {downloadOpen && (
+        <div className="absolute bottom-3 left-3 z-[1000]">
+          <TileDownloadPanel
+            bounds={downloadBounds}
+            selecting={selectingArea}
+            urlTemplate={tileSettings.onlineUrl}
+            currentZoom={savedZoom ?? DEFAULT_ZOOM}
+            onSelectArea={() => {
+              setDownloadBounds(null);
+              setSelectingArea(true);
+            }}
+            onClose={() => {
+              setDownloadOpen(false);
+              setSelectingArea(false);
+              setDownloadBounds(null);
+            }}
+          />
+        </div>
+      )}
+
       <MapContainer
         center={savedCenter ?? center}
         zoom={savedZoom ?? DEFAULT_ZOOM}
         className="h-full w-full"
+        preferCanvas
       >
         <MapViewTracker />
         <MapFitter positions={positions} />
-        <TileLayer
-          url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
-          attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a>'
-        />
+        {tileSettings.osmEnabled && (
+          <TileLayer
+            key={tileSettings.onlineUrl}
+            url={cachedTileUrl(tileSettings.onlineUrl)}
+            attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a>'
+          />
+        )}
+        {/* Offline layers above OSM; overzoom past the package's max zoom */}
+        {activeMbtiles.map((info) => (
+          <TileLayer
+            key={info.id}
+            url={mbtilesUrl(info.id)}
+            attribution={info.attribution}
+            minNativeZoom={info.minZoom}
+            maxNativeZoom={info.maxZoom}
+            bounds={
+              info.bounds
+                ? L.latLngBounds([info.bounds[1], info.bounds[0]], [info.bounds[3], info.bounds[2]])
+                : undefined
+            }
+          />
+        ))}
+        {overlays
+          .filter((o) => o.enabled && overlayData.has(o.path))
+          .map((o) => (
+            <GeoJSON
+              key={o.path}
+              data={overlayData.get(o.path)!}
+              style={{ color: OVERLAY_COLOR, weight: 3, opacity: 0.9, fillOpacity: 0.15 }}
+              pointToLayer={(_feature, latlng) =>
+                L.circleMarker(latlng, {
+                  radius: 6,
+                  color: "#000",
+                  weight: 1,
+                  fillColor: OVERLAY_COLOR,
+                  fillOpacity: 0.9,
+                })
+              }
+              onEachFeature={bindOverlayPopup}
+            />
+          ))}
+        {routeLines.map((seg) => (
+          <Polyline
+            key={seg.key}
+            positions={[
+              [seg.from.latitude, seg.from.longitude],
+              [seg.to.latitude, seg.to.longitude],
+            ]}
+            pathOptions={{
+              color: seg.back ? ROUTE_BACK_COLOR : ROUTE_FORWARD_COLOR,
+              weight: 4,
+              opacity: 0.85,
+              dashArray: seg.back ? "8 6" : undefined,
+            }}
+          >
+            <Tooltip sticky>
+              {seg.from.short_name || `!${seg.from.node_id.toString(16)}`} →{" "}
+              {seg.to.short_name || `!${seg.to.node_id.toString(16)}`}
+              {seg.snr !== null ? ` · ${seg.snr.toFixed(1)} dB` : ""}
+            </Tooltip>
+          </Polyline>
+        ))}
+        {placingWaypoint && (
+          <WaypointPlacer
+            onPlace={(latitude, longitude) => {
+              setPlacingWaypoint(false);
+              setEditingWaypoint({ latitude, longitude });
+            }}
+          />
+        )}
+        {Array.from(waypoints.values()).map((wp) => {
+          const lockedToOther = !!wp.lockedTo && wp.lockedTo !== myNodeNum;
+          return (
+            <Marker
+              key={`wp-${wp.id}`}
+              position={[wp.latitude, wp.longitude]}
+              icon={getWaypointIcon(wp.icon)}
+            >
+              <Popup>
+                <div className="text-gray-900 text-sm space-y-1">
+                  <div className="font-bold">{wp.name || "Waypoint"}</div>
+                  {wp.description && <div className="text-gray-600">{wp.description}</div>}
+                  <div className="text-xs text-gray-500">
+                    From {nodes.get(wp.from)?.long_name || `!${wp.from.toString(16)}`}
+                    {wp.lockedTo ? " · locked" : ""}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {wp.expire ? `Expires ${formatTime(wp.expire)}` : "Never expires"}
+                  </div>
+                  <div className="flex gap-2 pt-1">
+                    <button
+                      onClick={() => setEditingWaypoint(wp)}
+                      disabled={!isConnected || lockedToOther}
+                      className="text-xs text-blue-600 hover:underline disabled:text-gray-400 disabled:no-underline"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => handleDeleteWaypoint(wp)}
+                      className="text-xs text-red-600 hover:underline"
+                      title={
+                        lockedToOther || !isConnected
+                          ? "Removes it from this computer only"
+                          : "Deletes it for everyone on the channel"
+                      }
+                    >
+                      {lockedToOther || !isConnected ? "Remove Locally" : "Delete"}
+                    </button>
+                  </div>
+                </div>
+              </Popup>
+            </Marker>
+          );
+        })}
+        {selectingArea && (
+          <AreaSelector
+            onSelect={(bounds) => {
+              setDownloadBounds(bounds);
+              setSelectingArea(false);
+            }}
+          />
+        )}
+        {downloadBounds && (
+          <Rectangle
+            bounds={L.latLngBounds(
+              [downloadBounds.south, downloadBounds.west],
+              [downloadBounds.north, downloadBounds.east]
+            )}
+            pathOptions={SELECTION_STYLE}
+          />
+        )}
+        {Array.from(tracks)
+          .filter(([, track]) => track.length > 1)
+          .map(([nodeId, track]) => {
+            const color = TRACK_COLORS[nodeId % TRACK_COLORS.length];
+            const node = nodes.get(nodeId);
+            const name = node?.long_name || `!${nodeId.toString(16)}`;
+            return (
+              <Polyline
+                key={`track-${nodeId}`}
+                positions={track.map((p) => [p.latitude, p.longitude] as [number, number])}
+                pathOptions={{ color, weight: 3, opacity: 0.8 }}
+              >
+                <Tooltip sticky>
+                  {name} — {track.length} fixes since{" "}
+                  {new Date(track[0].timestamp).toLocaleString()}
+                </Tooltip>
+              </Polyline>
+            );
+          })}
+        {Array.from(tracks).flatMap(([nodeId, track]) =>
+          track.slice(0, -1).map((p) => (
+            <CircleMarker
+              key={`fix-${nodeId}-${p.timestamp}`}
+              center={[p.latitude, p.longitude]}
+              radius={3}
+              pathOptions={{
+                color: TRACK_COLORS[nodeId % TRACK_COLORS.length],
+                fillOpacity: 0.9,
+                weight: 1,
+              }}
+            >
+              <Popup>
+                <div className="text-gray-900 text-xs space-y-0.5">
+                  <div className="font-bold">
+                    {nodes.get(nodeId)?.long_name || `!${nodeId.toString(16)}`}
+                  </div>
+                  <div>{formatTime(p.timestamp)}</div>
+                  {p.altitude !== undefined && <div>Altitude: {p.altitude} m</div>}
+                  {p.groundSpeed !== undefined && (
+                    <div>Speed: {(p.groundSpeed * 3.6).toFixed(1)} km/h</div>
+                  )}
+                  {p.groundTrack !== undefined && <div>Heading: {Math.round(p.groundTrack)}°</div>}
+                  {p.satsInView !== undefined && <div>Satellites: {p.satsInView}</div>}
+                  {p.precisionBits !== undefined && <div>Precision: {p.precisionBits} bits</div>}
+                  <div className="text-gray-500">
+                    {p.latitude.toFixed(5)}, {p.longitude.toFixed(5)}
+                  </div>
+                </div>
+              </Popup>
+            </CircleMarker>
+          ))
+        )}
         {nodesWithPosition.map((node) => {
           const isSelf = node.node_id === myNodeNum;
           const status = getNodeStatus(node.last_heard);
@@ -242,6 +950,16 @@ export default function MapPanel({ nodes, myNodeNum, onRefresh, isConnected }: P
         })}
       </MapContainer>
 
+      {editingWaypoint && (
+        <WaypointEditor
+          waypoint={editingWaypoint}
+          channels={channels}
+          myNodeNum={myNodeNum}
+          onSave={handleSaveWaypoint}
+          onCancel={() => setEditingWaypoint(null)}
+        />
+      )}
+
       {nodesWithPosition.length === 0 && (
         <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
           <div className="bg-gray-900/80 px-4 py-2 rounded-lg text-gray-400 text-sm">
@@ -0,0 +1,589 @@
+import { useState } from "react";
+import { ModuleConfig, type LocalOnly } from "@meshtastic/protobufs";
+import type { ConfigDraft } from "../hooks/useConfigDraft";
+import {
+  ConfigNumber,
+  ConfigSection,
+  ConfigSelect,
+  ConfigText,
+  ConfigToggle,
+} from "./ConfigControls";
+import {
+  fieldLabel,
+  formatConfigValue,
+  UNREPORTED_SECTION,
+  type ReviewSection,
+} from "./ConfigReviewModal";
+
+interface Props {
+  onSetModuleConfig: (config: unknown) => Promise<void>;
+  onCommit: () => Promise<void>;
+  moduleConfig: LocalOnly.LocalModuleConfig;
+  // Edits over moduleConfig, shared with the device config's staged review
+  draft: ConfigDraft<ModuleCase>;
+  staged: boolean;
+  isConnected: boolean;
+}
+
+// ModuleConfig.payloadVariant cases, which double as LocalModuleConfig field names
+export type ModuleCase =
+  | "mqtt"
+  | "serial"
+  | "externalNotification"
+  | "storeForward"
+  | "rangeTest"
+  | "telemetry"
+  | "cannedMessage"
+  | "audio"
+  | "remoteHardware"
+  | "neighborInfo"
+  | "ambientLighting"
+  | "detectionSensor"
+  | "paxcounter";
+
+// Serial_Baud numbers the rates in this order after BAUD_DEFAULT
+const SERIAL_BAUD_RATES = [
+  { value: 0, label: "Default" },
+  ...[110, 300, 600, 1200, 2400, 4800, 9600, 19200, 38400, 57600, 115200, 230400, 460800, 576000, 921600].map(
+    (baud, i) => ({ value: i + 1, label: String(baud) })
+  ),
+];
+
+const SerialMode = ModuleConfig.ModuleConfig_SerialConfig_Serial_Mode;
+const AudioBaud = ModuleConfig.ModuleConfig_AudioConfig_Audio_Baud;
+const Trigger = ModuleConfig.ModuleConfig_DetectionSensorConfig_TriggerType;
+
+const SERIAL_MODES = [
+  { value: SerialMode.DEFAULT, label: "Default" },
+  { value: SerialMode.SIMPLE, label: "Simple" },
+  { value: SerialMode.PROTO, label: "Protobuf" },
+  { value: SerialMode.TEXTMSG, label: "Text Message" },
+  { value: SerialMode.NMEA, label: "NMEA" },
+  { value: SerialMode.CALTOPO, label: "CalTopo" },
+  { value: SerialMode.WS85, label: "WS85 Weather Station" },
+  { value: SerialMode.VE_DIRECT, label: "Victron VE.Direct" },
+  { value: SerialMode.MS_CONFIG, label: "Meshtastic Config" },
+  { value: SerialMode.LOG, label: "Log" },
+  { value: SerialMode.LOGTEXT, label: "Log Text" },
+];
+
+const AUDIO_BITRATES = [
+  { value: AudioBaud.CODEC2_DEFAULT, label: "Default" },
+  { value: AudioBaud.CODEC2_3200, label: "3200" },
+  { value: AudioBaud.CODEC2_2400, label: "2400" },
+  { value: AudioBaud.CODEC2_1600, label: "1600" },
+  { value: AudioBaud.CODEC2_1400, label: "1400" },
+  { value: AudioBaud.CODEC2_1300, label: "1300" },
+  { value: AudioBaud.CODEC2_1200, label: "1200" },
+  { value: AudioBaud.CODEC2_700, label: "700" },
+  { value: AudioBaud.CODEC2_700B, label: "700B" },
+];
+
+const DETECTION_TRIGGERS = [
+  { value: Trigger.LOGIC_LOW, label: "Logic low" },
+  { value: Trigger.LOGIC_HIGH, label: "Logic high" },
+  { value: Trigger.FALLING_EDGE, label: "Falling edge" },
+  { value: Trigger.RISING_EDGE, label: "Rising edge" },
+  { value: Trigger.EITHER_EDGE_ACTIVE_LOW, label: "Either edge, active low" },
+  { value: Trigger.EITHER_EDGE_ACTIVE_HIGH, label: "Either edge, active high" },
+];
+
+const MODULE_TITLES: Record<ModuleCase, string> = {
+  mqtt: "MQTT",
+  serial: "Serial",
+  externalNotification: "External Notification",
+  storeForward: "Store & Forward",
+  rangeTest: "Range Test",
+  telemetry: "Telemetry",
+  cannedMessage: "Canned Message",
+  audio: "Audio",
+  remoteHardware: "Remote Hardware",
+  neighborInfo: "Neighbor Info",
+  ambientLighting: "Ambient Lighting",
+  detectionSensor: "Detection Sensor",
+  paxcounter: "Paxcounter",
+};
+
+const FIELD_OPTIONS: Partial<Record<ModuleCase, Record<string, Array<{ value: number; label: string }>>>> = {
+  serial: { baud: SERIAL_BAUD_RATES, mode: SERIAL_MODES },
+  audio: { bitrate: AUDIO_BITRATES },
+  detectionSensor: { detectionTriggerType: DETECTION_TRIGGERS },
+};
+
+// Firmware minimum for neighbor info broadcasts (4 hours)
+const NEIGHBOR_INFO_MIN_SECS = 14_400;
+
+/** "0 = default" intervals that the firmware clamps when set too low */
+function intervalError(label: string, value: number, min: number): string | null {
+  return value !== 0 && value < min ? `${label} must be 0 (default) or at least ${min} seconds` : null;
+}
+
+function rangeError(label: string, value: number, min: number, max: number): string | null {
+  return value < min || value > max ? `${label} must be between ${min} and ${max}` : null;
+}
+
+/** Validation problems per module section, from the drafted values */
+export function moduleErrors({ field }: ConfigDraft<ModuleCase>): Record<ModuleCase, string[]> {
+  const n = (section: ModuleCase, key: string) => field(section, key, 0);
+  const on = (section: ModuleCase, key = "enabled") => field(section, key, false);
+
+  // ─── MQTT ───────────────────────────────────────────────────
+  const mqttOn = on("mqtt");
+  const mapReport = field<Record<string, unknown>>("mqtt", "mapReportSettings", {});
+  const mqttErrors = [
+    mqttOn && field("mqtt", "password", "") && !field("mqtt", "username", "")
+      ? "MQTT password requires a username"
+      : null,
+    /\s/.test(field("mqtt", "root", "")) ? "MQTT root topic can't contain spaces" : null,
+    on("mqtt", "mapReportingEnabled") && !mqttOn ? "Map reporting requires MQTT to be enabled" : null,
+    on("mqtt", "mapReportingEnabled")
+      ? intervalError("Map report interval", Number(mapReport.publishIntervalSecs ?? 0), 3600)
+      : null,
+  ];
+
+  // ─── Serial ─────────────────────────────────────────────────
+  const serialOn = on("serial");
+  const serialErrors = [
+    serialOn && (n("serial", "rxd") === 0) !== (n("serial", "txd") === 0)
+      ? "Set both RX and TX pins, or neither to use the default port"
+      : null,
+    serialOn && n("serial", "rxd") !== 0 && n("serial", "rxd") === n("serial", "txd")
+      ? "RX and TX must be different pins"
+      : null,
+  ];
+
+  // ─── External notification ──────────────────────────────────
+  const extOn = on("externalNotification");
+  const extErrors = [
+    extOn &&
+    !n("externalNotification", "output") &&
+    !n("externalNotification", "outputVibra") &&
+    !n("externalNotification", "outputBuzzer") &&
+    !on("externalNotification", "useI2sAsBuzzer")
+      ? "Enable at least one output: LED, vibration or buzzer pin (or I2S buzzer)"
+      : null,
+    extOn &&
+    !on("externalNotification", "alertMessage") &&
+    !on("externalNotification", "alertBell") &&
+    !on("externalNotification", "alertMessageVibra") &&
+    !on("externalNotification", "alertMessageBuzzer") &&
+    !on("externalNotification", "alertBellVibra") &&
+    !on("externalNotification", "alertBellBuzzer")
+      ? "Choose at least one alert (message or bell) to notify on"
+      : null,
+  ];
+
+  // ─── Store & Forward ────────────────────────────────────────
+  const sfErrors = [
+    n("storeForward", "records") > 0 && n("storeForward", "historyReturnMax") > n("storeForward", "records")
+      ? "History return max can't exceed the number of stored records"
+      : null,
+    on("storeForward", "heartbeat") && !on("storeForward", "isServer")
+      ? "Heartbeat is only sent by a Store & Forward server"
+      : null,
+  ];
+
+  // ─── Range test ─────────────────────────────────────────────
+  const rtErrors = [intervalError("Sender interval", n("rangeTest", "sender"), 15)];
+
+  // ─── Telemetry ──────────────────────────────────────────────
+  const telemetryErrors = [
+    intervalError("Device metrics interval", n("telemetry", "deviceUpdateInterval"), 60),
+    intervalError("Environment interval", n("telemetry", "environmentUpdateInterval"), 60),
+    intervalError("Air quality interval", n("telemetry", "airQualityInterval"), 60),
+    intervalError("Power metrics interval", n("telemetry", "powerUpdateInterval"), 60),
+    intervalError("Health metrics interval", n("telemetry", "healthUpdateInterval"), 60),
+  ];
+
+  // ─── Canned message ─────────────────────────────────────────
+  const rotaryOn = on("cannedMessage", "rotary1Enabled");
+  const cmErrors = [
+    rotaryOn && (!n("cannedMessage", "inputbrokerPinA") || !n("cannedMessage", "inputbrokerPinB"))
+      ? "Rotary encoder needs both pin A and pin B"
+      : null,
+    rotaryOn && on("cannedMessage", "updown1Enabled")
+      ? "Use either the rotary encoder or the up/down encoder, not both"
+      : null,
+  ];
+
+  // ─── Audio ──────────────────────────────────────────────────
+  const audioOn = on("audio", "codec2Enabled");
+  const audioErrors = [
+    audioOn && !n("audio", "pttPin") ? "Codec2 audio needs a PTT pin" : null,
+  ];
+
+  // ─── Neighbor info ──────────────────────────────────────────
+  const niErrors = [
+    intervalError("Update interval", n("neighborInfo", "updateInterval"), NEIGHBOR_INFO_MIN_SECS),
+  ];
+
+  // ─── Ambient lighting ───────────────────────────────────────
+  const alErrors = [
+    rangeError("Current", n("ambientLighting", "current"), 0, 31),
+    rangeError("Red", n("ambientLighting", "red"), 0, 255),
+    rangeError("Green", n("ambientLighting", "green"), 0, 255),
+    rangeError("Blue", n("ambientLighting", "blue"), 0, 255),
+  ];
+
+  // ─── Detection sensor ───────────────────────────────────────
+  const dsOn = on("detectionSensor");
+  const dsErrors = [
+    dsOn && !n("detectionSensor", "monitorPin") ? "Choose the GPIO pin to monitor" : null,
+    n("detectionSensor", "stateBroadcastSecs") > 0 &&
+    n("detectionSensor", "minimumBroadcastSecs") > n("detectionSensor", "stateBroadcastSecs")
+      ? "Minimum broadcast interval can't be longer than the state broadcast interval"
+      : null,
+    field("detectionSensor", "name", "").length > 19 ? "Sensor name is limited to 19 characters" : null,
+  ];
+
+  // ─── Paxcounter ─────────────────────────────────────────────
+  const paxErrors = [
+    intervalError("Update interval", n("paxcounter", "paxcounterUpdateInterval"), 60),
+    rangeError("WiFi threshold", n("paxcounter", "wifiThreshold"), -120, 0),
+    rangeError("BLE threshold", n("paxcounter", "bleThreshold"), -120, 0),
+  ];
+
+  const errors: Record<ModuleCase, Array<string | null>> = {
+    mqtt: mqttErrors,
+    serial: serialErrors,
+    externalNotification: extErrors,
+    storeForward: sfErrors,
+    rangeTest: rtErrors,
+    telemetry: telemetryErrors,
+    cannedMessage: cmErrors,
+    audio: audioErrors,
+    remoteHardware: [],
+    neighborInfo: niErrors,
+    ambientLighting: alErrors,
+    detectionSensor: dsErrors,
+    paxcounter: paxErrors,
+  };
+  return Object.fromEntries(
+    Object.entries(errors).map(([section, list]) => [section, list.filter((e): e is string => e !== null)])
+  ) as Record<ModuleCase, string[]>;
+}
+
+/** Staged module sections for the config review */
+export function moduleReviewSections(draft: ConfigDraft<ModuleCase>): ReviewSection[] {
+  const errors = moduleErrors(draft);
+  return draft.dirtySections().map((section) => ({
+    title: MODULE_TITLES[section],
+    changes: draft.changes(section).map((c) => {
+      const format = { options: FIELD_OPTIONS[section]?.[c.key], secret: c.key === "password" };
+      return {
+        label: fieldLabel(c.key),
+        current: formatConfigValue(c.current, format),
+        next: formatConfigValue(c.next, format),
+      };
+    }),
+    skipped: draft.reported(section) ? undefined : UNREPORTED_SECTION,
+    errors: errors[section],
+  }));
+}
+
+export default function ModuleConfigPanel({
+  onSetModuleConfig,
+  onCommit,
+  moduleConfig,
+  draft,
+  staged,
+  isConnected,
+}: Props) {
+  const { field, setField, isDirty, dirtyCount, revert, merged } = draft;
+  const [status, setStatus] = useState<string | null>(null);
+  const [applyingSection, setApplyingSection] = useState<string | null>(null);
+
+  const disabled = !isConnected;
+  const fieldDisabled = disabled || applyingSection !== null;
+
+  // Sends the whole module section (reported values plus edits)
+  const applyModule = async (title: string, section: ModuleCase) => {
+    const value = merged(section);
+    if (!isConnected || !value) return;
+    setApplyingSection(title);
+    setStatus(`Applying ${title}...`);
+    try {
+      await onSetModuleConfig({ payloadVariant: { case: section, value } });
+      await onCommit();
+      revert(section);
+      setStatus(`${title} applied successfully!`);
+    } catch (err) {
+      setStatus(`Failed: ${err instanceof Error ? err.message : "Unknown error"}`);
+    } finally {
+      setApplyingSection(null);
+    }
+  };
+
+  const errors = moduleErrors(draft);
+
+  // In staged mode there is no per-section Apply; edits go through the review
+  const sectionProps = (section: ModuleCase) => ({
+    title: MODULE_TITLES[section],
+    onApply: () => applyModule(MODULE_TITLES[section], section),
+    onRevert: () => revert(section),
+    applying: applyingSection === MODULE_TITLES[section],
+    dirtyCount: dirtyCount(section),
+    unavailable: !moduleConfig[section],
+    errors: errors[section],
+    disabled,
+    staged,
+  });
+
+  // Field renderers; `off` disables a field whose module or parent option is off
+  const toggle = (section: ModuleCase, key: string, label: string, description?: string, off = false) => (
+    <ConfigToggle
+      label={label}
+      checked={field(section, key, false)}
+      onChange={(v) => setField(section, key, v)}
+      disabled={fieldDisabled || off}
+      dirty={isDirty(section, key)}
+      description={description}
+    />
+  );
+
+  const number = (
+    section: ModuleCase,
+    key: string,
+    label: string,
+    opts: { min?: number; max?: number; step?: number; unit?: string; description?: string; off?: boolean } = {}
+  ) => (
+    <ConfigNumber
+      label={label}
+      value={field(section, key, 0)}
+      onChange={(v) => setField(section, key, v)}
+      disabled={fieldDisabled || !!opts.off}
+      dirty={isDirty(section, key)}
+      min={opts.min}
+      max={opts.max}
+      step={opts.step}
+      unit={opts.unit}
+      description={opts.description}
+    />
+  );
+
+  const select = (
+    section: ModuleCase,
+    key: string,
+    label: string,
+    options: Array<{ value: number; label: string }>,
+    off = false
+  ) => (
+    <ConfigSelect
+      label={label}
+      value={field(section, key, 0)}
+      options={options}
+      onChange={(v) => setField(section, key, v)}
+      disabled={fieldDisabled || off}
+      dirty={isDirty(section, key)}
+    />
+  );
+
+  const text = (
+    section: ModuleCase,
+    key: string,
+    label: string,
+    opts: { placeholder?: string; description?: string; secret?: boolean; off?: boolean } = {}
+  ) => (
+    <ConfigText
+      label={label}
+      value={field(section, key, "")}
+      onChange={(v) => setField(section, key, v)}
+      disabled={fieldDisabled || !!opts.off}
+      dirty={isDirty(section, key)}
+      secret={opts.secret}
+      placeholder={opts.placeholder}
+      description={opts.description}
+    />
+  );
+
+  const on = (section: ModuleCase, key = "enabled") => field(section, key, false);
+  const mapReport = field<Record<string, unknown>>("mqtt", "mapReportSettings", {});
+  const mqttOn = on("mqtt");
+  const serialOn = on("serial");
+  const extOn = on("externalNotification");
+  const sfOn = on("storeForward");
+  const rtOn = on("rangeTest");
+  const cmOn = on("cannedMessage");
+  const audioOn = on("audio", "codec2Enabled");
+  const niOn = on("neighborInfo");
+  const alOn = on("ambientLighting", "ledState");
+  const dsOn = on("detectionSensor");
+  const paxOn = on("paxcounter");
+
+  return (
+    <div className="space-y-4">
+      {/* ═══ MQTT ═══ */}
+      <ConfigSection {...sectionProps("mqtt")}>
+        {toggle("mqtt", "enabled", "MQTT Enabled", "Bridge mesh traffic to an MQTT broker over WiFi or Ethernet.")}
+        {text("mqtt", "address", "Server Address", { placeholder: "mqtt.meshtastic.org", off: !mqttOn })}
+        {text("mqtt", "username", "Username", { off: !mqttOn })}
+        {text("mqtt", "password", "Password", { secret: true, off: !mqttOn })}
+        {text("mqtt", "root", "Root Topic", { placeholder: "msh", off: !mqttOn })}
+        {toggle("mqtt", "encryptionEnabled", "Encryption Enabled", "Publish packets encrypted with the channel key.", !mqttOn)}
+        {toggle("mqtt", "jsonEnabled", "JSON Output", "Also publish decoded packets as JSON (not on nRF52).", !mqttOn)}
+        {toggle("mqtt", "tlsEnabled", "TLS", undefined, !mqttOn)}
+        {toggle("mqtt", "proxyToClientEnabled", "Proxy Through Client", "Use the connected app's internet connection.", !mqttOn)}
+        {toggle("mqtt", "mapReportingEnabled", "Map Reporting", "Periodically publish this node to the public map.", !mqttOn)}
+        {on("mqtt", "mapReportingEnabled") && (
+          <ConfigNumber
+            label="Map Report Interval"
+            value={Number(mapReport.publishIntervalSecs ?? 0)}
+            onChange={(v) => setField("mqtt", "mapReportSettings", { ...mapReport, publishIntervalSecs: v })}
+            disabled={fieldDisabled || !mqttOn}
+            dirty={isDirty("mqtt", "mapReportSettings")}
+            min={0}
+            unit="seconds"
+            description="0 = default (3 hours)."
+          />
+        )}
+      </ConfigSection>
+
+      {/* ═══ Serial ═══ */}
+      <ConfigSection {...sectionProps("serial")}>
+        {toggle("serial", "enabled", "Serial Enabled")}
+        {toggle("serial", "echo", "Echo", "Send outgoing packets back out of the serial port.", !serialOn)}
+        {number("serial", "rxd", "RX Pin", { min: 0, off: !serialOn })}
+        {number("serial", "txd", "TX Pin", { min: 0, off: !serialOn })}
+        {select("serial", "baud", "Baud Rate", SERIAL_BAUD_RATES, !serialOn)}
+        {number("serial", "timeout", "Timeout", { min: 0, unit: "seconds", off: !serialOn, description: "Wait before treating a partial line as complete. 0 = default." })}
+        {select("serial", "mode", "Mode", SERIAL_MODES, !serialOn)}
+        {toggle("serial", "overrideConsoleSerialPort", "Override Console Port", "Use the USB console port for this module.", !serialOn)}
+      </ConfigSection>
+
+      {/* ═══ External Notification ═══ */}
+      <ConfigSection {...sectionProps("externalNotification")}>
+        {toggle("externalNotification", "enabled", "Enabled", "Drive an LED, buzzer or vibration motor on incoming messages.")}
+        {number("externalNotification", "output", "LED Pin", { min: 0, off: !extOn })}
+        {number("externalNotification", "outputVibra", "Vibration Pin", { min: 0, off: !extOn })}
+        {number("externalNotification", "outputBuzzer", "Buzzer Pin", { min: 0, off: !extOn })}
+        {number("externalNotification", "outputMs", "Output Duration", { min: 0, unit: "ms", off: !extOn, description: "0 = default (1000 ms)." })}
+        {number("externalNotification", "nagTimeout", "Nag Timeout", { min: 0, unit: "seconds", off: !extOn, description: "Repeat the alert until acknowledged, up to this long." })}
+        {toggle("externalNotification", "active", "Active High", "Output pin is driven high to turn on.", !extOn)}
+        {toggle("externalNotification", "usePwm", "Use PWM", "Drive the buzzer with PWM tones.", !extOn)}
+        {toggle("externalNotification", "useI2sAsBuzzer", "I2S Buzzer", "Play alerts through the I2S audio output.", !extOn)}
+        {toggle("externalNotification", "alertMessage", "Alert on Message (LED)", undefined, !extOn)}
+        {toggle("externalNotification", "alertMessageVibra", "Alert on Message (Vibration)", undefined, !extOn)}
+        {toggle("externalNotification", "alertMessageBuzzer", "Alert on Message (Buzzer)", undefined, !extOn)}
+        {toggle("externalNotification", "alertBell", "Alert on Bell (LED)", undefined, !extOn)}
+        {toggle("externalNotification", "alertBellVibra", "Alert on Bell (Vibration)", undefined, !extOn)}
+        {toggle("externalNotification", "alertBellBuzzer", "Alert on Bell (Buzzer)", undefined, !extOn)}
+      </ConfigSection>
+
+      {/* ═══ Store & Forward ═══ */}
+      <ConfigSection {...sectionProps("storeForward")}>
+        {toggle("storeForward", "enabled", "Enabled", "Keep recent messages and resend them to nodes that were away.")}
+        {toggle("storeForward", "isServer", "Server", "Act as a Store & Forward server (needs PSRAM).", !sfOn)}
+        {toggle("storeForward", "heartbeat", "Heartbeat", "Announce the server periodically.", !sfOn)}
+        {number("storeForward", "records", "Records", { min: 0, off: !sfOn, description: "Messages to keep. 0 = as many as memory allows." })}
+        {number("storeForward", "historyReturnMax", "History Return Max", { min: 0, off: !sfOn, description: "Most messages sent per history request." })}
+        {number("storeForward", "historyReturnWindow", "History Return Window", { min: 0, unit: "minutes", off: !sfOn })}
+      </ConfigSection>
+
+      {/* ═══ Range Test ═══ */}
+      <ConfigSection {...sectionProps("rangeTest")}>
+        {toggle("rangeTest", "enabled", "Enabled", "Send or log numbered test packets to measure range.")}
+        {number("rangeTest", "sender", "Sender Interval", { min: 0, unit: "seconds", off: !rtOn, description: "0 = receive only." })}
+        {toggle("rangeTest", "save", "Save CSV", "Log received test packets to flash (ESP32 only).", !rtOn)}
+      </ConfigSection>
+
+      {/* ═══ Telemetry ═══ */}
+      <ConfigSection {...sectionProps("telemetry")}>
+        {number("telemetry", "deviceUpdateInterval", "Device Metrics Interval", { min: 0, unit: "seconds", description: "0 = default (30 minutes)." })}
+        {toggle("telemetry", "environmentMeasurementEnabled", "Environment Sensors")}
+        {number("telemetry", "environmentUpdateInterval", "Environment Interval", { min: 0, unit: "seconds", off: !on("telemetry", "environmentMeasurementEnabled") })}
+        {toggle("telemetry", "environmentScreenEnabled", "Show Environment on Screen", undefined, !on("telemetry", "environmentMeasurementEnabled"))}
+        {toggle("telemetry", "environmentDisplayFahrenheit", "Fahrenheit", undefined, !on("telemetry", "environmentMeasurementEnabled"))}
+        {toggle("telemetry", "airQualityEnabled", "Air Quality Sensor")}
+        {number("telemetry", "airQualityInterval", "Air Quality Interval", { min: 0, unit: "seconds", off: !on("telemetry", "airQualityEnabled") })}
+        {toggle("telemetry", "powerMeasurementEnabled", "Power Sensors")}
+        {number("telemetry", "powerUpdateInterval", "Power Metrics Interval", { min: 0, unit: "seconds", off: !on("telemetry", "powerMeasurementEnabled") })}
+        {toggle("telemetry", "powerScreenEnabled", "Show Power on Screen", undefined, !on("telemetry", "powerMeasurementEnabled"))}
+        {toggle("telemetry", "healthMeasurementEnabled", "Health Sensors")}
+        {number("telemetry", "healthUpdateInterval", "Health Metrics Interval", { min: 0, unit: "seconds", off: !on("telemetry", "healthMeasurementEnabled") })}
+        {toggle("telemetry", "healthScreenEnabled", "Show Health on Screen", undefined, !on("telemetry", "healthMeasurementEnabled"))}
+      </ConfigSection>
+
+      {/* ═══ Canned Message ═══ */}
+      <ConfigSection {...sectionProps("cannedMessage")}>
+        {toggle("cannedMessage", "enabled", "Enabled", "Pick and send preset messages from the device's own input.")}
+        {text("cannedMessage", "allowInputSource", "Input Source", { placeholder: "_any", off: !cmOn, description: "Input broker source, e.g. rotEnc1, upDown1, cardkb. Empty = any." })}
+        {toggle("cannedMessage", "sendBell", "Send Bell", "Append a bell character to sent messages.", !cmOn)}
+        {toggle("cannedMessage", "rotary1Enabled", "Rotary Encoder", undefined, !cmOn)}
+        {toggle("cannedMessage", "updown1Enabled", "Up/Down Encoder", undefined, !cmOn)}
+        {number("cannedMessage", "inputbrokerPinA", "Encoder Pin A", { min: 0, off: !cmOn })}
+        {number("cannedMessage", "inputbrokerPinB", "Encoder Pin B", { min: 0, off: !cmOn })}
+        {number("cannedMessage", "inputbrokerPinPress", "Encoder Press Pin", { min: 0, off: !cmOn })}
+        <p className="text-xs text-gray-500">
+          The message list itself is edited under Canned Messages in Administration.
+        </p>
+      </ConfigSection>
+
+      {/* ═══ Audio ═══ */}
+      <ConfigSection {...sectionProps("audio")}>
+        {toggle("audio", "codec2Enabled", "Codec2 Enabled", "Voice over LoRa (ESP32-S3 with I2S audio).")}
+        {number("audio", "pttPin", "PTT Pin", { min: 0, off: !audioOn })}
+        {select("audio", "bitrate", "Bitrate", AUDIO_BITRATES, !audioOn)}
+        {number("audio", "i2sWs", "I2S Word Select Pin", { min: 0, off: !audioOn })}
+        {number("audio", "i2sSd", "I2S Data In Pin", { min: 0, off: !audioOn })}
+        {number("audio", "i2sDin", "I2S Data Out Pin", { min: 0, off: !audioOn })}
+        {number("audio", "i2sSck", "I2S Clock Pin", { min: 0, off: !audioOn })}
+      </ConfigSection>
+
+      {/* ═══ Remote Hardware ═══ */}
+      <ConfigSection {...sectionProps("remoteHardware")}>
+        {toggle("remoteHardware", "enabled", "Enabled", "Allow GPIO pins to be read and set over the mesh.")}
+        {toggle("remoteHardware", "allowUndefinedPinAccess", "Allow Undefined Pins", "Permit access to pins not in the available pins list.", !on("remoteHardware"))}
+      </ConfigSection>
+
+      {/* ═══ Neighbor Info ═══ */}
+      <ConfigSection {...sectionProps("neighborInfo")}>
+        {toggle("neighborInfo", "enabled", "Enabled", "Share the list of directly heard nodes (feeds the Topology view).")}
+        {number("neighborInfo", "updateInterval", "Update Interval", { min: 0, unit: "seconds", off: !niOn, description: "At least 14400 (4 hours). 0 = default." })}
+        {toggle("neighborInfo", "transmitOverLora", "Transmit Over LoRa", "Otherwise only sent over MQTT. Not on the default channel.", !niOn)}
+      </ConfigSection>
+
+      {/* ═══ Ambient Lighting ═══ */}
+      <ConfigSection {...sectionProps("ambientLighting")}>
+        {toggle("ambientLighting", "ledState", "LED On")}
+        {number("ambientLighting", "current", "Current", { min: 0, max: 31, off: !alOn, description: "LED drive current, 0–31." })}
+        {number("ambientLighting", "red", "Red", { min: 0, max: 255, off: !alOn })}
+        {number("ambientLighting", "green", "Green", { min: 0, max: 255, off: !alOn })}
+        {number("ambientLighting", "blue", "Blue", { min: 0, max: 255, off: !alOn })}
+      </ConfigSection>
+
+      {/* ═══ Detection Sensor ═══ */}
+      <ConfigSection {...sectionProps("detectionSensor")}>
+        {toggle("detectionSensor", "enabled", "Enabled", "Send a message when a GPIO input changes (doors, motion sensors).")}
+        {text("detectionSensor", "name", "Sensor Name", { placeholder: "Motion", off: !dsOn })}
+        {number("detectionSensor", "monitorPin", "Monitor Pin", { min: 0, off: !dsOn })}
+        {select("detectionSensor", "detectionTriggerType", "Trigger", DETECTION_TRIGGERS, !dsOn)}
+        {toggle("detectionSensor", "usePullup", "Use Pull-up", undefined, !dsOn)}
+        {number("detectionSensor", "minimumBroadcastSecs", "Minimum Broadcast Interval", { min: 0, unit: "seconds", off: !dsOn, description: "Rate limit for detection messages." })}
+        {number("detectionSensor", "stateBroadcastSecs", "State Broadcast Interval", { min: 0, unit: "seconds", off: !dsOn, description: "Also send the current state this often. 0 = only on change." })}
+        {toggle("detectionSensor", "sendBell", "Send Bell", undefined, !dsOn)}
+      </ConfigSection>
+
+      {/* ═══ Paxcounter ═══ */}
+      <ConfigSection {...sectionProps("paxcounter")}>
+        {toggle("paxcounter", "enabled", "Enabled", "Count nearby WiFi and Bluetooth devices (ESP32 only).")}
+        {number("paxcounter", "paxcounterUpdateInterval", "Update Interval", { min: 0, unit: "seconds", off: !paxOn })}
+        {number("paxcounter", "wifiThreshold", "WiFi Threshold", { min: -120, max: 0, unit: "dBm", off: !paxOn })}
+        {number("paxcounter", "bleThreshold", "BLE Threshold", { min: -120, max: 0, unit: "dBm", off: !paxOn })}
+      </ConfigSection>
+
+      {status && (
+        <div
+          className={`px-4 py-2 rounded-lg text-sm ${
+            status.includes("Failed")
+              ? "bg-red-900/50 border border-red-700 text-red-300"
+              : status.includes("success")
+              ? "bg-green-900/50 border border-green-700 text-green-300"
+              : "bg-gray-800 text-gray-400"
+          }`}
+        >
+          {status}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,14 +1,37 @@
 import { useEffect, useState } from "react";
-import type { MeshNode } from "../lib/types";
+import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer } from "recharts";
+import type { MeshNode, TelemetryPoint, TraceRouteResult } from "../lib/types";
 
 interface NodeDetailModalProps {
   node: MeshNode | null;
   onClose: () => void;
   onRequestPosition: (nodeNum: number) => Promise<void>;
   onTraceRoute: (nodeNum: number) => Promise<void>;
+  // Replies received this session, used to refresh the history live
+  traceRoutes: TraceRouteResult[];
+  getNodeName: (nodeNum: number) => string;
+  onShowRoute: (result: TraceRouteResult) => void;
   isConnected: boolean;
 }
 
+const ROUTE_HISTORY_LIMIT = 10;
+
+const TELEMETRY_HISTORY_MS = 24 * 60 * 60_000;
+
+// Device metrics charted in the 24h history
+const HISTORY_METRICS: Array<{
+  key: keyof TelemetryPoint;
+  label: string;
+  unit: string;
+  color: string;
+  domain?: [number, number];
+  digits: number;
+}> = [
+  { key: "batteryLevel", label: "Battery", unit: "%", color: "#3b82f6", domain: [0, 100], digits: 0 },
+  { key: "voltage", label: "Voltage", unit: "V", color: "#8b5cf6", digits: 2 },
+  { key: "channelUtilization", label: "Channel Util", unit: "%", color: "#eab308", domain: [0, 100], digits: 1 },
+];
+
 function formatTime(ts: number): string {
   if (!ts) return "Never";
   const diff = Date.now() - ts;
@@ -37,14 +60,142 @@ function InfoRow({
   );
 }
 
+function formatSnr(snr: number | null | undefined): string {
+  return snr === null || snr === undefined ? "?" : `${snr.toFixed(1)}dB`;
+}
+
+/** One direction of a traceroute: endpoints, hops and SNR per link */
+function RoutePath({
+  start,
+  hops,
+  end,
+  snr,
+  getNodeName,
+}: {
+  start: number;
+  hops: number[];
+  end: number;
+  snr: Array<number | null>;
+  getNodeName: (nodeNum: number) => string;
+}) {
+  const nodes = [start, ...hops, end];
+  return (
+    <div className="flex flex-wrap items-center gap-1 text-xs">
+      {nodes.map((num, i) => (
+        <span key={i} className="flex items-center gap-1">
+          {i > 0 && (
+            <span className="text-gray-500">
+              → <span className="text-gray-400">{formatSnr(snr[i - 1])}</span> →
+            </span>
+          )}
+          <span className="text-gray-200 font-medium">{getNodeName(num)}</span>
+        </span>
+      ))}
+    </div>
+  );
+}
+
+/** Sparkline of one metric over the history window, with its latest value */
+function HistoryChart({
+  points,
+  metric,
+  since,
+}: {
+  points: TelemetryPoint[];
+  metric: (typeof HISTORY_METRICS)[number];
+  since: number;
+}) {
+  const data = points.filter((p) => p[metric.key] !== undefined);
+  if (data.length === 0) return null;
+  const latest = data[data.length - 1][metric.key] as number;
+  const format = (value: number) => `${value.toFixed(metric.digits)}${metric.unit}`;
+
+  return (
+    <div>
+      <div className="flex justify-between text-xs">
+        <span className="text-gray-400">{metric.label}</span>
+        <span className="text-gray-200 font-medium">{format(latest)}</span>
+      </div>
+      <div className="h-12">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={data} margin={{ top: 4, right: 0, bottom: 0, left: 0 }}>
+            <XAxis dataKey="timestamp" type="number" domain={[since, "dataMax"]} hide />
+            <YAxis domain={metric.domain ?? ["auto", "auto"]} hide />
+            <Tooltip
+              labelFormatter={(ms) => new Date(Number(ms)).toLocaleString()}
+              contentStyle={{
+                background: "#1f2937",
+                border: "1px solid #374151",
+                borderRadius: "8px",
+                fontSize: "12px",
+              }}
+              formatter={(value) => [format(Number(value)), metric.label]}
+            />
+            <Line
+              type="monotone"
+              dataKey={metric.key}
+              stroke={metric.color}
+              strokeWidth={1.5}
+              dot={false}
+              isAnimationActive={false}
+            />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+}
+
 export default function NodeDetailModal({
   node,
   onClose,
   onRequestPosition,
   onTraceRoute,
+  traceRoutes,
+  getNodeName,
+  onShowRoute,
   isConnected,
 }: NodeDetailModalProps) {
   const [actionStatus, setActionStatus] = useState<string | null>(null);
+  const [routeHistory, setRouteHistory] = useState<TraceRouteResult[]>([]);
+  const [telemetryHistory, setTelemetryHistory] = useState<TelemetryPoint[]>([]);
+  const [historySince, setHistorySince] = useState(0);
+
+  // Reload history when opened and whenever a new reply arrives
+  const nodeId = node?.node_id;
+  const latestRouteId = traceRoutes[0]?.id;
+  useEffect(() => {
+    if (nodeId === undefined) return;
+    let stale = false;
+    window.electronAPI.db
+      .getTraceroutes(nodeId, ROUTE_HISTORY_LIMIT)
+      .then((rows) => {
+        if (!stale) setRouteHistory(rows);
+      })
+      .catch(() => {});
+    return () => {
+      stale = true;
+    };
+  }, [nodeId, latestRouteId]);
+
+  // Last 24h of device metrics, reloaded whenever the node is heard again
+  const lastHeard = node?.last_heard;
+  useEffect(() => {
+    if (nodeId === undefined) return;
+    let stale = false;
+    const since = Date.now() - TELEMETRY_HISTORY_MS;
+    window.electronAPI.db
+      .getTelemetry(nodeId, since)
+      .then((points) => {
+        if (stale) return;
+        setTelemetryHistory(points);
+        setHistorySince(since);
+      })
+      .catch(() => {});
+    return () => {
+      stale = true;
+    };
+  }, [nodeId, lastHeard]);
 
   // Close on Escape
   useEffect(() => {
@@ -195,6 +346,60 @@ export default function NodeDetailModal({
           )}
         </div>
 
+        {/* Telemetry history */}
+        {HISTORY_METRICS.some((m) => telemetryHistory.some((p) => p[m.key] !== undefined)) && (
+          <div className="px-5 py-3 border-t border-gray-700 space-y-2">
+            <h4 className="text-xs font-medium text-gray-400">Last 24 Hours</h4>
+            {HISTORY_METRICS.map((metric) => (
+              <HistoryChart
+                key={metric.key}
+                points={telemetryHistory}
+                metric={metric}
+                since={historySince}
+              />
+            ))}
+          </div>
+        )}
+
+        {/* Route history */}
+        {routeHistory.length > 0 && (
+          <div className="px-5 py-3 border-t border-gray-700 space-y-2 max-h-56 overflow-y-auto">
+            <h4 className="text-xs font-medium text-gray-400">Route History</h4>
+            {routeHistory.map((result) => (
+              <div key={result.id} className="bg-gray-900/50 rounded-lg px-3 py-2 space-y-1">
+                <div className="flex items-center justify-between text-xs text-gray-500">
+                  <span>
+                    {formatTime(result.timestamp)} ·{" "}
+                    {result.route.length === 0 ? "direct" : `${result.route.length} hop(s)`}
+                  </span>
+                  <button
+                    onClick={() => onShowRoute(result)}
+                    className="text-green-400 hover:text-green-300"
+                  >
+                    Show on map
+                  </button>
+                </div>
+                <RoutePath
+                  start={result.from}
+                  hops={result.route}
+                  end={result.to}
+                  snr={result.snrTowards}
+                  getNodeName={getNodeName}
+                />
+                {result.snrBack.length > 0 && (
+                  <RoutePath
+                    start={result.to}
+                    hops={result.routeBack}
+                    end={result.from}
+                    snr={result.snrBack}
+                    getNodeName={getNodeName}
+                  />
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* Footer actions */}
         <div className="px-5 py-3 border-t border-gray-700 flex items-center gap-2">
           <button
@@ -0,0 +1,95 @@
+import { useState } from "react";
+import {
+  RETRYABLE_ERROR_CHOICES,
+  loadRetryPolicy,
+  saveRetryPolicy,
+  type RetryPolicy,
+} from "../lib/retryPolicy";
+
+/** Automatic resend settings for messages the mesh failed to deliver */
+export default function RetryPolicySettings() {
+  const [policy, setPolicy] = useState<RetryPolicy>(loadRetryPolicy);
+
+  // Applies immediately — the policy is read on every failed send
+  const update = (patch: Partial<RetryPolicy>) => {
+    const next = { ...policy, ...patch };
+    setPolicy(next);
+    saveRetryPolicy(next);
+  };
+
+  const toggleError = (code: number) => {
+    update({
+      retryableErrors: policy.retryableErrors.includes(code)
+        ? policy.retryableErrors.filter((c) => c !== code)
+        : [...policy.retryableErrors, code],
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-xs font-medium text-gray-400">Message Delivery</h3>
+      <div className="bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 space-y-2">
+        <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={policy.enabled}
+            onChange={() => update({ enabled: !policy.enabled })}
+            className="accent-green-500"
+          />
+          Retry failed messages automatically
+        </label>
+        <div className={`space-y-2 ${policy.enabled ? "" : "opacity-50 pointer-events-none"}`}>
+          <div className="flex items-center gap-2 text-xs text-gray-400">
+            <span className="w-28 shrink-0">Attempts</span>
+            <input
+              type="number"
+              min={2}
+              max={10}
+              value={policy.maxAttempts}
+              onChange={(e) =>
+                update({ maxAttempts: Math.min(10, Math.max(2, Number(e.target.value) || 2)) })
+              }
+              className="w-16 px-2 py-1 bg-gray-700 rounded text-sm text-gray-200 border border-gray-600 focus:border-green-500 focus:outline-none"
+            />
+            <span>sends in total</span>
+          </div>
+          <div className="flex items-center gap-2 text-xs text-gray-400">
+            <span className="w-28 shrink-0">First retry after</span>
+            <input
+              type="number"
+              min={1}
+              value={Math.round(policy.baseDelayMs / 1000)}
+              onChange={(e) =>
+                update({ baseDelayMs: Math.max(1, Number(e.target.value) || 1) * 1000 })
+              }
+              className="w-16 px-2 py-1 bg-gray-700 rounded text-sm text-gray-200 border border-gray-600 focus:border-green-500 focus:outline-none"
+            />
+            <span>seconds, doubling each time</span>
+          </div>
+          <div className="space-y-1">
+            <span className="text-xs text-gray-400">Retry on</span>
+            <div className="flex flex-wrap gap-x-3 gap-y-1">
+              {RETRYABLE_ERROR_CHOICES.map(({ code, label }) => (
+                <label
+                  key={code}
+                  className="flex items-center gap-1.5 text-xs text-gray-300 cursor-pointer"
+                >
+                  <input
+                    type="checkbox"
+                    checked={policy.retryableErrors.includes(code)}
+                    onChange={() => toggleError(code)}
+                    className="accent-green-500"
+                  />
+                  {label}
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+        <p className="text-xs text-gray-500">
+          Failed messages can always be resent by hand with Retry in the chat.
+        </p>
+      </div>
+    </div>
+  );
+}
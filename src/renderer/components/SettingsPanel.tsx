@@ -1,10 +1,30 @@
-import type { ComponentProps } from "react";
+import { useState, type ComponentProps } from "react";
 import ConfigPanel from "./ConfigPanel";
+import ModuleConfigPanel from "./ModuleConfigPanel";
 import AdminPanel from "./AdminPanel";
+import TileCacheManager from "./TileCacheManager";
+import DatabaseMaintenance from "./DatabaseMaintenance";
+import RetryPolicySettings from "./RetryPolicySettings";
+import CannedMessagesSettings from "./CannedMessagesSettings";
+import ConfigBackup from "./ConfigBackup";
 
-type Props = ComponentProps<typeof ConfigPanel> & ComponentProps<typeof AdminPanel>;
+type Props = Omit<ComponentProps<typeof ConfigPanel>, "staged" | "onStagedChange"> &
+  Omit<ComponentProps<typeof ModuleConfigPanel>, "draft" | "staged"> &
+  ComponentProps<typeof AdminPanel> &
+  ComponentProps<typeof CannedMessagesSettings> &
+  ComponentProps<typeof ConfigBackup>;
+
+const STAGE_CHANGES_KEY = "electastic:stageConfigChanges";
 
 export default function SettingsPanel(props: Props) {
+  // Staged mode: edits across sections wait for one reviewed "Apply all"
+  const [staged, setStaged] = useState(() => localStorage.getItem(STAGE_CHANGES_KEY) !== "false");
+
+  const handleStagedChange = (value: boolean) => {
+    setStaged(value);
+    localStorage.setItem(STAGE_CHANGES_KEY, String(value));
+  };
+
   return (
     <div className="h-full flex gap-6">
       {/* Left column — Device Configuration */}
@@ -17,7 +37,32 @@ export default function SettingsPanel(props: Props) {
           onCommit={props.onCommit}
           onSetChannel={props.onSetChannel}
           onClearChannel={props.onClearChannel}
+          onApplyChanges={props.onApplyChanges}
+          channelConfigs={props.channelConfigs}
+          deviceConfig={props.deviceConfig}
+          configDraft={props.configDraft}
+          moduleDraft={props.moduleDraft}
+          staged={staged}
+          onStagedChange={handleStagedChange}
+          isConnected={props.isConnected}
+        />
+        <h2 className="text-lg font-semibold text-gray-200 mt-6 mb-3">Module Configuration</h2>
+        <ModuleConfigPanel
+          onSetModuleConfig={props.onSetModuleConfig}
+          onCommit={props.onCommit}
+          moduleConfig={props.moduleConfig}
+          draft={props.moduleDraft}
+          staged={staged}
+          isConnected={props.isConnected}
+        />
+        <h2 className="text-lg font-semibold text-gray-200 mt-6 mb-3">Backup &amp; Restore</h2>
+        <ConfigBackup
+          onApplyConfigBackup={props.onApplyConfigBackup}
+          deviceConfig={props.deviceConfig}
+          moduleConfig={props.moduleConfig}
           channelConfigs={props.channelConfigs}
+          nodes={props.nodes}
+          myNodeNum={props.myNodeNum}
           isConnected={props.isConnected}
         />
       </div>
@@ -38,6 +83,21 @@ export default function SettingsPanel(props: Props) {
           onRemoveNode={props.onRemoveNode}
           isConnected={props.isConnected}
         />
+        <div className="mt-4">
+          <RetryPolicySettings />
+        </div>
+        <div className="mt-4">
+          <CannedMessagesSettings
+            onSetCannedMessages={props.onSetCannedMessages}
+            isConnected={props.isConnected}
+          />
+        </div>
+        <div className="mt-4">
+          <DatabaseMaintenance />
+        </div>
+        <div className="mt-4">
+          <TileCacheManager />
+        </div>
       </div>
     </div>
   );
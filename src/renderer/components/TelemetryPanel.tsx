@@ -1,4 +1,4 @@
-import { useCallback, useMemo } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
 import {
   LineChart,
   Line,
@@ -8,51 +8,389 @@ import {
   Tooltip,
   ResponsiveContainer,
   Legend,
+  ReferenceArea,
 } from "recharts";
-import type { TelemetryPoint } from "../lib/types";
+import type { DisplayUnits, MeshNode, PacketStats, TelemetryPoint } from "../lib/types";
 import RefreshButton from "./RefreshButton";
 
+type TimeRange = "1h" | "24h" | "7d" | "custom";
+
+const RANGE_OPTIONS: { value: TimeRange; label: string; ms: number }[] = [
+  { value: "1h", label: "Last hour", ms: 60 * 60_000 },
+  { value: "24h", label: "Last day", ms: 24 * 60 * 60_000 },
+  { value: "7d", label: "Last week", ms: 7 * 24 * 60 * 60_000 },
+  { value: "custom", label: "Custom", ms: 0 },
+];
+
+// Distinct colors for overlaid nodes (first entry used for single-node view)
+const NODE_COLORS = ["#3b82f6", "#22c55e", "#f59e0b", "#ec4899", "#06b6d4", "#a855f7", "#ef4444", "#84cc16"];
+const MAX_SELECTED_NODES = NODE_COLORS.length;
+
+/** Format a Date for a datetime-local input (local time, minute precision) */
+function toLocalInput(ms: number): string {
+  const d = new Date(ms - new Date(ms).getTimezoneOffset() * 60_000);
+  return d.toISOString().slice(0, 16);
+}
+
+interface SeriesDef {
+  key: keyof TelemetryPoint;
+  label: string;
+  color: string;
+  yAxisId: string;
+  /** CSV column name (includes the unit) */
+  csvHeader: string;
+  /** Converts the stored SI value to the display unit */
+  convert?: (value: number) => number;
+}
+
+interface AxisDef {
+  id: string;
+  unit: string;
+  color: string;
+  orientation: "left" | "right";
+  domain?: [number, number];
+}
+
+interface BandDef {
+  yAxisId: string;
+  y1: number;
+  y2: number;
+  color: string;
+  label: string;
+}
+
+interface ChartDef {
+  title: string;
+  axes: AxisDef[];
+  series: SeriesDef[];
+  /** Shaded y-ranges, e.g. firmware throttling thresholds */
+  bands?: BandDef[];
+  note?: string;
+}
+
+// Firmware AirTime limits: above 25% channel utilization nodes stop
+// sending non-essential packets (polite), above 40% they stop sending
+// anything except replies.
+const CHANNEL_UTIL_POLITE = 25;
+const CHANNEL_UTIL_MAX = 40;
+
+const TOP_TALKERS = 10;
+
+const PORT_NAMES: Record<number, string> = {
+  [-1]: "Encrypted",
+  1: "Text",
+  3: "Position",
+  4: "NodeInfo",
+  5: "Routing",
+  6: "Admin",
+  8: "Waypoint",
+  32: "Reply",
+  34: "Paxcounter",
+  64: "Serial",
+  65: "Store&Fwd",
+  66: "Range Test",
+  67: "Telemetry",
+  70: "Traceroute",
+  71: "NeighborInfo",
+  73: "Map Report",
+};
+
+const celsiusToFahrenheit = (c: number) => Math.round((c * 9 / 5 + 32) * 10) / 10;
+const hpaToInHg = (hpa: number) => Math.round(hpa * 0.02953 * 100) / 100;
+
+/** Every chart the panel can show; only charts with data are rendered */
+function buildCharts(units: DisplayUnits): ChartDef[] {
+  const imperial = units === "imperial";
+  return [
+    {
+      title: "Battery & Voltage",
+      axes: [
+        { id: "battery", unit: "%", color: "#3b82f6", orientation: "left", domain: [0, 100] },
+        { id: "voltage", unit: "V", color: "#8b5cf6", orientation: "right", domain: [3.0, 4.5] },
+      ],
+      series: [
+        { key: "batteryLevel", label: "Battery %", color: "#3b82f6", yAxisId: "battery", csvHeader: "battery_level" },
+        { key: "voltage", label: "Voltage", color: "#8b5cf6", yAxisId: "voltage", csvHeader: "voltage" },
+      ],
+    },
+    {
+      title: "Signal Quality",
+      axes: [
+        { id: "snr", unit: "dB", color: "#ef4444", orientation: "left" },
+        { id: "rssi", unit: "dBm", color: "#f97316", orientation: "right" },
+      ],
+      series: [
+        { key: "snr", label: "SNR", color: "#ef4444", yAxisId: "snr", csvHeader: "snr" },
+        { key: "rssi", label: "RSSI", color: "#f97316", yAxisId: "rssi", csvHeader: "rssi" },
+      ],
+    },
+    {
+      title: "Channel Utilization & Airtime",
+      axes: [
+        { id: "chUtil", unit: "%", color: "#eab308", orientation: "left", domain: [0, 100] },
+        { id: "airUtil", unit: "% TX", color: "#14b8a6", orientation: "right" },
+      ],
+      series: [
+        { key: "channelUtilization", label: "Channel Util %", color: "#eab308", yAxisId: "chUtil", csvHeader: "channel_utilization" },
+        { key: "airUtilTx", label: "Air Util TX %", color: "#14b8a6", yAxisId: "airUtil", csvHeader: "air_util_tx" },
+      ],
+      bands: [
+        { yAxisId: "chUtil", y1: CHANNEL_UTIL_POLITE, y2: CHANNEL_UTIL_MAX, color: "#f59e0b", label: "Throttling" },
+        { yAxisId: "chUtil", y1: CHANNEL_UTIL_MAX, y2: 100, color: "#ef4444", label: "Congested" },
+      ],
+      note: `Above ${CHANNEL_UTIL_POLITE}% nodes skip non-essential broadcasts; above ${CHANNEL_UTIL_MAX}% they only answer requests.`,
+    },
+    {
+      title: "Temperature & Humidity",
+      axes: [
+        { id: "temperature", unit: imperial ? "°F" : "°C", color: "#f59e0b", orientation: "left" },
+        { id: "humidity", unit: "%", color: "#06b6d4", orientation: "right", domain: [0, 100] },
+      ],
+      series: [
+        {
+          key: "temperature",
+          label: "Temperature",
+          color: "#f59e0b",
+          yAxisId: "temperature",
+          csvHeader: imperial ? "temperature_f" : "temperature_c",
+          convert: imperial ? celsiusToFahrenheit : undefined,
+        },
+        { key: "relativeHumidity", label: "Humidity", color: "#06b6d4", yAxisId: "humidity", csvHeader: "relative_humidity" },
+      ],
+    },
+    {
+      title: "Barometric Pressure",
+      axes: [
+        { id: "pressure", unit: imperial ? "inHg" : "hPa", color: "#a855f7", orientation: "left" },
+      ],
+      series: [
+        {
+          key: "barometricPressure",
+          label: "Pressure",
+          color: "#a855f7",
+          yAxisId: "pressure",
+          csvHeader: imperial ? "barometric_pressure_inhg" : "barometric_pressure_hpa",
+          convert: imperial ? hpaToInHg : undefined,
+        },
+      ],
+    },
+    {
+      title: "Gas & Air Quality Index",
+      axes: [
+        { id: "gas", unit: "MΩ", color: "#84cc16", orientation: "left" },
+        { id: "iaq", unit: "IAQ", color: "#ec4899", orientation: "right" },
+      ],
+      series: [
+        { key: "gasResistance", label: "Gas Resistance", color: "#84cc16", yAxisId: "gas", csvHeader: "gas_resistance_mohm" },
+        { key: "iaq", label: "IAQ", color: "#ec4899", yAxisId: "iaq", csvHeader: "iaq" },
+      ],
+    },
+    {
+      title: "Light",
+      axes: [{ id: "lux", unit: "lx", color: "#facc15", orientation: "left" }],
+      series: [
+        { key: "lux", label: "Lux", color: "#facc15", yAxisId: "lux", csvHeader: "lux" },
+      ],
+    },
+    {
+      title: "Power Channels",
+      axes: [
+        { id: "volts", unit: "V", color: "#8b5cf6", orientation: "left" },
+        { id: "current", unit: "mA", color: "#22c55e", orientation: "right" },
+      ],
+      series: [
+        { key: "ch1Voltage", label: "Ch1 V", color: "#8b5cf6", yAxisId: "volts", csvHeader: "ch1_voltage" },
+        { key: "ch2Voltage", label: "Ch2 V", color: "#6366f1", yAxisId: "volts", csvHeader: "ch2_voltage" },
+        { key: "ch3Voltage", label: "Ch3 V", color: "#3b82f6", yAxisId: "volts", csvHeader: "ch3_voltage" },
+        { key: "ch1Current", label: "Ch1 mA", color: "#22c55e", yAxisId: "current", csvHeader: "ch1_current_ma" },
+        { key: "ch2Current", label: "Ch2 mA", color: "#14b8a6", yAxisId: "current", csvHeader: "ch2_current_ma" },
+        { key: "ch3Current", label: "Ch3 mA", color: "#84cc16", yAxisId: "current", csvHeader: "ch3_current_ma" },
+      ],
+    },
+    {
+      title: "Particulate Matter",
+      axes: [{ id: "pm", unit: "µg/m³", color: "#f97316", orientation: "left" }],
+      series: [
+        { key: "pm10Standard", label: "PM1.0", color: "#fbbf24", yAxisId: "pm", csvHeader: "pm1_0" },
+        { key: "pm25Standard", label: "PM2.5", color: "#f97316", yAxisId: "pm", csvHeader: "pm2_5" },
+        { key: "pm100Standard", label: "PM10", color: "#ef4444", yAxisId: "pm", csvHeader: "pm10" },
+      ],
+    },
+    {
+      title: "Particle Counts",
+      axes: [{ id: "particles", unit: "/0.1L", color: "#06b6d4", orientation: "left" }],
+      series: [
+        { key: "particles03um", label: "0.3µm", color: "#06b6d4", yAxisId: "particles", csvHeader: "particles_03um" },
+        { key: "particles05um", label: "0.5µm", color: "#0ea5e9", yAxisId: "particles", csvHeader: "particles_05um" },
+        { key: "particles10um", label: "1.0µm", color: "#3b82f6", yAxisId: "particles", csvHeader: "particles_10um" },
+        { key: "particles25um", label: "2.5µm", color: "#6366f1", yAxisId: "particles", csvHeader: "particles_25um" },
+        { key: "particles50um", label: "5.0µm", color: "#8b5cf6", yAxisId: "particles", csvHeader: "particles_50um" },
+        { key: "particles100um", label: "10µm", color: "#a855f7", yAxisId: "particles", csvHeader: "particles_100um" },
+      ],
+    },
+    {
+      title: "CO₂",
+      axes: [{ id: "co2", unit: "ppm", color: "#10b981", orientation: "left" }],
+      series: [
+        { key: "co2", label: "CO₂", color: "#10b981", yAxisId: "co2", csvHeader: "co2_ppm" },
+      ],
+    },
+  ];
+}
+
 interface Props {
   telemetry: TelemetryPoint[];
+  nodes: Map<number, MeshNode>;
+  displayUnits: DisplayUnits;
+  packetStats: Map<number, PacketStats>;
+  statsSince: number;
+  onResetStats: () => void;
   onRefresh: () => Promise<void>;
   isConnected: boolean;
 }
 
-export default function TelemetryPanel({ telemetry, onRefresh, isConnected }: Props) {
-  const chartData = useMemo(
-    () =>
-      telemetry.map((t, i) => ({
-        index: i,
-        time: new Date(t.timestamp).toLocaleTimeString([], {
-          hour: "2-digit",
-          minute: "2-digit",
-          second: "2-digit",
-        }),
-        battery: t.batteryLevel,
-        voltage: t.voltage,
-        snr: t.snr,
-        rssi: t.rssi,
-      })),
-    [telemetry]
-  );
+export default function TelemetryPanel({
+  telemetry,
+  nodes,
+  displayUnits,
+  packetStats,
+  statsSince,
+  onResetStats,
+  onRefresh,
+  isConnected,
+}: Props) {
+  const [range, setRange] = useState<TimeRange>("24h");
+  const [customFrom, setCustomFrom] = useState(() => toLocalInput(Date.now() - 24 * 60 * 60_000));
+  const [customTo, setCustomTo] = useState(() => toLocalInput(Date.now()));
+  const [selectedNodes, setSelectedNodes] = useState<number[]>([]);
+  const [storedNodes, setStoredNodes] = useState<
+    Array<{ nodeId: number; count: number; lastTimestamp: number }>
+  >([]);
+  const [history, setHistory] = useState<TelemetryPoint[]>([]);
+  const [loadedAt, setLoadedAt] = useState(0);
+  const [loading, setLoading] = useState(false);
 
-  const hasBatteryData = chartData.some(
-    (d) => d.battery !== undefined || d.voltage !== undefined
+  const getNodeLabel = useCallback(
+    (nodeId: number) => {
+      const node = nodes.get(nodeId);
+      return node?.short_name || node?.long_name || `!${nodeId.toString(16)}`;
+    },
+    [nodes]
   );
-  const hasSignalData = chartData.some(
-    (d) => d.snr !== undefined || d.rssi !== undefined
+
+  // Nodes that have reported telemetry, newest first (DB + live session)
+  const reportingNodes = useMemo(() => {
+    const lastSeen = new Map<number, number>();
+    for (const n of storedNodes) lastSeen.set(n.nodeId, n.lastTimestamp);
+    for (const t of telemetry) {
+      if ((lastSeen.get(t.nodeId) ?? 0) < t.timestamp) lastSeen.set(t.nodeId, t.timestamp);
+    }
+    return Array.from(lastSeen.entries())
+      .sort((a, b) => b[1] - a[1])
+      .map(([nodeId]) => nodeId);
+  }, [storedNodes, telemetry]);
+
+  useEffect(() => {
+    window.electronAPI.db.getTelemetryNodes().then(setStoredNodes);
+  }, []);
+
+  // Default to the most recently reporting node
+  useEffect(() => {
+    if (selectedNodes.length === 0 && reportingNodes.length > 0) {
+      setSelectedNodes([reportingNodes[0]]);
+    }
+  }, [selectedNodes.length, reportingNodes]);
+
+  const windowMs = RANGE_OPTIONS.find((r) => r.value === range)!.ms;
+  // Relative windows are anchored at the last load so they slide forward on refresh
+  const since = range === "custom"
+    ? new Date(customFrom).getTime()
+    : (loadedAt || Date.now()) - windowMs;
+  const until = range === "custom" ? new Date(customTo).getTime() : undefined;
+
+  // Load history for the selected nodes and window
+  const loadHistory = useCallback(async () => {
+    if (selectedNodes.length === 0) {
+      setHistory([]);
+      return;
+    }
+    setLoading(true);
+    try {
+      const now = Date.now();
+      const windowStart = range === "custom" ? new Date(customFrom).getTime() : now - windowMs;
+      const windowEnd = range === "custom" ? new Date(customTo).getTime() : undefined;
+      const results = await Promise.all(
+        selectedNodes.map((id) =>
+          window.electronAPI.db.getTelemetry(id, windowStart, windowEnd)
+        )
+      );
+      setHistory(results.flat().sort((a, b) => a.timestamp - b.timestamp));
+      setLoadedAt(now);
+    } finally {
+      setLoading(false);
+    }
+  }, [selectedNodes, range, windowMs, customFrom, customTo]);
+
+  useEffect(() => {
+    loadHistory().catch((err) => console.warn("Failed to load telemetry history:", err));
+  }, [loadHistory]);
+
+  // History plus live samples that arrived after the last load
+  const points = useMemo(() => {
+    if (range === "custom" && until !== undefined && until < loadedAt) return history;
+    const selected = new Set(selectedNodes);
+    const live = telemetry.filter(
+      (t) => selected.has(t.nodeId) && t.timestamp > loadedAt
+    );
+    return live.length > 0 ? [...history, ...live] : history;
+  }, [history, telemetry, selectedNodes, loadedAt, range, until]);
+
+  const pointsByNode = useMemo(() => {
+    const map = new Map<number, TelemetryPoint[]>();
+    for (const id of selectedNodes) map.set(id, []);
+    for (const p of points) map.get(p.nodeId)?.push(p);
+    return map;
+  }, [points, selectedNodes]);
+
+  // Charts (and CSV columns) for the metrics present in the selection
+  const charts = useMemo(
+    () =>
+      buildCharts(displayUnits).filter((chart) =>
+        chart.series.some((s) => points.some((p) => p[s.key] !== undefined))
+      ),
+    [displayUnits, points]
   );
 
+  const toggleNode = useCallback((nodeId: number) => {
+    setSelectedNodes((prev) => {
+      if (prev.includes(nodeId)) return prev.filter((id) => id !== nodeId);
+      if (prev.length >= MAX_SELECTED_NODES) return prev;
+      return [...prev, nodeId];
+    });
+  }, []);
+
+  const handleRefresh = useCallback(async () => {
+    window.electronAPI.db.getTelemetryNodes().then(setStoredNodes);
+    await loadHistory();
+    if (isConnected) await onRefresh();
+  }, [loadHistory, onRefresh, isConnected]);
+
   const handleExportCsv = useCallback(() => {
-    if (telemetry.length === 0) return;
+    if (points.length === 0) return;
 
-    const headers = ["timestamp", "battery_level", "voltage", "snr", "rssi"];
-    const rows = telemetry.map((t) => [
+    const columns = charts
+      .flatMap((chart) => chart.series)
+      .filter((s) => points.some((p) => p[s.key] !== undefined));
+    const headers = ["timestamp", "node_id", "node_name", ...columns.map((c) => c.csvHeader)];
+    const rows = points.map((t) => [
       new Date(t.timestamp).toISOString(),
-      t.batteryLevel ?? "",
-      t.voltage ?? "",
-      t.snr ?? "",
-      t.rssi ?? "",
+      `!${t.nodeId.toString(16)}`,
+      `"${getNodeLabel(t.nodeId).replace(/"/g, '""')}"`,
+      ...columns.map((c) => {
+        const value = t[c.key];
+        if (typeof value !== "number") return "";
+        return c.convert ? c.convert(value) : value;
+      }),
     ]);
 
     const csv = [
@@ -64,23 +402,33 @@ export default function TelemetryPanel({ telemetry, onRefresh, isConnected }: Pr
     const url = URL.createObjectURL(blob);
     const link = document.createElement("a");
     link.href = url;
-    link.download = `electastic-telemetry-${new Date()
+    const nodePart = selectedNodes.length === 1
+      ? `-${selectedNodes[0].toString(16)}`
+      : "";
+    link.download = `electastic-telemetry${nodePart}-${new Date()
       .toISOString()
       .slice(0, 10)}.csv`;
     link.click();
     URL.revokeObjectURL(url);
-  }, [telemetry]);
+  }, [points, charts, selectedNodes, getNodeLabel]);
+
+  const xDomain: [number, number] = [since, until ?? Math.max(Date.now(), loadedAt)];
+  const spanMs = xDomain[1] - xDomain[0];
+  const formatTick = (ms: number) =>
+    spanMs > 24 * 60 * 60_000
+      ? new Date(ms).toLocaleString([], { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" })
+      : new Date(ms).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
 
   return (
     <div className="space-y-6">
       <div className="flex justify-between items-center">
         <h2 className="text-xl font-semibold text-gray-200">Telemetry</h2>
         <div className="flex items-center gap-2">
-          {telemetry.length > 0 && (
+          {points.length > 0 && (
             <button
               onClick={handleExportCsv}
               className="flex items-center gap-1.5 px-3 py-1.5 bg-gray-700 hover:bg-gray-600 text-gray-300 text-sm font-medium rounded-lg transition-colors"
-              title="Export telemetry data as CSV"
+              title="Export the selected nodes and time range as CSV"
             >
               <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
                 <path strokeLinecap="round" strokeLinejoin="round" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
@@ -88,163 +436,358 @@ export default function TelemetryPanel({ telemetry, onRefresh, isConnected }: Pr
               Export CSV
             </button>
           )}
-          <RefreshButton onRefresh={onRefresh} disabled={!isConnected} minimumAnimationMs={3000} />
+          <RefreshButton onRefresh={handleRefresh} minimumAnimationMs={isConnected ? 3000 : 500} />
         </div>
       </div>
 
-      {telemetry.length === 0 ? (
+      {/* Time range */}
+      <div className="flex flex-wrap items-center gap-2">
+        {RANGE_OPTIONS.map((opt) => (
+          <button
+            key={opt.value}
+            onClick={() => setRange(opt.value)}
+            className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+              range === opt.value
+                ? "bg-green-600 text-white"
+                : "bg-gray-700 text-gray-300 hover:bg-gray-600"
+            }`}
+          >
+            {opt.label}
+          </button>
+        ))}
+        {range === "custom" && (
+          <div className="flex items-center gap-2 text-sm text-gray-400">
+            <input
+              type="datetime-local"
+              value={customFrom}
+              max={customTo}
+              onChange={(e) => e.target.value && setCustomFrom(e.target.value)}
+              className="px-2 py-1 bg-gray-700 rounded-lg text-gray-200 border border-gray-600 focus:border-green-500 focus:outline-none"
+            />
+            <span>to</span>
+            <input
+              type="datetime-local"
+              value={customTo}
+              min={customFrom}
+              onChange={(e) => e.target.value && setCustomTo(e.target.value)}
+              className="px-2 py-1 bg-gray-700 rounded-lg text-gray-200 border border-gray-600 focus:border-green-500 focus:outline-none"
+            />
+          </div>
+        )}
+      </div>
+
+      {/* Node selector */}
+      {reportingNodes.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <label className="text-sm text-gray-400">
+              Nodes{" "}
+              <span className="text-gray-600">
+                (select up to {MAX_SELECTED_NODES} to compare)
+              </span>
+            </label>
+            {selectedNodes.length > 1 && (
+              <button
+                onClick={() => setSelectedNodes(selectedNodes.slice(0, 1))}
+                className="text-xs text-gray-500 hover:text-gray-300"
+              >
+                Clear comparison
+              </button>
+            )}
+          </div>
+          <div className="flex flex-wrap gap-1.5 max-h-24 overflow-y-auto">
+            {reportingNodes.map((nodeId) => {
+              const index = selectedNodes.indexOf(nodeId);
+              const selected = index >= 0;
+              return (
+                <button
+                  key={nodeId}
+                  onClick={() => toggleNode(nodeId)}
+                  title={nodes.get(nodeId)?.long_name || `!${nodeId.toString(16)}`}
+                  className={`flex items-center gap-1.5 px-2.5 py-1 rounded-full text-xs font-medium transition-colors ${
+                    selected
+                      ? "bg-gray-600 text-gray-100"
+                      : "bg-gray-800 text-gray-400 hover:bg-gray-700"
+                  }`}
+                >
+                  <span
+                    className="w-2 h-2 rounded-full"
+                    style={{ background: selected ? NODE_COLORS[index] : "#4b5563" }}
+                  />
+                  {getNodeLabel(nodeId)}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {reportingNodes.length === 0 ? (
         <div className="text-center text-gray-500 py-12">
           No telemetry data yet. Connect to a device to see real-time metrics.
         </div>
+      ) : points.length === 0 ? (
+        <div className="text-center text-gray-500 py-12">
+          {loading
+            ? "Loading telemetry…"
+            : selectedNodes.length === 0
+            ? "Select a node to see its telemetry."
+            : "No telemetry for the selected nodes in this time range."}
+        </div>
       ) : (
         <>
-          {/* Battery / Voltage Chart */}
-          {hasBatteryData && (
-            <div className="bg-gray-800 rounded-lg p-4">
-              <h3 className="text-sm font-medium text-gray-400 mb-3">
-                Battery & Voltage
-              </h3>
-              <ResponsiveContainer width="100%" height={250}>
-                <LineChart data={chartData}>
-                  <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
-                  <XAxis
-                    dataKey="time"
-                    stroke="#6b7280"
-                    tick={{ fontSize: 11 }}
-                  />
-                  <YAxis
-                    yAxisId="battery"
-                    domain={[0, 100]}
-                    stroke="#3b82f6"
-                    tick={{ fontSize: 11 }}
-                    label={{
-                      value: "%",
-                      angle: -90,
-                      position: "insideLeft",
-                      style: { fill: "#3b82f6" },
-                    }}
-                  />
-                  <YAxis
-                    yAxisId="voltage"
-                    orientation="right"
-                    domain={[3.0, 4.5]}
-                    stroke="#8b5cf6"
-                    tick={{ fontSize: 11 }}
-                    label={{
-                      value: "V",
-                      angle: 90,
-                      position: "insideRight",
-                      style: { fill: "#8b5cf6" },
-                    }}
-                  />
-                  <Tooltip
-                    contentStyle={{
-                      background: "#1f2937",
-                      border: "1px solid #374151",
-                      borderRadius: "8px",
-                    }}
-                  />
-                  <Legend />
-                  <Line
-                    yAxisId="battery"
-                    type="monotone"
-                    dataKey="battery"
-                    name="Battery %"
-                    stroke="#3b82f6"
-                    strokeWidth={2}
-                    dot={false}
-                    connectNulls
-                  />
-                  <Line
-                    yAxisId="voltage"
-                    type="monotone"
-                    dataKey="voltage"
-                    name="Voltage"
-                    stroke="#8b5cf6"
-                    strokeWidth={2}
-                    dot={false}
-                    connectNulls
-                  />
-                </LineChart>
-              </ResponsiveContainer>
-            </div>
-          )}
-
-          {/* Signal Quality Chart */}
-          {hasSignalData && (
-            <div className="bg-gray-800 rounded-lg p-4">
-              <h3 className="text-sm font-medium text-gray-400 mb-3">
-                Signal Quality
-              </h3>
-              <ResponsiveContainer width="100%" height={250}>
-                <LineChart data={chartData}>
-                  <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
-                  <XAxis
-                    dataKey="time"
-                    stroke="#6b7280"
-                    tick={{ fontSize: 11 }}
-                  />
-                  <YAxis
-                    yAxisId="snr"
-                    stroke="#ef4444"
-                    tick={{ fontSize: 11 }}
-                    label={{
-                      value: "dB",
-                      angle: -90,
-                      position: "insideLeft",
-                      style: { fill: "#ef4444" },
-                    }}
-                  />
-                  <YAxis
-                    yAxisId="rssi"
-                    orientation="right"
-                    stroke="#f97316"
-                    tick={{ fontSize: 11 }}
-                    label={{
-                      value: "dBm",
-                      angle: 90,
-                      position: "insideRight",
-                      style: { fill: "#f97316" },
-                    }}
-                  />
-                  <Tooltip
-                    contentStyle={{
-                      background: "#1f2937",
-                      border: "1px solid #374151",
-                      borderRadius: "8px",
-                    }}
-                  />
-                  <Legend />
-                  <Line
-                    yAxisId="snr"
-                    type="monotone"
-                    dataKey="snr"
-                    name="SNR"
-                    stroke="#ef4444"
-                    strokeWidth={2}
-                    dot={false}
-                    connectNulls
-                  />
-                  <Line
-                    yAxisId="rssi"
-                    type="monotone"
-                    dataKey="rssi"
-                    name="RSSI"
-                    stroke="#f97316"
-                    strokeWidth={2}
-                    dot={false}
-                    connectNulls
-                  />
-                </LineChart>
-              </ResponsiveContainer>
-            </div>
-          )}
+          {charts.map((chart) => (
+            <TelemetryChart
+              key={chart.title}
+              title={chart.title}
+              pointsByNode={pointsByNode}
+              getNodeLabel={getNodeLabel}
+              xDomain={xDomain}
+              formatTick={formatTick}
+              axes={chart.axes}
+              series={chart.series}
+              bands={chart.bands}
+              note={chart.note}
+            />
+          ))}
 
           <div className="text-xs text-gray-600 text-center">
-            Showing last {telemetry.length} data points (max 50)
+            Showing {points.length} data points from {selectedNodes.length}{" "}
+            {selectedNodes.length === 1 ? "node" : "nodes"}
           </div>
         </>
       )}
+
+      <BusiestTalkers
+        stats={packetStats}
+        since={statsSince}
+        getNodeLabel={getNodeLabel}
+        onReset={onResetStats}
+        onSelectNode={(nodeId) =>
+          setSelectedNodes((prev) => (prev.includes(nodeId) ? prev : [nodeId]))
+        }
+      />
+    </div>
+  );
+}
+
+// ─── Chart with one line per node per series ────────────────────────
+// A single node keeps the per-metric colors. When comparing nodes each
+// node gets its own color and series on the right axis are drawn dashed.
+function TelemetryChart({
+  title,
+  pointsByNode,
+  getNodeLabel,
+  xDomain,
+  formatTick,
+  axes,
+  series,
+  bands,
+  note,
+}: {
+  title: string;
+  pointsByNode: Map<number, TelemetryPoint[]>;
+  getNodeLabel: (nodeId: number) => string;
+  xDomain: [number, number];
+  formatTick: (ms: number) => string;
+  axes: AxisDef[];
+  series: SeriesDef[];
+  bands?: BandDef[];
+  note?: string;
+}) {
+  const nodeIds = Array.from(pointsByNode.keys());
+  const comparing = nodeIds.length > 1;
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-4">
+      <h3 className="text-sm font-medium text-gray-400 mb-3">{title}</h3>
+      <ResponsiveContainer width="100%" height={250}>
+        <LineChart>
+          <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+          <XAxis
+            dataKey="timestamp"
+            type="number"
+            scale="time"
+            domain={xDomain}
+            tickFormatter={formatTick}
+            stroke="#6b7280"
+            tick={{ fontSize: 11 }}
+            allowDuplicatedCategory={false}
+          />
+          {axes.map((axis) => (
+            <YAxis
+              key={axis.id}
+              yAxisId={axis.id}
+              orientation={axis.orientation}
+              domain={axis.domain ?? ["auto", "auto"]}
+              stroke={axis.color}
+              tick={{ fontSize: 11 }}
+              label={{
+                value: axis.unit,
+                angle: axis.orientation === "left" ? -90 : 90,
+                position: axis.orientation === "left" ? "insideLeft" : "insideRight",
+                style: { fill: axis.color },
+              }}
+            />
+          ))}
+          <Tooltip
+            labelFormatter={(ms) => new Date(Number(ms)).toLocaleString()}
+            contentStyle={{
+              background: "#1f2937",
+              border: "1px solid #374151",
+              borderRadius: "8px",
+            }}
+          />
+          <Legend />
+          {bands?.map((band) => (
+            <ReferenceArea
+              key={`${band.yAxisId}-${band.y1}`}
+              yAxisId={band.yAxisId}
+              y1={band.y1}
+              y2={band.y2}
+              fill={band.color}
+              fillOpacity={0.08}
+              stroke="none"
+              label={{ value: band.label, position: "insideTopLeft", fill: band.color, fontSize: 10 }}
+              ifOverflow="hidden"
+            />
+          ))}
+          {nodeIds.flatMap((nodeId, nodeIndex) =>
+            series.map((s) => {
+              const data = pointsByNode.get(nodeId)!.filter((p) => p[s.key] !== undefined);
+              if (data.length === 0) return null;
+              return (
+                <Line
+                  key={`${nodeId}-${String(s.key)}`}
+                  data={data}
+                  yAxisId={s.yAxisId}
+                  type="monotone"
+                  dataKey={(p: TelemetryPoint) => {
+                    const value = p[s.key] as number;
+                    return s.convert ? s.convert(value) : value;
+                  }}
+                  name={comparing ? `${getNodeLabel(nodeId)} ${s.label}` : s.label}
+                  stroke={comparing ? NODE_COLORS[nodeIndex] : s.color}
+                  strokeDasharray={comparing && s.yAxisId !== axes[0].id ? "4 3" : undefined}
+                  strokeWidth={2}
+                  dot={false}
+                  connectNulls
+                  isAnimationActive={false}
+                />
+              );
+            })
+          )}
+        </LineChart>
+      </ResponsiveContainer>
+      {note && <p className="text-xs text-gray-500 mt-2">{note}</p>}
+    </div>
+  );
+}
+
+// ─── Busiest talkers (received packets per sender) ─────────────────
+function BusiestTalkers({
+  stats,
+  since,
+  getNodeLabel,
+  onReset,
+  onSelectNode,
+}: {
+  stats: Map<number, PacketStats>;
+  since: number;
+  getNodeLabel: (nodeId: number) => string;
+  onReset: () => void;
+  onSelectNode: (nodeId: number) => void;
+}) {
+  const rows = useMemo(
+    () => Array.from(stats.values()).sort((a, b) => b.packets - a.packets),
+    [stats]
+  );
+  const total = rows.reduce((sum, r) => sum + r.packets, 0);
+  const hours = Math.max((Date.now() - since) / 3_600_000, 1 / 60);
+
+  const topPort = (byPort: Record<number, number>) => {
+    let best = -1;
+    let bestCount = 0;
+    for (const [port, count] of Object.entries(byPort)) {
+      if (count > bestCount) {
+        best = Number(port);
+        bestCount = count;
+      }
+    }
+    return PORT_NAMES[best] ?? `Port ${best}`;
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-medium text-gray-400">
+          Busiest Talkers{" "}
+          <span className="text-gray-600">
+            ({total} packets since{" "}
+            {new Date(since).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })})
+          </span>
+        </h3>
+        {rows.length > 0 && (
+          <button
+            onClick={onReset}
+            className="text-xs text-gray-500 hover:text-gray-300"
+          >
+            Reset
+          </button>
+        )}
+      </div>
+      {rows.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          No packets received yet. Traffic is counted while connected.
+        </p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-gray-500 border-b border-gray-700">
+              <th className="py-1.5 font-medium">Node</th>
+              <th className="py-1.5 font-medium text-right">Packets</th>
+              <th className="py-1.5 font-medium text-right">Share</th>
+              <th className="py-1.5 font-medium text-right">Per hour</th>
+              <th className="py-1.5 font-medium text-right">Bytes</th>
+              <th className="py-1.5 font-medium pl-4">Mostly</th>
+              <th className="py-1.5 font-medium text-right">Last seen</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.slice(0, TOP_TALKERS).map((r) => {
+              const share = (r.packets / total) * 100;
+              return (
+                <tr
+                  key={r.nodeId}
+                  onClick={() => onSelectNode(r.nodeId)}
+                  className="border-b border-gray-700/50 last:border-0 hover:bg-gray-700/40 cursor-pointer text-gray-300"
+                  title="Show this node's telemetry"
+                >
+                  <td className="py-1.5">{getNodeLabel(r.nodeId)}</td>
+                  <td className="py-1.5 text-right font-mono">{r.packets}</td>
+                  <td className="py-1.5 text-right">
+                    <div className="flex items-center justify-end gap-2">
+                      <div className="w-16 h-1.5 bg-gray-700 rounded-full overflow-hidden">
+                        <div
+                          className={`h-full ${share > 30 ? "bg-red-500" : share > 15 ? "bg-yellow-500" : "bg-green-500"}`}
+                          style={{ width: `${share}%` }}
+                        />
+                      </div>
+                      <span className="font-mono w-10">{share.toFixed(0)}%</span>
+                    </div>
+                  </td>
+                  <td className="py-1.5 text-right font-mono">{(r.packets / hours).toFixed(1)}</td>
+                  <td className="py-1.5 text-right font-mono">{r.bytes}</td>
+                  <td className="py-1.5 pl-4 text-gray-400">{topPort(r.byPort)}</td>
+                  <td className="py-1.5 text-right text-gray-500">
+                    {new Date(r.lastSeen).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
     </div>
   );
 }
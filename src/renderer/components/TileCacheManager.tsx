@@ -0,0 +1,187 @@
+import { useCallback, useEffect, useState } from "react";
+import type { TileRegion } from "../lib/types";
+import {
+  DEFAULT_ONLINE_URL,
+  formatBytes,
+  loadTileSourceSettings,
+  saveTileSourceSettings,
+} from "../lib/tileSources";
+import ConfirmModal from "./ConfirmModal";
+import { useToast } from "./Toast";
+
+type CacheStats = { tileCount: number; bytes: number; regionCount: number };
+
+const STATUS_STYLES: Record<TileRegion["status"], string> = {
+  downloading: "text-blue-400",
+  complete: "text-green-400",
+  cancelled: "text-yellow-400",
+  failed: "text-red-400",
+};
+
+/** Offline map tile cache: size, tile server, downloaded regions */
+export default function TileCacheManager() {
+  const { addToast } = useToast();
+  const [stats, setStats] = useState<CacheStats | null>(null);
+  const [regions, setRegions] = useState<TileRegion[]>([]);
+  const [onlineUrl, setOnlineUrl] = useState(() => loadTileSourceSettings().onlineUrl);
+  const [confirmClear, setConfirmClear] = useState(false);
+
+  const refresh = useCallback(async () => {
+    try {
+      const [s, r] = await Promise.all([
+        window.electronAPI.tiles.stats(),
+        window.electronAPI.tiles.listRegions(),
+      ]);
+      setStats(s);
+      setRegions(r);
+    } catch (err) {
+      console.error("Failed to load tile cache info:", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Live progress for downloads started from the map; refresh totals when one ends
+  useEffect(() => {
+    return window.electronAPI.tiles.onProgress((p) => {
+      setRegions((prev) =>
+        prev.map((r) =>
+          r.id === p.regionId
+            ? { ...r, downloaded: p.done, failed: p.failed, status: p.status }
+            : r
+        )
+      );
+      if (p.status !== "downloading") refresh();
+    });
+  }, [refresh]);
+
+  const saveOnlineUrl = () => {
+    const url = onlineUrl.trim() || DEFAULT_ONLINE_URL;
+    if (!url.includes("{z}") || !url.includes("{x}") || !url.includes("{y}")) {
+      addToast("Tile URL must contain {z}, {x} and {y}", "error");
+      return;
+    }
+    setOnlineUrl(url);
+    saveTileSourceSettings({ ...loadTileSourceSettings(), onlineUrl: url });
+    addToast("Tile server saved — reopen the map to apply", "success");
+  };
+
+  const handleDelete = async (region: TileRegion) => {
+    try {
+      await window.electronAPI.tiles.deleteRegion(region.id);
+      await refresh();
+    } catch (err) {
+      addToast(
+        `Delete failed: ${err instanceof Error ? err.message : "Unknown error"}`,
+        "error"
+      );
+    }
+  };
+
+  const handleClear = async () => {
+    setConfirmClear(false);
+    try {
+      await window.electronAPI.tiles.clear();
+      await refresh();
+      addToast("Tile cache cleared", "success");
+    } catch (err) {
+      addToast(
+        `Clear failed: ${err instanceof Error ? err.message : "Unknown error"}`,
+        "error"
+      );
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-xs font-medium text-gray-400">Offline Map Cache</h3>
+
+      <div className="text-sm text-gray-300">
+        {stats
+          ? `${formatBytes(stats.bytes)} · ${stats.tileCount.toLocaleString()} tiles · ${stats.regionCount} regions`
+          : "Loading…"}
+      </div>
+
+      <div className="space-y-1">
+        <label className="text-xs text-gray-400">Tile Server URL</label>
+        <div className="flex gap-1.5">
+          <input
+            type="text"
+            value={onlineUrl}
+            onChange={(e) => setOnlineUrl(e.target.value)}
+            placeholder={DEFAULT_ONLINE_URL}
+            className="flex-1 min-w-0 px-3 py-1.5 bg-gray-700 rounded-lg text-sm text-gray-200 border border-gray-600 focus:border-green-500 focus:outline-none font-mono"
+          />
+          <button
+            onClick={saveOnlineUrl}
+            className="px-3 py-1.5 bg-gray-700 text-gray-300 hover:bg-gray-600 rounded-lg text-sm font-medium transition-colors"
+          >
+            Save
+          </button>
+        </div>
+        <p className="text-xs text-gray-500">
+          XYZ template such as {"http://localhost:8080/{z}/{x}/{y}.png"}. Tiles are cached per server.
+        </p>
+      </div>
+
+      {regions.length > 0 && (
+        <div className="space-y-1.5">
+          {regions.map((region) => (
+            <div
+              key={region.id}
+              className="flex items-start gap-2 bg-gray-800 border border-gray-700 rounded-lg px-3 py-2"
+            >
+              <div className="flex-1 min-w-0">
+                <div className="text-sm text-gray-200 truncate" title={region.urlTemplate}>
+                  {region.name}
+                </div>
+                <div className="text-xs text-gray-500">
+                  z{region.minZoom}–{region.maxZoom} ·{" "}
+                  {region.downloaded.toLocaleString()} / {region.tileCount.toLocaleString()} tiles
+                  {region.failed > 0 && ` · ${region.failed} failed`} ·{" "}
+                  <span className={STATUS_STYLES[region.status]}>{region.status}</span>
+                </div>
+              </div>
+              {region.status === "downloading" ? (
+                <button
+                  onClick={() => window.electronAPI.tiles.cancel(region.id)}
+                  className="text-xs text-gray-400 hover:text-yellow-400"
+                >
+                  Cancel
+                </button>
+              ) : (
+                <button
+                  onClick={() => handleDelete(region)}
+                  className="text-xs text-gray-400 hover:text-red-400"
+                >
+                  Delete
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <button
+        onClick={() => setConfirmClear(true)}
+        disabled={!stats || stats.tileCount === 0}
+        className="w-full px-3 py-2 bg-gray-700 text-gray-300 hover:bg-gray-600 rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+      >
+        Clear Tile Cache
+      </button>
+
+      {confirmClear && stats && (
+        <ConfirmModal
+          title="Clear Tile Cache"
+          message={`This will delete ${stats.tileCount.toLocaleString()} cached tiles (${formatBytes(stats.bytes)}) and all downloaded regions.`}
+          confirmLabel="Clear Cache"
+          danger
+          onConfirm={handleClear}
+          onCancel={() => setConfirmClear(false)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,209 @@
+import { useEffect, useState } from "react";
+import type { TileBounds, TileDownloadProgress } from "../lib/types";
+import { formatBytes } from "../lib/tileSources";
+import { useToast } from "./Toast";
+
+interface Props {
+  // Selected rectangle, or null while the user hasn't drawn one yet
+  bounds: TileBounds | null;
+  selecting: boolean;
+  urlTemplate: string;
+  currentZoom: number;
+  onSelectArea: () => void;
+  onClose: () => void;
+}
+
+const MAX_ZOOM = 19;
+
+type Estimate = { tileCount: number; estimatedBytes: number; maxTiles: number };
+
+/** Overlay form for pre-downloading the online map layer for an area */
+export default function TileDownloadPanel({
+  bounds,
+  selecting,
+  urlTemplate,
+  currentZoom,
+  onSelectArea,
+  onClose,
+}: Props) {
+  const { addToast } = useToast();
+  const [name, setName] = useState("");
+  const [minZoom, setMinZoom] = useState(Math.max(0, currentZoom - 2));
+  const [maxZoom, setMaxZoom] = useState(Math.min(MAX_ZOOM, currentZoom + 3));
+  const [estimate, setEstimate] = useState<Estimate | null>(null);
+  const [regionId, setRegionId] = useState<number | null>(null);
+  const [progress, setProgress] = useState<TileDownloadProgress | null>(null);
+
+  useEffect(() => {
+    if (!bounds) {
+      setEstimate(null);
+      return;
+    }
+    let stale = false;
+    window.electronAPI.tiles
+      .estimate(bounds, minZoom, maxZoom)
+      .then((result) => {
+        if (!stale) setEstimate(result);
+      })
+      .catch(() => {
+        if (!stale) setEstimate(null);
+      });
+    return () => {
+      stale = true;
+    };
+  }, [bounds, minZoom, maxZoom]);
+
+  useEffect(() => {
+    if (regionId === null) return;
+    return window.electronAPI.tiles.onProgress((p) => {
+      if (p.regionId !== regionId) return;
+      setProgress(p);
+      if (p.status === "complete") {
+        addToast(
+          p.failed > 0
+            ? `Download finished — ${p.failed} of ${p.total} tiles failed`
+            : `Downloaded ${p.total} tiles`,
+          p.failed > 0 ? "warning" : "success"
+        );
+      } else if (p.status === "failed") {
+        addToast("Tile download failed", "error");
+      }
+    });
+  }, [regionId, addToast]);
+
+  const downloading = progress?.status === "downloading" || (regionId !== null && !progress);
+  const tooMany = estimate !== null && estimate.tileCount > estimate.maxTiles;
+
+  const handleDownload = async () => {
+    if (!bounds) return;
+    try {
+      setProgress(null);
+      const id = await window.electronAPI.tiles.download({
+        ...bounds,
+        name: name.trim() || `Area ${new Date().toLocaleDateString()}`,
+        urlTemplate,
+        minZoom,
+        maxZoom,
+      });
+      setRegionId(id);
+    } catch (err) {
+      addToast(
+        `Download failed: ${err instanceof Error ? err.message : "Unknown error"}`,
+        "error"
+      );
+    }
+  };
+
+  const zoomOptions = Array.from({ length: MAX_ZOOM + 1 }, (_, z) => z);
+
+  return (
+    <div className="w-72 bg-gray-900/95 backdrop-blur-sm border border-gray-700 rounded-lg p-3 space-y-2 text-sm shadow-xl">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-gray-200">Download Area</h3>
+        <button onClick={onClose} className="text-gray-500 hover:text-gray-300 px-1" title="Close">
+          ×
+        </button>
+      </div>
+
+      {selecting ? (
+        <p className="text-xs text-gray-400">Drag on the map to draw a rectangle.</p>
+      ) : (
+        <button
+          onClick={onSelectArea}
+          disabled={downloading}
+          className="w-full px-3 py-1.5 bg-gray-700 hover:bg-gray-600 text-gray-300 rounded-lg text-xs font-medium transition-colors disabled:opacity-50"
+        >
+          {bounds ? "Redraw Area" : "Select Area"}
+        </button>
+      )}
+
+      {bounds && (
+        <>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Region name"
+            className="w-full px-3 py-1.5 bg-gray-700 rounded-lg text-sm text-gray-200 border border-gray-600 focus:border-green-500 focus:outline-none"
+          />
+          <div className="flex items-center gap-2 text-xs text-gray-400">
+            <label className="flex items-center gap-1">
+              Zoom
+              <select
+                value={minZoom}
+                onChange={(e) => {
+                  const z = Number(e.target.value);
+                  setMinZoom(z);
+                  if (z > maxZoom) setMaxZoom(z);
+                }}
+                className="bg-gray-700 border border-gray-600 rounded px-1 py-0.5 text-gray-200"
+              >
+                {zoomOptions.map((z) => (
+                  <option key={z} value={z}>{z}</option>
+                ))}
+              </select>
+            </label>
+            <span>to</span>
+            <select
+              value={maxZoom}
+              onChange={(e) => {
+                const z = Number(e.target.value);
+                setMaxZoom(z);
+                if (z < minZoom) setMinZoom(z);
+              }}
+              className="bg-gray-700 border border-gray-600 rounded px-1 py-0.5 text-gray-200"
+            >
+              {zoomOptions.map((z) => (
+                <option key={z} value={z}>{z}</option>
+              ))}
+            </select>
+          </div>
+
+          {estimate && (
+            <div className={`text-xs ${tooMany ? "text-red-400" : "text-gray-400"}`}>
+              ~{estimate.tileCount.toLocaleString()} tiles · ~{formatBytes(estimate.estimatedBytes)}
+              {tooMany && ` — limit is ${estimate.maxTiles.toLocaleString()}`}
+            </div>
+          )}
+
+          {progress && (
+            <div className="space-y-1">
+              <div className="h-1.5 bg-gray-700 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-green-600 transition-all"
+                  style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%` }}
+                />
+              </div>
+              <div className="text-xs text-gray-500">
+                {progress.done.toLocaleString()} / {progress.total.toLocaleString()}
+                {progress.failed > 0 && ` · ${progress.failed} failed`}
+                {progress.status !== "downloading" && ` · ${progress.status}`}
+              </div>
+            </div>
+          )}
+
+          {downloading && regionId !== null ? (
+            <button
+              onClick={() => window.electronAPI.tiles.cancel(regionId)}
+              className="w-full px-3 py-1.5 bg-red-900/50 hover:bg-red-900/70 text-red-300 rounded-lg text-xs font-medium transition-colors"
+            >
+              Cancel Download
+            </button>
+          ) : (
+            <button
+              onClick={handleDownload}
+              disabled={!estimate || tooMany || selecting}
+              className="w-full px-3 py-1.5 bg-green-600 hover:bg-green-500 text-white rounded-lg text-xs font-medium transition-colors disabled:opacity-50"
+            >
+              Download
+            </button>
+          )}
+        </>
+      )}
+
+      <p className="text-xs text-gray-500">
+        Cached tiles are used before the network. Manage them under Settings.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+import { useState } from "react";
+import type { MbtilesInfo } from "../lib/types";
+import { DEFAULT_ONLINE_URL, type TileSourceSettings } from "../lib/tileSources";
+import type { OverlaySetting } from "../lib/geoFormats";
+
+interface Props {
+  settings: TileSourceSettings;
+  sources: Map<string, MbtilesInfo>;
+  // Paths from settings that could not be opened (moved or deleted files)
+  missing: Map<string, string>;
+  onChange: (settings: TileSourceSettings) => void;
+  onAdd: () => Promise<void>;
+  // Imported GPX/KML/GeoJSON overlays and the ones that failed to load
+  overlays: OverlaySetting[];
+  overlayErrors: Map<string, string>;
+  onOverlaysChange: (overlays: OverlaySetting[]) => void;
+  onImportOverlays: () => Promise<void>;
+}
+
+/** Dropdown for choosing which map tile layers are shown */
+export default function TileSourcePicker({
+  settings,
+  sources,
+  missing,
+  onChange,
+  onAdd,
+  overlays,
+  overlayErrors,
+  onOverlaysChange,
+  onImportOverlays,
+}: Props) {
+  const [open, setOpen] = useState(false);
+  const infoByPath = new Map(Array.from(sources.values()).map((s) => [s.path, s]));
+
+  const toggleMbtiles = (filePath: string) => {
+    onChange({
+      ...settings,
+      mbtiles: settings.mbtiles.map((m) =>
+        m.path === filePath ? { ...m, enabled: !m.enabled } : m
+      ),
+    });
+  };
+
+  const removeMbtiles = (filePath: string) => {
+    onChange({
+      ...settings,
+      mbtiles: settings.mbtiles.filter((m) => m.path !== filePath),
+    });
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="bg-gray-900/80 backdrop-blur-sm rounded-lg px-3 py-1.5 flex items-center gap-1.5 text-xs text-gray-300 border border-gray-700 hover:bg-gray-800"
+        title="Map tile sources"
+      >
+        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+          <path strokeLinecap="round" strokeLinejoin="round" d="M9 20l-5.447-2.724A1 1 0 013 16.382V5.618a1 1 0 011.447-.894L9 7m0 13l6-3m-6 3V7m6 10l4.553 2.276A1 1 0 0021 18.382V7.618a1 1 0 00-.553-.894L15 4m0 13V4m0 0L9 7" />
+        </svg>
+        Layers
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-72 bg-gray-900/95 backdrop-blur-sm border border-gray-700 rounded-lg p-3 space-y-2 text-sm shadow-xl">
+          <label className="flex items-center gap-2 text-gray-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.osmEnabled}
+              onChange={() => onChange({ ...settings, osmEnabled: !settings.osmEnabled })}
+              className="accent-green-500"
+            />
+            {settings.onlineUrl === DEFAULT_ONLINE_URL ? "OpenStreetMap" : "Online tiles"}
+            <span className="text-xs text-gray-500">(cached)</span>
+          </label>
+
+          {settings.mbtiles.length > 0 && (
+            <div className="border-t border-gray-700 pt-2 space-y-1.5">
+              {settings.mbtiles.map((m) => {
+                const info = infoByPath.get(m.path);
+                const error = missing.get(m.path);
+                const fileName = m.path.split(/[\\/]/).pop();
+                return (
+                  <div key={m.path} className="flex items-start gap-2">
+                    <input
+                      type="checkbox"
+                      checked={m.enabled}
+                      disabled={!info}
+                      onChange={() => toggleMbtiles(m.path)}
+                      className="accent-green-500 mt-1"
+                    />
+                    <div className="flex-1 min-w-0">
+                      <div className="text-gray-300 truncate" title={m.path}>
+                        {info?.name ?? fileName}
+                      </div>
+                      <div className={`text-xs truncate ${error ? "text-red-400" : "text-gray-500"}`} title={error}>
+                        {error
+                          ? error
+                          : info
+                          ? `z${info.minZoom}–${info.maxZoom} · ${info.format}`
+                          : "Opening…"}
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => removeMbtiles(m.path)}
+                      className="text-gray-500 hover:text-red-400 px-1"
+                      title="Remove"
+                    >
+                      ×
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          <button
+            onClick={() => onAdd()}
+            className="w-full mt-1 px-3 py-1.5 bg-gray-700 hover:bg-gray-600 text-gray-300 rounded-lg text-xs font-medium transition-colors"
+          >
+            Add MBTiles…
+          </button>
+          <p className="text-xs text-gray-500">
+            Offline raster tiles are drawn above the online layer where they have coverage.
+          </p>
+
+          <div className="border-t border-gray-700 pt-2 space-y-1.5">
+            <div className="text-xs font-medium text-gray-400">Overlays</div>
+            {overlays.map((o) => {
+              const error = overlayErrors.get(o.path);
+              return (
+                <div key={o.path} className="flex items-start gap-2">
+                  <input
+                    type="checkbox"
+                    checked={o.enabled}
+                    disabled={!!error}
+                    onChange={() =>
+                      onOverlaysChange(
+                        overlays.map((x) => (x.path === o.path ? { ...x, enabled: !x.enabled } : x))
+                      )
+                    }
+                    className="accent-green-500 mt-1"
+                  />
+                  <div className="flex-1 min-w-0">
+                    <div className="text-gray-300 truncate" title={o.path}>
+                      {o.path.split(/[\\/]/).pop()}
+                    </div>
+                    {error && (
+                      <div className="text-xs text-red-400 truncate" title={error}>
+                        {error}
+                      </div>
+                    )}
+                  </div>
+                  <button
+                    onClick={() => onOverlaysChange(overlays.filter((x) => x.path !== o.path))}
+                    className="text-gray-500 hover:text-red-400 px-1"
+                    title="Remove"
+                  >
+                    ×
+                  </button>
+                </div>
+              );
+            })}
+            <button
+              onClick={() => onImportOverlays()}
+              className="w-full px-3 py-1.5 bg-gray-700 hover:bg-gray-600 text-gray-300 rounded-lg text-xs font-medium transition-colors"
+            >
+              Import GPX / KML / GeoJSON…
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
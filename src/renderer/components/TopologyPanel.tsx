@@ -0,0 +1,369 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import type { MeshLink, MeshNode } from "../lib/types";
+import {
+  LAYOUT_ALPHA_DECAY,
+  LAYOUT_MIN_ALPHA,
+  stepLayout,
+  syncLayoutNodes,
+  type LayoutEdge,
+  type LayoutNode,
+} from "../lib/forceLayout";
+import { getNodeStatus } from "../lib/nodeStatus";
+
+interface Props {
+  nodes: Map<number, MeshNode>;
+  links: Map<string, MeshLink>;
+  myNodeNum: number;
+  onNodeClick: (nodeNum: number) => void;
+}
+
+const RANGE_OPTIONS = [
+  { label: "1h", ms: 60 * 60 * 1000 },
+  { label: "24h", ms: 24 * 60 * 60 * 1000 },
+  { label: "7d", ms: 7 * 24 * 60 * 60 * 1000 },
+  { label: "All", ms: 0 },
+];
+
+// SNR thresholds (dB) for edge colors, best first
+const LINK_QUALITY = [
+  { min: 5, color: "#22c55e", label: "Good (≥ 5 dB)" },
+  { min: 0, color: "#eab308", label: "Fair (0 – 5 dB)" },
+  { min: -10, color: "#f97316", label: "Weak (-10 – 0 dB)" },
+  { min: -Infinity, color: "#ef4444", label: "Poor (< -10 dB)" },
+];
+const UNKNOWN_LINK_COLOR = "#6b7280";
+
+const NODE_RADIUS = 14;
+
+function linkColor(snr: number | null): string {
+  if (snr === null) return UNKNOWN_LINK_COLOR;
+  return LINK_QUALITY.find((q) => snr >= q.min)!.color;
+}
+
+/** Both directions of a link between two nodes */
+interface GraphEdge extends LayoutEdge {
+  key: string;
+  // SNR as heard by target from source, and the reverse
+  forward: MeshLink | null;
+  reverse: MeshLink | null;
+  snr: number | null;
+  lastSeen: number;
+}
+
+function buildEdges(links: Map<string, MeshLink>, since: number): GraphEdge[] {
+  const edges = new Map<string, GraphEdge>();
+  for (const link of links.values()) {
+    if (link.lastSeen < since || link.from === link.to) continue;
+    const [source, target] = link.from < link.to ? [link.from, link.to] : [link.to, link.from];
+    const key = `${source}-${target}`;
+    const edge = edges.get(key) ?? {
+      key,
+      source,
+      target,
+      forward: null,
+      reverse: null,
+      snr: null,
+      lastSeen: 0,
+    };
+    if (link.from === source) edge.forward = link;
+    else edge.reverse = link;
+    edge.lastSeen = Math.max(edge.lastSeen, link.lastSeen);
+    edges.set(key, edge);
+  }
+  // Color by the weaker known direction — that's what limits the link
+  for (const edge of edges.values()) {
+    const known = [edge.forward?.snr, edge.reverse?.snr].filter(
+      (v): v is number => typeof v === "number"
+    );
+    edge.snr = known.length > 0 ? Math.min(...known) : null;
+  }
+  return Array.from(edges.values());
+}
+
+function formatAge(ts: number): string {
+  const diff = Date.now() - ts;
+  if (diff < 60_000) return "just now";
+  if (diff < 3_600_000) return `${Math.floor(diff / 60_000)}m ago`;
+  if (diff < 86_400_000) return `${Math.floor(diff / 3_600_000)}h ago`;
+  return new Date(ts).toLocaleDateString();
+}
+
+export default function TopologyPanel({ nodes, links, myNodeNum, onNodeClick }: Props) {
+  const [rangeMs, setRangeMs] = useState(RANGE_OPTIONS[1].ms);
+  const [hoveredEdge, setHoveredEdge] = useState<GraphEdge | null>(null);
+  // Pan/zoom of the viewport; graph coordinates are centered on 0,0
+  const [view, setView] = useState({ x: 0, y: 0, scale: 1 });
+  const [size, setSize] = useState({ width: 800, height: 600 });
+  // Bumped every animation frame so positions re-render
+  const [, setFrame] = useState(0);
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  const layoutRef = useRef<Map<number, LayoutNode>>(new Map());
+  const alphaRef = useRef(1);
+  const rafRef = useRef<number | null>(null);
+  const dragRef = useRef<
+    | { kind: "node"; id: number; moved: boolean }
+    | { kind: "pan"; startX: number; startY: number; viewX: number; viewY: number }
+    | null
+  >(null);
+
+  // Window start is taken when links or the range change, not every frame
+  const edges = useMemo(
+    () => buildEdges(links, rangeMs ? Date.now() - rangeMs : 0),
+    [links, rangeMs]
+  );
+  const nodeIds = useMemo(() => {
+    const ids = new Set<number>();
+    for (const e of edges) {
+      ids.add(e.source);
+      ids.add(e.target);
+    }
+    if (myNodeNum) ids.add(myNodeNum);
+    return Array.from(ids);
+  }, [edges, myNodeNum]);
+
+  const startSimulation = (alpha: number) => {
+    alphaRef.current = Math.max(alphaRef.current, alpha);
+    if (rafRef.current !== null) return;
+    const tick = () => {
+      stepLayout(layoutRef.current, edges, alphaRef.current);
+      alphaRef.current *= LAYOUT_ALPHA_DECAY;
+      setFrame((f) => f + 1);
+      rafRef.current = alphaRef.current > LAYOUT_MIN_ALPHA ? requestAnimationFrame(tick) : null;
+    };
+    rafRef.current = requestAnimationFrame(tick);
+  };
+
+  // Re-run the simulation when the graph changes
+  useEffect(() => {
+    const changed = syncLayoutNodes(layoutRef.current, nodeIds);
+    startSimulation(changed ? 1 : 0.3);
+    return () => {
+      if (rafRef.current !== null) cancelAnimationFrame(rafRef.current);
+      rafRef.current = null;
+    };
+  }, [nodeIds, edges]);
+
+  // Track the container size for the SVG viewport
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  /** Convert a mouse event to graph coordinates */
+  const toGraph = (e: React.MouseEvent) => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left - size.width / 2 - view.x) / view.scale,
+      y: (e.clientY - rect.top - size.height / 2 - view.y) / view.scale,
+    };
+  };
+
+  const handleMouseMove = (e: React.MouseEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    if (drag.kind === "pan") {
+      setView((v) => ({
+        ...v,
+        x: drag.viewX + e.clientX - drag.startX,
+        y: drag.viewY + e.clientY - drag.startY,
+      }));
+      return;
+    }
+    const node = layoutRef.current.get(drag.id);
+    if (!node) return;
+    const p = toGraph(e);
+    node.x = p.x;
+    node.y = p.y;
+    drag.moved = true;
+    startSimulation(0.3);
+  };
+
+  const handleMouseUp = () => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (drag?.kind !== "node") return;
+    const node = layoutRef.current.get(drag.id);
+    if (node) node.fixed = false;
+    if (!drag.moved) onNodeClick(drag.id);
+  };
+
+  const handleWheel = (e: React.WheelEvent) => {
+    const factor = e.deltaY < 0 ? 1.1 : 1 / 1.1;
+    setView((v) => ({ ...v, scale: Math.min(4, Math.max(0.25, v.scale * factor)) }));
+  };
+
+  const getLabel = (id: number) => {
+    const node = nodes.get(id);
+    return node?.short_name || `!${id.toString(16).slice(-4)}`;
+  };
+
+  const getLongLabel = (id: number) => nodes.get(id)?.long_name || `!${id.toString(16)}`;
+
+  const layout = layoutRef.current;
+
+  return (
+    <div className="h-full flex flex-col gap-3">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-semibold text-gray-200">Topology</h2>
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-gray-500">
+            {nodeIds.length} nodes · {edges.length} links
+          </span>
+          {RANGE_OPTIONS.map((opt) => (
+            <button
+              key={opt.label}
+              onClick={() => setRangeMs(opt.ms)}
+              className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+                rangeMs === opt.ms
+                  ? "bg-green-600 text-white"
+                  : "bg-gray-700 text-gray-300 hover:bg-gray-600"
+              }`}
+            >
+              {opt.label}
+            </button>
+          ))}
+          <button
+            onClick={() => {
+              setView({ x: 0, y: 0, scale: 1 });
+              startSimulation(0.5);
+            }}
+            className="px-3 py-1.5 bg-gray-700 hover:bg-gray-600 text-gray-300 text-sm font-medium rounded-lg transition-colors"
+          >
+            Re-center
+          </button>
+        </div>
+      </div>
+
+      <div
+        ref={containerRef}
+        className="flex-1 min-h-[400px] relative bg-gray-800/50 border border-gray-700 rounded-lg overflow-hidden select-none"
+        onMouseMove={handleMouseMove}
+        onMouseUp={handleMouseUp}
+        onMouseLeave={handleMouseUp}
+        onWheel={handleWheel}
+        onMouseDown={(e) => {
+          dragRef.current = {
+            kind: "pan",
+            startX: e.clientX,
+            startY: e.clientY,
+            viewX: view.x,
+            viewY: view.y,
+          };
+        }}
+      >
+        <svg width={size.width} height={size.height} className="block">
+          <g
+            transform={`translate(${size.width / 2 + view.x},${size.height / 2 + view.y}) scale(${view.scale})`}
+          >
+            {edges.map((edge) => {
+              const a = layout.get(edge.source);
+              const b = layout.get(edge.target);
+              if (!a || !b) return null;
+              return (
+                <line
+                  key={edge.key}
+                  x1={a.x}
+                  y1={a.y}
+                  x2={b.x}
+                  y2={b.y}
+                  stroke={linkColor(edge.snr)}
+                  strokeWidth={hoveredEdge?.key === edge.key ? 5 : 3}
+                  strokeOpacity={0.85}
+                  onMouseEnter={() => setHoveredEdge(edge)}
+                  onMouseLeave={() => setHoveredEdge(null)}
+                />
+              );
+            })}
+            {nodeIds.map((id) => {
+              const p = layout.get(id);
+              if (!p) return null;
+              const node = nodes.get(id);
+              const isSelf = id === myNodeNum;
+              const status = node ? getNodeStatus(node.last_heard) : "offline";
+              return (
+                <g
+                  key={id}
+                  transform={`translate(${p.x},${p.y})`}
+                  className="cursor-pointer"
+                  onMouseDown={(e) => {
+                    e.stopPropagation();
+                    p.fixed = true;
+                    dragRef.current = { kind: "node", id, moved: false };
+                  }}
+                >
+                  <title>{getLongLabel(id)}</title>
+                  <circle
+                    r={NODE_RADIUS}
+                    fill={isSelf ? "#166534" : "#1f2937"}
+                    stroke={
+                      status === "online" ? "#22c55e" : status === "stale" ? "#eab308" : "#6b7280"
+                    }
+                    strokeWidth={isSelf ? 3 : 2}
+                  />
+                  <text
+                    textAnchor="middle"
+                    dy="0.35em"
+                    fontSize={9}
+                    fill="#e5e7eb"
+                    pointerEvents="none"
+                  >
+                    {getLabel(id).slice(0, 4)}
+                  </text>
+                </g>
+              );
+            })}
+          </g>
+        </svg>
+
+        {edges.length === 0 && (
+          <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+            <div className="bg-gray-900/80 px-4 py-2 rounded-lg text-gray-400 text-sm text-center">
+              No links heard in this time range.
+              <br />
+              Links come from neighbor info broadcasts and traceroutes.
+            </div>
+          </div>
+        )}
+
+        {/* Hovered link details */}
+        {hoveredEdge && (
+          <div className="absolute top-3 left-3 bg-gray-900/90 border border-gray-700 rounded-lg px-3 py-2 text-xs text-gray-300 space-y-0.5">
+            <div className="font-medium text-gray-200">
+              {getLongLabel(hoveredEdge.source)} ↔ {getLongLabel(hoveredEdge.target)}
+            </div>
+            {[hoveredEdge.forward, hoveredEdge.reverse].map(
+              (link) =>
+                link && (
+                  <div key={`${link.from}-${link.to}`}>
+                    {getLabel(link.to)} hears {getLabel(link.from)}:{" "}
+                    {link.snr !== null ? `${link.snr.toFixed(2)} dB` : "SNR unknown"} ·{" "}
+                    {formatAge(link.lastSeen)} ({link.source})
+                  </div>
+                )
+            )}
+          </div>
+        )}
+
+        {/* Legend */}
+        <div className="absolute bottom-3 right-3 bg-gray-900/80 border border-gray-700 rounded-lg px-3 py-2 text-xs text-gray-400 space-y-1">
+          {LINK_QUALITY.map((q) => (
+            <div key={q.label} className="flex items-center gap-2">
+              <span className="w-4 h-0.5 inline-block" style={{ background: q.color }} />
+              {q.label}
+            </div>
+          ))}
+          <div className="flex items-center gap-2">
+            <span className="w-4 h-0.5 inline-block" style={{ background: UNKNOWN_LINK_COLOR }} />
+            Unknown SNR
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+import { useState } from "react";
+import type { Waypoint } from "../lib/types";
+
+// Firmware limits for the Waypoint protobuf strings
+const MAX_NAME_LENGTH = 30;
+const MAX_DESCRIPTION_LENGTH = 100;
+
+const ICON_CHOICES = ["📍", "🏠", "⛺", "🚗", "🚩", "⚠️", "💧", "🏥", "⛽", "📡"];
+
+const EXPIRY_CHOICES = [
+  { label: "Never", ms: 0 },
+  { label: "1 hour", ms: 60 * 60 * 1000 },
+  { label: "8 hours", ms: 8 * 60 * 60 * 1000 },
+  { label: "24 hours", ms: 24 * 60 * 60 * 1000 },
+  { label: "7 days", ms: 7 * 24 * 60 * 60 * 1000 },
+];
+// Select value meaning "leave the current expiry alone" when editing
+const KEEP_EXPIRY = -1;
+
+export type WaypointInput = Omit<Waypoint, "id" | "from" | "channel" | "updatedAt"> & {
+  id?: number;
+};
+
+interface Props {
+  // Existing waypoint to edit, or a position for a new one
+  waypoint: Waypoint | { latitude: number; longitude: number };
+  channels: Array<{ index: number; name: string }>;
+  myNodeNum: number;
+  onSave: (input: WaypointInput, channel: number) => Promise<void>;
+  onCancel: () => void;
+}
+
+/** Modal form for creating or editing a shared waypoint */
+export default function WaypointEditor({ waypoint, channels, myNodeNum, onSave, onCancel }: Props) {
+  const existing = "id" in waypoint ? waypoint : null;
+  const [name, setName] = useState(existing?.name ?? "");
+  const [description, setDescription] = useState(existing?.description ?? "");
+  const [icon, setIcon] = useState(
+    existing?.icon ? String.fromCodePoint(existing.icon) : ICON_CHOICES[0]
+  );
+  const [expiry, setExpiry] = useState(existing?.expire ? KEEP_EXPIRY : 0);
+  const [locked, setLocked] = useState(!!existing?.lockedTo);
+  const [channel, setChannel] = useState(existing?.channel ?? 0);
+  const [saving, setSaving] = useState(false);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await onSave(
+        {
+          id: existing?.id,
+          latitude: waypoint.latitude,
+          longitude: waypoint.longitude,
+          name: name.trim(),
+          description: description.trim(),
+          icon: icon.codePointAt(0),
+          lockedTo: locked ? myNodeNum : undefined,
+          expire:
+            expiry === KEEP_EXPIRY ? existing?.expire : expiry ? Date.now() + expiry : undefined,
+        },
+        channel
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[2000] flex items-center justify-center">
+      <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={onCancel} />
+      <div className="relative bg-gray-800 border border-gray-600 rounded-xl shadow-2xl max-w-sm w-full mx-4 p-6 space-y-3">
+        <h3 className="text-lg font-semibold text-gray-200">
+          {existing ? "Edit Waypoint" : "New Waypoint"}
+        </h3>
+        <div className="text-xs text-gray-500">
+          {waypoint.latitude.toFixed(5)}, {waypoint.longitude.toFixed(5)}
+        </div>
+
+        <div className="flex flex-wrap gap-1">
+          {ICON_CHOICES.map((choice) => (
+            <button
+              key={choice}
+              onClick={() => setIcon(choice)}
+              className={`w-8 h-8 rounded-lg text-lg ${
+                icon === choice ? "bg-green-700" : "bg-gray-700 hover:bg-gray-600"
+              }`}
+            >
+              {choice}
+            </button>
+          ))}
+          <input
+            type="text"
+            value={ICON_CHOICES.includes(icon) ? "" : icon}
+            onChange={(e) => {
+              const [first] = Array.from(e.target.value);
+              if (first) setIcon(first);
+            }}
+            placeholder="Other"
+            className="w-16 px-2 py-1 bg-gray-700 rounded-lg text-sm text-gray-200 border border-gray-600 focus:border-green-500 focus:outline-none"
+          />
+        </div>
+
+        <input
+          type="text"
+          value={name}
+          maxLength={MAX_NAME_LENGTH}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Name"
+          className="w-full px-3 py-1.5 bg-gray-700 rounded-lg text-sm text-gray-200 border border-gray-600 focus:border-green-500 focus:outline-none"
+        />
+        <textarea
+          value={description}
+          maxLength={MAX_DESCRIPTION_LENGTH}
+          onChange={(e) => setDescription(e.target.value)}
+          placeholder="Description"
+          rows={2}
+          className="w-full px-3 py-1.5 bg-gray-700 rounded-lg text-sm text-gray-200 border border-gray-600 focus:border-green-500 focus:outline-none resize-none"
+        />
+
+        <div className="grid grid-cols-2 gap-2 text-xs text-gray-400">
+          <label className="space-y-1">
+            <span>Expires</span>
+            <select
+              value={expiry}
+              onChange={(e) => setExpiry(Number(e.target.value))}
+              className="w-full bg-gray-700 border border-gray-600 rounded-lg px-2 py-1.5 text-sm text-gray-200"
+            >
+              {existing?.expire !== undefined && (
+                <option value={KEEP_EXPIRY}>
+                  {new Date(existing.expire).toLocaleString()}
+                </option>
+              )}
+              {EXPIRY_CHOICES.map((c) => (
+                <option key={c.ms} value={c.ms}>{c.label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="space-y-1">
+            <span>Channel</span>
+            <select
+              value={channel}
+              onChange={(e) => setChannel(Number(e.target.value))}
+              className="w-full bg-gray-700 border border-gray-600 rounded-lg px-2 py-1.5 text-sm text-gray-200"
+            >
+              {channels.map((c) => (
+                <option key={c.index} value={c.index}>{c.name}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={locked}
+            onChange={() => setLocked(!locked)}
+            className="accent-green-500"
+          />
+          Only my node can edit or delete
+        </label>
+
+        <div className="flex gap-3 pt-2">
+          <button
+            onClick={onCancel}
+            className="flex-1 px-4 py-2.5 bg-gray-700 hover:bg-gray-600 text-gray-300 font-medium rounded-lg transition-colors text-sm"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving || !name.trim()}
+            className="flex-1 px-4 py-2.5 bg-green-600 hover:bg-green-500 text-white font-medium rounded-lg transition-colors text-sm disabled:opacity-50"
+          >
+            {saving ? "Sending…" : existing ? "Update & Send" : "Send"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+import { useState } from "react";
+
+// Unsaved edits per config section, layered over the snapshot the device
+// reported. Used by the device and module config editors.
+
+type SectionValues = Record<string, unknown>;
+
+function sameValue(a: unknown, b: unknown): boolean {
+  if (ArrayBuffer.isView(a) || Array.isArray(a)) {
+    if (!ArrayBuffer.isView(b) && !Array.isArray(b)) return false;
+    const x = Array.from(a as ArrayLike<unknown>);
+    const y = Array.from(b as ArrayLike<unknown>);
+    return x.length === y.length && x.every((v, i) => sameValue(v, y[i]));
+  }
+  // Nested messages such as network.ipv4Config
+  if (a && b && typeof a === "object" && typeof b === "object") {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    return Array.from(keys).every((k) =>
+      sameValue((a as SectionValues)[k], (b as SectionValues)[k])
+    );
+  }
+  return Object.is(a, b);
+}
+
+export function useConfigDraft<S extends string>(snapshot: object) {
+  const [edits, setEdits] = useState<Partial<Record<S, SectionValues>>>({});
+
+  const reported = (section: S) =>
+    (snapshot as Record<string, unknown>)[section] as SectionValues | undefined;
+
+  const field = <T,>(section: S, key: string, fallback: T): T => {
+    const edited = edits[section];
+    if (edited && key in edited) return edited[key] as T;
+    return (reported(section)?.[key] as T | undefined) ?? fallback;
+  };
+
+  const setField = (section: S, key: string, value: unknown) => {
+    setEdits((prev) => {
+      const next: SectionValues = { ...prev[section] };
+      // Editing a field back to the device's value clears it
+      if (sameValue(reported(section)?.[key], value)) delete next[key];
+      else next[key] = value;
+      return { ...prev, [section]: next };
+    });
+  };
+
+  const isDirty = (section: S, key: string) => !!edits[section] && key in edits[section]!;
+  const dirtyCount = (section: S) => Object.keys(edits[section] ?? {}).length;
+
+  const revert = (section: S) => setEdits((prev) => ({ ...prev, [section]: {} }));
+  const revertAll = () => setEdits({});
+
+  /** Sections with unsaved edits, in the order they were first edited */
+  const dirtySections = () => (Object.keys(edits) as S[]).filter((s) => dirtyCount(s) > 0);
+
+  /** Edited fields of a section next to the values the device reported */
+  const changes = (section: S) =>
+    Object.entries(edits[section] ?? {}).map(([key, next]) => ({
+      key,
+      current: reported(section)?.[key],
+      next,
+    }));
+
+  /** Full section as it would be written: reported values plus edits */
+  const merged = (section: S): SectionValues | undefined => {
+    const base = reported(section);
+    return base && { ...base, ...edits[section] };
+  };
+
+  return {
+    field,
+    setField,
+    isDirty,
+    dirtyCount,
+    revert,
+    revertAll,
+    dirtySections,
+    changes,
+    merged,
+    reported,
+  };
+}
+
+export type ConfigDraft<S extends string> = ReturnType<typeof useConfigDraft<S>>;
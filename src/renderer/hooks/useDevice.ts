@@ -1,15 +1,51 @@
-import { useState, useCallback, useRef, useEffect } from "react";
+import { useState, useCallback, useRef, useEffect, useMemo } from "react";
 import type { MeshDevice } from "@meshtastic/core";
+import { create } from "@bufbuild/protobuf";
+import { Admin, CannedMessages, LocalOnly, Mesh } from "@meshtastic/protobufs";
 import { createConnection, reconnectBle, safeDisconnect } from "../lib/connection";
+import { TransportTCP } from "../lib/tcpTransport";
+import { TransportSimulated } from "../lib/simulator";
+import { mergeMessages, messageCursor } from "../lib/messageHistory";
+import { MAX_MESSAGE_PARTS, splitMessage } from "../lib/messageParts";
+import type { ConfigRestore } from "../lib/configBackup";
+import { loadRetryPolicy, retryDelay, shouldRetry } from "../lib/retryPolicy";
 import type {
   ConnectionType,
   DeviceState,
   ChatMessage,
   MeshNode,
   TelemetryPoint,
+  DisplayUnits,
+  PacketStats,
+  Waypoint,
+  TraceRouteResult,
+  MeshLink,
+  MessageConversation,
+  MessageCursor,
+  QueuedMessage,
 } from "../lib/types";
 
 const MAX_TELEMETRY_POINTS = 50;
+const MESSAGE_PAGE_SIZE = 100;
+// Signal samples come with every packet; persist at most one per node per minute
+const SIGNAL_SAMPLE_INTERVAL_MS = 60_000;
+const DISPLAY_UNITS_KEY = "electastic:displayUnits";
+const WAYPOINT_PRUNE_INTERVAL_MS = 60_000;
+const MAX_SESSION_TRACEROUTES = 20;
+// RouteDiscovery SNR values are dB × 4; INT8_MIN marks an unknown hop
+const TRACEROUTE_SNR_UNKNOWN = -128;
+
+// Telemetry protobuf variant → fields copied into a TelemetryPoint
+const TELEMETRY_VARIANT_FIELDS: Record<string, Array<keyof TelemetryPoint>> = {
+  deviceMetrics: ["batteryLevel", "voltage", "channelUtilization", "airUtilTx", "uptimeSeconds"],
+  environmentMetrics: ["temperature", "relativeHumidity", "barometricPressure", "gasResistance", "lux", "iaq"],
+  powerMetrics: ["ch1Voltage", "ch1Current", "ch2Voltage", "ch2Current", "ch3Voltage", "ch3Current"],
+  airQualityMetrics: [
+    "pm10Standard", "pm25Standard", "pm100Standard",
+    "particles03um", "particles05um", "particles10um",
+    "particles25um", "particles50um", "particles100um", "co2",
+  ],
+};
 const POLL_INTERVAL_MS = 30_000; // 30 seconds
 const BROADCAST_ADDR = 0xffffffff;
 
@@ -20,12 +56,43 @@ const SERIAL_STALE_THRESHOLD_MS = 120_000; // 2min
 const SERIAL_DEAD_THRESHOLD_MS = 300_000;  // 5min
 const HTTP_STALE_THRESHOLD_MS = 60_000;    // 1min
 const HTTP_DEAD_THRESHOLD_MS = 120_000;    // 2min
+const TCP_STALE_THRESHOLD_MS = 120_000;    // 2min
+const TCP_DEAD_THRESHOLD_MS = 300_000;     // 5min
 const WATCHDOG_INTERVAL_MS = 10_000;       // Check every 10s
-const MAX_RECONNECT_ATTEMPTS = 5;          // Serial/HTTP only
+const MAX_RECONNECT_ATTEMPTS = 5;          // Serial/HTTP/TCP only
 const BLE_HEARTBEAT_INTERVAL_MS = 15_000;  // 15s heartbeat for BLE
 const BLE_FAST_RECONNECT_ATTEMPTS = 5;     // Phase 1: exponential backoff 2s→32s
 const BLE_PERIODIC_RECONNECT_MS = 60_000;  // Phase 2: try every 60s indefinitely
 
+// Config.payloadVariant case → admin get_config_request type
+const CONFIG_TYPES: Record<string, Admin.AdminMessage_ConfigType> = {
+  device: Admin.AdminMessage_ConfigType.DEVICE_CONFIG,
+  position: Admin.AdminMessage_ConfigType.POSITION_CONFIG,
+  power: Admin.AdminMessage_ConfigType.POWER_CONFIG,
+  network: Admin.AdminMessage_ConfigType.NETWORK_CONFIG,
+  display: Admin.AdminMessage_ConfigType.DISPLAY_CONFIG,
+  lora: Admin.AdminMessage_ConfigType.LORA_CONFIG,
+  bluetooth: Admin.AdminMessage_ConfigType.BLUETOOTH_CONFIG,
+  security: Admin.AdminMessage_ConfigType.SECURITY_CONFIG,
+};
+
+// ModuleConfig.payloadVariant case → admin get_module_config_request type
+const MODULE_CONFIG_TYPES: Record<string, Admin.AdminMessage_ModuleConfigType> = {
+  mqtt: Admin.AdminMessage_ModuleConfigType.MQTT_CONFIG,
+  serial: Admin.AdminMessage_ModuleConfigType.SERIAL_CONFIG,
+  externalNotification: Admin.AdminMessage_ModuleConfigType.EXTNOTIF_CONFIG,
+  storeForward: Admin.AdminMessage_ModuleConfigType.STOREFORWARD_CONFIG,
+  rangeTest: Admin.AdminMessage_ModuleConfigType.RANGETEST_CONFIG,
+  telemetry: Admin.AdminMessage_ModuleConfigType.TELEMETRY_CONFIG,
+  cannedMessage: Admin.AdminMessage_ModuleConfigType.CANNEDMSG_CONFIG,
+  audio: Admin.AdminMessage_ModuleConfigType.AUDIO_CONFIG,
+  remoteHardware: Admin.AdminMessage_ModuleConfigType.REMOTEHARDWARE_CONFIG,
+  neighborInfo: Admin.AdminMessage_ModuleConfigType.NEIGHBORINFO_CONFIG,
+  ambientLighting: Admin.AdminMessage_ModuleConfigType.AMBIENTLIGHTING_CONFIG,
+  detectionSensor: Admin.AdminMessage_ModuleConfigType.DETECTIONSENSOR_CONFIG,
+  paxcounter: Admin.AdminMessage_ModuleConfigType.PAXCOUNTER_CONFIG,
+};
+
 export function useDevice() {
   const deviceRef = useRef<MeshDevice | null>(null);
   // Track own node number in a ref so event callbacks can access it
@@ -39,12 +106,14 @@ export function useDevice() {
   const unsubscribesRef = useRef<Array<() => void>>([]);
   // Track emoji/replyId data from raw mesh packets (onMessagePacket strips them)
   const packetEmojiDataRef = useRef<Map<number, { emoji?: number; replyId?: number }>>(new Map());
+  // Last time an SNR/RSSI sample was persisted, per node
+  const lastSignalSavedRef = useRef<Map<number, number>>(new Map());
 
   // ─── Connection watchdog refs ─────────────────────────────────
   const lastDataReceivedRef = useRef<number>(Date.now());
   const watchdogRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const reconnectAttemptRef = useRef<number>(0);
-  const connectionParamsRef = useRef<{ type: ConnectionType; httpAddress?: string } | null>(null);
+  const connectionParamsRef = useRef<{ type: ConnectionType; address?: string } | null>(null);
   const isReconnectingRef = useRef<boolean>(false);
   const reconnectGenerationRef = useRef<number>(0);
   const bleHeartbeatRef = useRef<ReturnType<typeof setInterval> | null>(null);
@@ -54,15 +123,59 @@ export function useDevice() {
     myNodeNum: 0,
     connectionType: null,
   });
+  // Latest status for async loops and callbacks
+  const statusRef = useRef<DeviceState["status"]>("disconnected");
+  const flushingOutboxRef = useRef(false);
+  // Set while a failed message is resent, so its echo updates the original
+  // bubble instead of adding a new one
+  const resendEchoRef = useRef<{ packetId: number; attempt: number } | null>(null);
+  // Pending automatic retries, keyed by the failed packet id
+  const retryTimersRef = useRef<Map<number, ReturnType<typeof setTimeout>>>(new Map());
   const [messages, setMessages] = useState<ChatMessage[]>([]);
+  // Messages composed while not connected, oldest first (persisted)
+  const [outbox, setOutbox] = useState<QueuedMessage[]>([]);
   const [nodes, setNodes] = useState<Map<number, MeshNode>>(new Map());
   const [telemetry, setTelemetry] = useState<TelemetryPoint[]>([]);
+  // Received packets per sender since statsSince (session only)
+  const [packetStats, setPacketStats] = useState<Map<number, PacketStats>>(new Map());
+  const [statsSince, setStatsSince] = useState(() => Date.now());
+  // Follows the device's display.units config; remembered for offline viewing
+  const [displayUnits, setDisplayUnits] = useState<DisplayUnits>(() =>
+    localStorage.getItem(DISPLAY_UNITS_KEY) === "imperial" ? "imperial" : "metric"
+  );
+  // Shared map waypoints keyed by waypoint id (expired ones are pruned)
+  const [waypoints, setWaypoints] = useState<Map<number, Waypoint>>(new Map());
+  // Latest waypoints for packet handlers, which decide before updating state
+  const waypointsRef = useRef<Map<number, Waypoint>>(waypoints);
+  // Traceroute replies received this session, newest first
+  const [traceRoutes, setTraceRoutes] = useState<TraceRouteResult[]>([]);
+  // Known radio links keyed "from-to" (neighbor info and traceroute hops)
+  const [links, setLinks] = useState<Map<string, MeshLink>>(new Map());
   const [channels, setChannels] = useState<
     Array<{ index: number; name: string }>
   >([{ index: 0, name: "Primary" }]);
   const [channelConfigs, setChannelConfigs] = useState<
     Array<{ index: number; name: string; role: number; psk: Uint8Array }>
   >([]);
+  // Config as last reported by the radio; a section stays unset until
+  // its packet arrives during configure()
+  const [deviceConfig, setDeviceConfigSnapshot] = useState<LocalOnly.LocalConfig>(() =>
+    create(LocalOnly.LocalConfigSchema)
+  );
+  const [moduleConfig, setModuleConfigSnapshot] = useState<LocalOnly.LocalModuleConfig>(() =>
+    create(LocalOnly.LocalModuleConfigSchema)
+  );
+  // Sections written with setConfig / setModuleConfig since the last commit
+  const pendingConfigRef = useRef<Map<string, unknown>>(new Map());
+  const pendingModuleConfigRef = useRef<Map<string, unknown>>(new Map());
+
+  useEffect(() => {
+    statusRef.current = state.status;
+  }, [state.status]);
+
+  useEffect(() => {
+    waypointsRef.current = waypoints;
+  }, [waypoints]);
 
   // Keep nodesRef in sync with state
   const updateNodes = useCallback(
@@ -77,6 +190,13 @@ export function useDevice() {
   );
 
   // Compact display name: short_name, truncated long_name, or hex ID
+  const applyDisplayUnits = useCallback((units?: number) => {
+    // Config_DisplayConfig_DisplayUnits: 0 = METRIC, 1 = IMPERIAL
+    const next: DisplayUnits = units === 1 ? "imperial" : "metric";
+    localStorage.setItem(DISPLAY_UNITS_KEY, next);
+    setDisplayUnits(next);
+  }, []);
+
   const getNodeName = useCallback((nodeNum: number): string => {
     const node = nodesRef.current.get(nodeNum);
     if (node?.short_name) return node.short_name;
@@ -145,6 +265,7 @@ export function useDevice() {
       case "ble": return { stale: BLE_STALE_THRESHOLD_MS, dead: BLE_DEAD_THRESHOLD_MS };
       case "serial": return { stale: SERIAL_STALE_THRESHOLD_MS, dead: SERIAL_DEAD_THRESHOLD_MS };
       case "http": return { stale: HTTP_STALE_THRESHOLD_MS, dead: HTTP_DEAD_THRESHOLD_MS };
+      case "tcp": return { stale: TCP_STALE_THRESHOLD_MS, dead: TCP_DEAD_THRESHOLD_MS };
       default: return { stale: 90_000, dead: 180_000 };
     }
   }, []);
@@ -192,8 +313,12 @@ export function useDevice() {
   // Load saved data from DB on mount
   useEffect(() => {
     window.electronAPI.db.getMessages(undefined, 500).then((msgs) => {
-      setMessages(msgs.reverse());
+      // A retry that was waiting when the app closed won't happen now
+      setMessages(
+        msgs.reverse().map((m) => (m.status === "retrying" ? { ...m, status: "failed" } : m))
+      );
     });
+    window.electronAPI.db.getQueuedMessages().then(setOutbox);
     window.electronAPI.db.getNodes().then((savedNodes) => {
       const nodeMap = new Map<number, MeshNode>();
       for (const n of savedNodes) {
@@ -202,6 +327,32 @@ export function useDevice() {
       nodesRef.current = nodeMap;
       setNodes(nodeMap);
     });
+    window.electronAPI.db
+      .getTelemetry(null, undefined, undefined, MAX_TELEMETRY_POINTS)
+      .then(setTelemetry);
+    window.electronAPI.db.getLinks().then((saved) => {
+      setLinks(new Map(saved.map((l) => [`${l.from}-${l.to}`, l])));
+    });
+    window.electronAPI.db.getWaypoints().then((saved) => {
+      setWaypoints(new Map(saved.map((w) => [w.id, w])));
+    });
+  }, []);
+
+  // Drop expired waypoints from state and the database
+  useEffect(() => {
+    const timer = setInterval(() => {
+      const now = Date.now();
+      setWaypoints((prev) => {
+        if (!Array.from(prev.values()).some((w) => w.expire !== undefined && w.expire <= now)) {
+          return prev;
+        }
+        return new Map(
+          Array.from(prev).filter(([, w]) => w.expire === undefined || w.expire > now)
+        );
+      });
+      window.electronAPI.db.pruneWaypoints().catch(() => {});
+    }, WAYPOINT_PRUNE_INTERVAL_MS);
+    return () => clearInterval(timer);
   }, []);
 
   // Cleanup on unmount — stop all intervals and subscriptions
@@ -285,6 +436,21 @@ export function useDevice() {
     return () => document.removeEventListener("visibilitychange", handleVisibility);
   }, [getThresholds]);
 
+  // Merge newly observed links into state and persist them
+  const recordLinks = useCallback((observed: MeshLink[]) => {
+    if (observed.length === 0) return;
+    setLinks((prev) => {
+      const updated = new Map(prev);
+      for (const link of observed) {
+        const key = `${link.from}-${link.to}`;
+        const existing = updated.get(key);
+        updated.set(key, { ...link, snr: link.snr ?? existing?.snr ?? null });
+      }
+      return updated;
+    });
+    window.electronAPI.db.saveLinks(observed);
+  }, []);
+
   // ─── Wire up all event subscriptions for a device ─────────────
   const wireSubscriptions = useCallback(
     (device: MeshDevice, type: ConnectionType) => {
@@ -389,10 +555,26 @@ export function useDevice() {
           timestamp: packet.rxTime?.getTime() ?? Date.now(),
           packetId: packet.id,
           status: isEcho ? "sending" : undefined,
+          attempts: isEcho ? 1 : undefined,
           emoji,
           replyId: emojiData?.replyId,
           to: (packet as any).to && (packet as any).to !== BROADCAST_ADDR ? (packet as any).to : undefined,
         };
+
+        const resend = isEcho ? resendEchoRef.current : null;
+        if (resend) {
+          resendEchoRef.current = null;
+          setMessages((prev) =>
+            prev.map((m) =>
+              m.packetId === resend.packetId
+                ? { ...m, packetId: packet.id, status: "sending", error: undefined, attempts: resend.attempt }
+                : m
+            )
+          );
+          window.electronAPI.db.markMessageResent(resend.packetId, packet.id, resend.attempt);
+          return;
+        }
+
         setMessages((prev) => [...prev, msg]);
         window.electronAPI.db.saveMessage(msg);
 
@@ -492,9 +674,29 @@ export function useDevice() {
         const pos = packet.data as {
           latitudeI?: number;
           longitudeI?: number;
+          altitude?: number;
+          groundSpeed?: number;
+          groundTrack?: number;
+          precisionBits?: number;
+          satsInView?: number;
         };
         if (pos.latitudeI === undefined && pos.longitudeI === undefined) return;
 
+        // Keep every fix for track history; 0,0 means "no fix"
+        if (pos.latitudeI && pos.longitudeI) {
+          window.electronAPI.db.savePosition({
+            nodeId: packet.from,
+            timestamp: Date.now(),
+            latitude: pos.latitudeI / 1e7,
+            longitude: pos.longitudeI / 1e7,
+            altitude: pos.altitude || undefined,
+            groundSpeed: pos.groundSpeed || undefined,
+            groundTrack: pos.groundTrack ? pos.groundTrack / 1e5 : undefined,
+            precisionBits: pos.precisionBits || undefined,
+            satsInView: pos.satsInView || undefined,
+          });
+        }
+
         updateNodes((prev) => {
           const updated = new Map(prev);
           const existing = updated.get(packet.from) || emptyNode(packet.from);
@@ -518,37 +720,153 @@ export function useDevice() {
       });
       unsubscribesRef.current.push(unsub6);
 
-      // ─── Telemetry ─────────────────────────────────────────────
-      const unsub7 = device.events.onTelemetryPacket.subscribe((packet) => {
+      // ─── Waypoints ─────────────────────────────────────────────
+      const unsubWaypoint = device.events.onWaypointPacket.subscribe((packet) => {
         touchLastData();
-        const tel = packet.data as {
-          deviceMetrics?: { batteryLevel?: number; voltage?: number };
-          variant?: {
-            case?: string;
-            value?: { batteryLevel?: number; voltage?: number };
-          };
+        const wp = packet.data as {
+          id?: number;
+          latitudeI?: number;
+          longitudeI?: number;
+          expire?: number;
+          lockedTo?: number;
+          name?: string;
+          description?: string;
+          icon?: number;
+        };
+        if (!wp.id) return;
+        const expire = wp.expire ? wp.expire * 1000 : undefined;
+
+        const id = wp.id;
+        const existing = waypointsRef.current.get(id);
+        // Locked waypoints only accept updates from their owner
+        if (existing?.lockedTo && existing.lockedTo !== packet.from) return;
+
+        // An expiry in the past is how other clients delete a waypoint
+        if (expire !== undefined && expire <= Date.now()) {
+          window.electronAPI.db.deleteWaypoint(id);
+          setWaypoints((prev) => {
+            const updated = new Map(prev);
+            updated.delete(id);
+            return updated;
+          });
+          return;
+        }
+        const waypoint: Waypoint = {
+          id,
+          from: packet.from,
+          channel: packet.channel ?? 0,
+          latitude: (wp.latitudeI ?? 0) / 1e7,
+          longitude: (wp.longitudeI ?? 0) / 1e7,
+          name: wp.name ?? "",
+          description: wp.description ?? "",
+          icon: wp.icon || undefined,
+          lockedTo: wp.lockedTo || undefined,
+          expire,
+          updatedAt: Date.now(),
         };
-        const metrics = tel.deviceMetrics ?? tel.variant?.value;
-        if (!metrics) return;
+        window.electronAPI.db.saveWaypoint(waypoint);
+        setWaypoints((prev) => new Map(prev).set(id, waypoint));
+      });
+      unsubscribesRef.current.push(unsubWaypoint);
 
-        const point: TelemetryPoint = {
+      // ─── Traceroute replies ────────────────────────────────────
+      const unsubTraceRoute = device.events.onTraceRoutePacket.subscribe((packet) => {
+        touchLastData();
+        const discovery = packet.data as {
+          route?: number[];
+          snrTowards?: number[];
+          routeBack?: number[];
+          snrBack?: number[];
+        };
+        const toDecibels = (values?: number[]) =>
+          (values ?? []).map((v) => (v === TRACEROUTE_SNR_UNKNOWN ? null : v / 4));
+        const result: TraceRouteResult = {
+          from: myNodeNumRef.current,
+          to: packet.from,
           timestamp: Date.now(),
-          batteryLevel: metrics.batteryLevel,
-          voltage: metrics.voltage,
+          route: discovery.route ?? [],
+          snrTowards: toDecibels(discovery.snrTowards),
+          routeBack: discovery.routeBack ?? [],
+          snrBack: toDecibels(discovery.snrBack),
+        };
+        // Each hop that heard the previous one is a link
+        const forward = [result.from, ...result.route, result.to];
+        const back = [result.to, ...result.routeBack, result.from];
+        const hopLinks = (path: number[], snr: Array<number | null>): MeshLink[] =>
+          path.slice(1).map((to, i) => ({
+            from: path[i],
+            to,
+            snr: snr[i] ?? null,
+            lastSeen: result.timestamp,
+            source: "traceroute",
+          }));
+        recordLinks([
+          ...hopLinks(forward, result.snrTowards),
+          ...(result.snrBack.length > 0 ? hopLinks(back, result.snrBack) : []),
+        ]);
+        window.electronAPI.db.saveTraceroute(result).then((id) => {
+          setTraceRoutes((prev) =>
+            [{ ...result, id }, ...prev].slice(0, MAX_SESSION_TRACEROUTES)
+          );
+        });
+      });
+      unsubscribesRef.current.push(unsubTraceRoute);
+
+      // ─── Neighbor info ─────────────────────────────────────────
+      const unsubNeighborInfo = device.events.onNeighborInfoPacket.subscribe((packet) => {
+        touchLastData();
+        const info = packet.data as {
+          nodeId?: number;
+          neighbors?: Array<{ nodeId?: number; snr?: number }>;
+        };
+        const reporter = info.nodeId || packet.from;
+        const now = Date.now();
+        recordLinks(
+          (info.neighbors ?? [])
+            .filter((n) => n.nodeId)
+            .map((n) => ({
+              from: n.nodeId!,
+              to: reporter,
+              snr: typeof n.snr === "number" ? n.snr : null,
+              lastSeen: now,
+              source: "neighborinfo" as const,
+            }))
+        );
+      });
+      unsubscribesRef.current.push(unsubNeighborInfo);
+
+      // ─── Telemetry ─────────────────────────────────────────────
+      const unsub7 = device.events.onTelemetryPacket.subscribe((packet) => {
+        touchLastData();
+        const tel = packet.data as {
+          deviceMetrics?: Record<string, unknown>;
+          variant?: { case?: string; value?: Record<string, unknown> };
         };
+        const variant = tel.variant?.case ?? (tel.deviceMetrics ? "deviceMetrics" : undefined);
+        const metrics = tel.variant?.value ?? tel.deviceMetrics;
+        const fields = variant ? TELEMETRY_VARIANT_FIELDS[variant] : undefined;
+        if (!metrics || !fields || !packet.from) return;
+
+        const point: TelemetryPoint = { nodeId: packet.from, timestamp: Date.now() };
+        for (const field of fields) {
+          const value = metrics[field];
+          // Unset optional sensor fields arrive as undefined
+          if (typeof value === "number") (point as unknown as Record<string, number>)[field] = value;
+        }
         setTelemetry((prev) =>
           [...prev, point].slice(-MAX_TELEMETRY_POINTS)
         );
+        window.electronAPI.db.saveTelemetry(point);
 
         // Update node battery if from a known node
-        if (metrics.batteryLevel && packet.from) {
+        if (point.batteryLevel && packet.from) {
           updateNodes((prev) => {
             const updated = new Map(prev);
             const existing = updated.get(packet.from);
             if (existing) {
               updated.set(packet.from, {
                 ...existing,
-                battery: metrics.batteryLevel!,
+                battery: point.batteryLevel!,
                 last_heard: Date.now(),
               });
             }
@@ -604,16 +922,47 @@ export function useDevice() {
       });
       unsubscribesRef.current.push(unsub8);
 
-      // ─── SNR/RSSI from mesh packets ────────────────────────────
+      // ─── SNR/RSSI and traffic stats from mesh packets ──────────
       const unsub9 = device.events.onMeshPacket.subscribe((packet) => {
         touchLastData();
         const mp = packet as {
           rxSnr?: number;
           rxRssi?: number;
           from?: number;
+          payloadVariant?: {
+            case?: string;
+            value?: { portnum?: number; payload?: Uint8Array } | Uint8Array;
+          };
         };
         if (!mp.from) return;
 
+        // Count over-the-air traffic per sender (skip our own echoes)
+        if (mp.from !== myNodeNumRef.current) {
+          const decoded = mp.payloadVariant?.case === "decoded"
+            ? (mp.payloadVariant.value as { portnum?: number; payload?: Uint8Array })
+            : undefined;
+          const port = decoded?.portnum ?? -1;
+          const bytes = decoded
+            ? decoded.payload?.length ?? 0
+            : (mp.payloadVariant?.value as Uint8Array | undefined)?.length ?? 0;
+          const from = mp.from;
+          setPacketStats((prev) => {
+            const updated = new Map(prev);
+            const existing = updated.get(from);
+            updated.set(from, {
+              nodeId: from,
+              packets: (existing?.packets ?? 0) + 1,
+              bytes: (existing?.bytes ?? 0) + bytes,
+              lastSeen: Date.now(),
+              byPort: {
+                ...existing?.byPort,
+                [port]: (existing?.byPort[port] ?? 0) + 1,
+              },
+            });
+            return updated;
+          });
+        }
+
         if (mp.rxSnr) {
           updateNodes((prev) => {
             const updated = new Map(prev);
@@ -630,16 +979,20 @@ export function useDevice() {
         }
 
         if (mp.rxSnr || mp.rxRssi) {
+          const point: TelemetryPoint = {
+            nodeId: mp.from,
+            timestamp: Date.now(),
+            snr: mp.rxSnr,
+            rssi: mp.rxRssi,
+          };
           setTelemetry((prev) =>
-            [
-              ...prev,
-              {
-                timestamp: Date.now(),
-                snr: mp.rxSnr,
-                rssi: mp.rxRssi,
-              },
-            ].slice(-MAX_TELEMETRY_POINTS)
+            [...prev, point].slice(-MAX_TELEMETRY_POINTS)
           );
+          const lastSaved = lastSignalSavedRef.current.get(mp.from) ?? 0;
+          if (point.timestamp - lastSaved >= SIGNAL_SAMPLE_INTERVAL_MS) {
+            lastSignalSavedRef.current.set(mp.from, point.timestamp);
+            window.electronAPI.db.saveTelemetry(point);
+          }
         }
       });
       unsubscribesRef.current.push(unsub9);
@@ -650,6 +1003,31 @@ export function useDevice() {
       });
       unsubscribesRef.current.push(unsub10);
 
+      // ─── Device config (snapshot + display units for charts) ───
+      const unsub11 = device.events.onConfigPacket.subscribe((config: unknown) => {
+        touchLastData();
+        const cfg = config as {
+          payloadVariant?: { case?: string; value?: { units?: number } };
+        };
+        const section = cfg.payloadVariant?.case;
+        if (!section) return;
+        setDeviceConfigSnapshot((prev) => withSection(prev, section, cfg.payloadVariant!.value));
+        if (section === "display") {
+          applyDisplayUnits(cfg.payloadVariant!.value?.units);
+        }
+      });
+      unsubscribesRef.current.push(unsub11);
+
+      // ─── Module config snapshot ────────────────────────────────
+      const unsub12 = device.events.onModuleConfigPacket.subscribe((config: unknown) => {
+        touchLastData();
+        const cfg = config as { payloadVariant?: { case?: string; value?: unknown } };
+        const section = cfg.payloadVariant?.case;
+        if (!section) return;
+        setModuleConfigSnapshot((prev) => withSection(prev, section, cfg.payloadVariant!.value));
+      });
+      unsubscribesRef.current.push(unsub12);
+
       // ─── BLE heartbeat with failure detection ──────────────────
       // NOTE: We intentionally do NOT call touchLastData() on heartbeat
       // success. A successful GATT write only proves the link-layer is
@@ -668,11 +1046,24 @@ export function useDevice() {
         }, BLE_HEARTBEAT_INTERVAL_MS);
       }
 
-      // ─── Serial heartbeat (existing behavior, keeps device alive)
-      if (type === "serial") {
+      // ─── Serial/TCP heartbeat (keeps device alive) ──────────────
+      // meshtasticd drops stream-API clients that stay silent too long.
+      if (type === "serial" || type === "tcp") {
         device.setHeartbeatInterval(60_000);
       }
 
+      // ─── TCP socket closed / simulated link dropped ────────────
+      if (
+        device.transport instanceof TransportTCP ||
+        device.transport instanceof TransportSimulated
+      ) {
+        const unsubClose = device.transport.onClose((error?: string) => {
+          console.warn(`${type.toUpperCase()} connection closed`, error ?? "");
+          handleConnectionLostRef.current();
+        });
+        unsubscribesRef.current.push(unsubClose);
+      }
+
       // ─── GATT disconnection event (Layer 3) ────────────────────
       if (type === "ble") {
         const btDevice = (device.transport as any)?.__bluetoothDevice;
@@ -689,7 +1080,8 @@ export function useDevice() {
       }
     },
     [touchLastData, getNodeName, updateNodes, startPolling, stopPolling,
-     startWatchdog, stopWatchdog, stopBleHeartbeat, cleanupSubscriptions]
+     startWatchdog, stopWatchdog, stopBleHeartbeat, cleanupSubscriptions,
+     applyDisplayUnits, recordLinks]
   );
 
   // ─── Connection lost handler ──────────────────────────────────
@@ -716,7 +1108,7 @@ export function useDevice() {
   // ─── Reconnection with adaptive backoff ────────────────────────
   // BLE: never gives up — fast exponential backoff (2s→32s) for first
   //       5 attempts, then periodic retry every 60s indefinitely.
-  // Serial/HTTP: 5 attempts with exponential backoff, then give up.
+  // Serial/HTTP/TCP: 5 attempts with exponential backoff, then give up.
   const attemptReconnect = useCallback(async () => {
     const params = connectionParamsRef.current;
     if (!params) {
@@ -727,7 +1119,7 @@ export function useDevice() {
 
     const isBle = params.type === "ble";
 
-    // Serial/HTTP: give up after MAX_RECONNECT_ATTEMPTS
+    // Serial/HTTP/TCP: give up after MAX_RECONNECT_ATTEMPTS
     if (!isBle && reconnectAttemptRef.current >= MAX_RECONNECT_ATTEMPTS) {
       isReconnectingRef.current = false;
       reconnectAttemptRef.current = 0;
@@ -748,7 +1140,7 @@ export function useDevice() {
     // Two-phase backoff for BLE:
     //   Phase 1 (attempts 1-5): exponential 2s→32s
     //   Phase 2 (attempts 6+): fixed 60s interval
-    // Serial/HTTP: exponential 2s→32s only
+    // Serial/HTTP/TCP: exponential 2s→32s only
     let delay: number;
     if (isBle && reconnectAttemptRef.current > BLE_FAST_RECONNECT_ATTEMPTS) {
       delay = BLE_PERIODIC_RECONNECT_MS;
@@ -765,7 +1157,7 @@ export function useDevice() {
       if (isBle) {
         device = await reconnectBle();
       } else {
-        device = await createConnection(params.type, params.httpAddress);
+        device = await createConnection(params.type, params.address);
       }
       deviceRef.current = device;
       wireSubscriptions(device, params.type);
@@ -786,7 +1178,7 @@ export function useDevice() {
 
   // ─── Connect ──────────────────────────────────────────────────
   const connect = useCallback(
-    async (type: ConnectionType, httpAddress?: string) => {
+    async (type: ConnectionType, address?: string) => {
       // Force-disconnect stale device before creating a new connection
       if (deviceRef.current) {
         cleanupSubscriptions();
@@ -798,16 +1190,27 @@ export function useDevice() {
         safeDisconnect(oldDevice).catch(() => {});
       }
 
+      // A different radio may answer; forget the previous one's config
+      setDeviceConfigSnapshot(create(LocalOnly.LocalConfigSchema));
+      setModuleConfigSnapshot(create(LocalOnly.LocalModuleConfigSchema));
+      pendingConfigRef.current.clear();
+      pendingModuleConfigRef.current.clear();
+
       // Store connection params for reconnection
-      connectionParamsRef.current = { type, httpAddress };
+      connectionParamsRef.current = { type, address };
       reconnectAttemptRef.current = 0;
       isReconnectingRef.current = false;
       reconnectGenerationRef.current++;
 
-      setState((s) => ({ ...s, status: "connecting", connectionType: type }));
+      setState((s) => ({
+        ...s,
+        status: "connecting",
+        connectionType: type,
+        connectionAddress: address,
+      }));
 
       try {
-        const device = await createConnection(type, httpAddress);
+        const device = await createConnection(type, address);
         deviceRef.current = device;
 
         // Wire all event subscriptions
@@ -852,17 +1255,30 @@ export function useDevice() {
     setState({ status: "disconnected", myNodeNum: 0, connectionType: null });
   }, [cleanupSubscriptions, stopPolling, stopWatchdog, stopBleHeartbeat]);
 
-  const sendMessage = useCallback(async (text: string, channel = 0, destination?: number, replyId?: number) => {
+  // Sends a text and tracks its delivery. `resendOf` re-sends a failed
+  // message (its echo takes over the original bubble and DB row).
+  const transmitMessage = useCallback(async (
+    text: string,
+    channel = 0,
+    destination?: number,
+    replyId?: number,
+    resendOf?: { packetId: number; attempt: number }
+  ) => {
     if (!deviceRef.current) throw new Error("Not connected");
+    const attempt = resendOf?.attempt ?? 1;
     try {
       const dest: number | "broadcast" = destination ?? "broadcast";
-      const packetId = await deviceRef.current.sendText(
+      resendEchoRef.current = resendOf ?? null;
+      const sending = deviceRef.current.sendText(
         text,
         dest,
         true,
         channel,
         replyId
       );
+      // The echo has been handled synchronously by now
+      resendEchoRef.current = null;
+      const packetId = await sending;
       // ACK received — update message status
       setMessages((prev) =>
         prev.map((m) =>
@@ -872,9 +1288,38 @@ export function useDevice() {
       window.electronAPI.db.updateMessageStatus(packetId, "acked");
     } catch (err) {
       // NAK or timeout — extract packet ID and error from rejection
+      resendEchoRef.current = null;
       const pe = err as { id?: number; error?: number };
       const errorName = getRoutingErrorName(pe.error);
-      if (pe.id) {
+      const policy = loadRetryPolicy();
+      if (pe.id && shouldRetry(policy, pe.error, attempt)) {
+        const failedId = pe.id;
+        setMessages((prev) =>
+          prev.map((m) =>
+            m.packetId === failedId
+              ? { ...m, status: "retrying" as const, error: errorName, attempts: attempt }
+              : m
+          )
+        );
+        window.electronAPI.db.updateMessageStatus(failedId, "retrying", errorName);
+        const timer = setTimeout(() => {
+          retryTimersRef.current.delete(failedId);
+          if (!deviceRef.current) {
+            setMessages((prev) =>
+              prev.map((m) =>
+                m.packetId === failedId ? { ...m, status: "failed" as const } : m
+              )
+            );
+            window.electronAPI.db.updateMessageStatus(failedId, "failed", errorName);
+            return;
+          }
+          transmitMessage(text, channel, destination, replyId, {
+            packetId: failedId,
+            attempt: attempt + 1,
+          }).catch((e) => console.error("Message retry failed:", e));
+        }, retryDelay(policy, attempt + 1));
+        retryTimersRef.current.set(failedId, timer);
+      } else if (pe.id) {
         setMessages((prev) =>
           prev.map((m) =>
             m.packetId === pe.id
@@ -901,6 +1346,118 @@ export function useDevice() {
     }
   }, []);
 
+  // Manual resend of a failed (or waiting) message; not limited by the retry policy
+  const retryMessage = useCallback(
+    async (msg: ChatMessage) => {
+      if (!msg.packetId) return;
+      const timer = retryTimersRef.current.get(msg.packetId);
+      if (timer) {
+        clearTimeout(timer);
+        retryTimersRef.current.delete(msg.packetId);
+      }
+      await transmitMessage(msg.payload, msg.channel, msg.to, msg.replyId, {
+        packetId: msg.packetId,
+        attempt: (msg.attempts ?? 1) + 1,
+      });
+    },
+    [transmitMessage]
+  );
+
+  // Sends right away when the radio is ready; otherwise the message goes
+  // to the outbox and is sent once the connection is configured again.
+  // Text over one packet is split into numbered parts; only the first
+  // part carries the reply reference.
+  const sendMessage = useCallback(
+    async (text: string, channel = 0, destination?: number, replyId?: number) => {
+      const parts = splitMessage(text);
+      if (parts.length > MAX_MESSAGE_PARTS) {
+        throw new Error(`Message is too long (max ${MAX_MESSAGE_PARTS} parts)`);
+      }
+      const status = statusRef.current;
+      if (deviceRef.current && (status === "configured" || status === "stale")) {
+        // sendText queues synchronously, so the parts go out in order
+        await Promise.all(
+          parts.map((part, i) =>
+            transmitMessage(part, channel, destination, i === 0 ? replyId : undefined)
+          )
+        );
+        return;
+      }
+      for (const [i, part] of parts.entries()) {
+        const item = {
+          payload: part,
+          channel,
+          to: destination,
+          replyId: i === 0 ? replyId : undefined,
+          createdAt: Date.now(),
+        };
+        const id = await window.electronAPI.db.queueMessage(item);
+        setOutbox((prev) => [...prev, { ...item, id }]);
+      }
+    },
+    [transmitMessage]
+  );
+
+  const editQueuedMessage = useCallback(async (id: number, text: string) => {
+    setOutbox((prev) => prev.map((m) => (m.id === id ? { ...m, payload: text } : m)));
+    await window.electronAPI.db.updateQueuedMessage(id, text);
+  }, []);
+
+  const cancelQueuedMessage = useCallback(async (id: number) => {
+    setOutbox((prev) => prev.filter((m) => m.id !== id));
+    await window.electronAPI.db.deleteQueuedMessage(id);
+  }, []);
+
+  // Drain the outbox in order whenever the device (re)reaches "configured".
+  // Each entry is re-read and claimed by deleting its row, so edits and
+  // cancels made while earlier messages are sending still apply. If the
+  // link drops before the claimed entry is sent, it goes back in the queue.
+  useEffect(() => {
+    if (state.status !== "configured" || flushingOutboxRef.current) return;
+    flushingOutboxRef.current = true;
+    (async () => {
+      try {
+        while (deviceRef.current && statusRef.current === "configured") {
+          const [next] = await window.electronAPI.db.getQueuedMessages();
+          if (!next) break;
+          const { changes } = await window.electronAPI.db.deleteQueuedMessage(next.id);
+          setOutbox((prev) => prev.filter((m) => m.id !== next.id));
+          if (!changes) continue;
+          try {
+            await transmitMessage(next.payload, next.channel, next.to, next.replyId);
+          } catch (err) {
+            // transmitMessage only throws before it saves or sends anything
+            await window.electronAPI.db.requeueMessage(next);
+            setOutbox((prev) => [...prev, next].sort((a, b) => a.id - b.id));
+            throw err;
+          }
+        }
+      } catch (err) {
+        console.error("Outbox flush failed:", err);
+      } finally {
+        flushingOutboxRef.current = false;
+      }
+    })();
+  }, [state.status, transmitMessage]);
+
+  // Queued entries are listed with the chat so they show in their conversation
+  const messagesWithOutbox = useMemo(() => {
+    if (outbox.length === 0) return messages;
+    const senderName = state.myNodeNum ? getNodeName(state.myNodeNum) : "Me";
+    const queued: ChatMessage[] = outbox.map((q) => ({
+      sender_id: state.myNodeNum,
+      sender_name: senderName,
+      payload: q.payload,
+      channel: q.channel,
+      timestamp: q.createdAt,
+      to: q.to,
+      replyId: q.replyId,
+      status: "queued",
+      queueId: q.id,
+    }));
+    return [...messages, ...queued];
+  }, [messages, outbox, state.myNodeNum, getNodeName]);
+
   // Send an emoji reaction (tapback) to a specific message.
   // The echo (fired synchronously by sendText) handles adding
   // the reaction to local state via onMeshPacket + onMessagePacket.
@@ -915,16 +1472,226 @@ export function useDevice() {
     []
   );
 
+  // Loads the page of a conversation older than the cursor. Resolves the
+  // page's oldest message (the next cursor) and whether more is stored.
+  const loadOlderMessages = useCallback(
+    async (conversation: MessageConversation, before?: MessageCursor) => {
+      const page = await window.electronAPI.db.getMessagePage(
+        conversation,
+        before,
+        MESSAGE_PAGE_SIZE
+      );
+      setMessages((prev) => mergeMessages(prev, page));
+      return {
+        oldest: page.length > 0 ? messageCursor(page[0]) : null,
+        hasMore: page.length === MESSAGE_PAGE_SIZE,
+      };
+    },
+    []
+  );
+
+  // Pulls the conversation around a stored message (e.g. a search hit)
+  // into the in-memory list so it can be shown in context. Resolves the
+  // loaded window.
+  const loadMessageContext = useCallback(async (id: number) => {
+    const history = await window.electronAPI.db.getMessageContext(id);
+    setMessages((prev) => mergeMessages(prev, history));
+    return history;
+  }, []);
+
+  // ─── Waypoints ───────────────────────────────────────────────
+  // Creates (no id) or updates a waypoint and sends it to the mesh.
+  // It is stored locally first so it survives a failed delivery.
+  const sendWaypoint = useCallback(
+    async (
+      input: Omit<Waypoint, "id" | "from" | "channel" | "updatedAt"> & { id?: number },
+      channel = 0,
+      destination?: number
+    ) => {
+      if (!deviceRef.current) throw new Error("Not connected");
+      const existing = input.id !== undefined ? waypoints.get(input.id) : undefined;
+      if (existing?.lockedTo && existing.lockedTo !== myNodeNumRef.current) {
+        throw new Error("Waypoint is locked to another node");
+      }
+      const waypoint: Waypoint = {
+        ...input,
+        id: input.id ?? Math.floor(Math.random() * 0xfffffffe) + 1,
+        from: myNodeNumRef.current,
+        channel,
+        updatedAt: Date.now(),
+      };
+      setWaypoints((prev) => new Map(prev).set(waypoint.id, waypoint));
+      window.electronAPI.db.saveWaypoint(waypoint);
+
+      await deviceRef.current.sendWaypoint(
+        create(Mesh.WaypointSchema, {
+          id: waypoint.id,
+          latitudeI: Math.round(waypoint.latitude * 1e7),
+          longitudeI: Math.round(waypoint.longitude * 1e7),
+          name: waypoint.name,
+          description: waypoint.description,
+          icon: waypoint.icon ?? 0,
+          lockedTo: waypoint.lockedTo ?? 0,
+          expire: waypoint.expire ? Math.floor(waypoint.expire / 1000) : 0,
+        }),
+        destination ?? "broadcast",
+        channel
+      );
+    },
+    [waypoints]
+  );
+
+  // Removes a waypoint locally and, when connected and permitted,
+  // tells the mesh by re-sending it with an expiry in the past.
+  const deleteWaypoint = useCallback(
+    async (id: number) => {
+      const waypoint = waypoints.get(id);
+      if (!waypoint) return;
+      setWaypoints((prev) => {
+        const updated = new Map(prev);
+        updated.delete(id);
+        return updated;
+      });
+      await window.electronAPI.db.deleteWaypoint(id);
+
+      const canBroadcast = !waypoint.lockedTo || waypoint.lockedTo === myNodeNumRef.current;
+      if (!deviceRef.current || !canBroadcast) return;
+      await deviceRef.current.sendWaypoint(
+        create(Mesh.WaypointSchema, {
+          id,
+          latitudeI: Math.round(waypoint.latitude * 1e7),
+          longitudeI: Math.round(waypoint.longitude * 1e7),
+          name: waypoint.name,
+          expire: 1,
+        }),
+        "broadcast",
+        waypoint.channel
+      );
+    },
+    [waypoints]
+  );
+
   const setConfig = useCallback(async (config: unknown) => {
     if (!deviceRef.current) throw new Error("Not connected");
     await deviceRef.current.setConfig(config as never);
+    const cfg = config as {
+      payloadVariant?: { case?: string; value?: { units?: number } };
+    };
+    if (cfg.payloadVariant?.case) {
+      pendingConfigRef.current.set(cfg.payloadVariant.case, cfg.payloadVariant.value);
+    }
+    if (cfg.payloadVariant?.case === "display") {
+      applyDisplayUnits(cfg.payloadVariant.value?.units);
+    }
+  }, [applyDisplayUnits]);
+
+  const setModuleConfig = useCallback(async (config: unknown) => {
+    if (!deviceRef.current) throw new Error("Not connected");
+    await deviceRef.current.setModuleConfig(config as never);
+    const cfg = config as { payloadVariant?: { case?: string; value?: unknown } };
+    if (cfg.payloadVariant?.case) {
+      pendingModuleConfigRef.current.set(cfg.payloadVariant.case, cfg.payloadVariant.value);
+    }
+  }, []);
+
+  // Replaces the canned-message module's list on the device (firmware
+  // stores them "|"-separated in a single string)
+  const setCannedMessages = useCallback(async (messages: string[]) => {
+    if (!deviceRef.current) throw new Error("Not connected");
+    await deviceRef.current.setCannedMessages(
+      create(CannedMessages.CannedMessageModuleConfigSchema, { messages: messages.join("|") })
+    );
   }, []);
 
+  // Commits, then shows the written values right away and asks the radio
+  // to report each section again so the snapshot reflects what it stored
   const commitConfig = useCallback(async () => {
     if (!deviceRef.current) throw new Error("Not connected");
     await deviceRef.current.commitEditSettings();
+    const written = Array.from(pendingConfigRef.current.entries());
+    const writtenModules = Array.from(pendingModuleConfigRef.current.entries());
+    pendingConfigRef.current.clear();
+    pendingModuleConfigRef.current.clear();
+    if (written.length > 0) {
+      setDeviceConfigSnapshot((prev) =>
+        written.reduce((acc, [section, value]) => withSection(acc, section, value), prev)
+      );
+    }
+    if (writtenModules.length > 0) {
+      setModuleConfigSnapshot((prev) =>
+        writtenModules.reduce((acc, [section, value]) => withSection(acc, section, value), prev)
+      );
+    }
+    const device = deviceRef.current;
+    for (const [section] of written) {
+      const configType = CONFIG_TYPES[section];
+      if (configType === undefined) continue;
+      device.getConfig(configType).catch((err: unknown) =>
+        console.warn(`Re-reading ${section} config failed:`, err)
+      );
+    }
+    for (const [section] of writtenModules) {
+      const configType = MODULE_CONFIG_TYPES[section];
+      if (configType === undefined) continue;
+      device.getModuleConfig(configType).catch((err: unknown) =>
+        console.warn(`Re-reading ${section} module config failed:`, err)
+      );
+    }
   }, []);
 
+  // Runs writes inside one edit-settings transaction so the radio saves
+  // (and reboots) once. On failure nothing local is kept: sections queued
+  // for the snapshot are dropped and the display units restored.
+  const runEditTransaction = useCallback(
+    async (write: (device: MeshDevice) => Promise<void>) => {
+      const device = deviceRef.current;
+      if (!device) throw new Error("Not connected");
+      const unitsBefore = localStorage.getItem(DISPLAY_UNITS_KEY) === "imperial" ? 1 : 0;
+      try {
+        await device.beginEditSettings();
+        await write(device);
+        await commitConfig();
+      } catch (err) {
+        pendingConfigRef.current.clear();
+        pendingModuleConfigRef.current.clear();
+        applyDisplayUnits(unitsBefore);
+        throw err;
+      }
+    },
+    [commitConfig, applyDisplayUnits]
+  );
+
+  // Staged edits from the config editors, written together
+  const applyConfigChanges = useCallback(
+    (changes: { config?: unknown[]; moduleConfig?: unknown[] }) =>
+      runEditTransaction(async () => {
+        for (const config of changes.config ?? []) await setConfig(config);
+        for (const config of changes.moduleConfig ?? []) await setModuleConfig(config);
+      }),
+    [runEditTransaction, setConfig, setModuleConfig]
+  );
+
+  // Restores the selected sections of a config backup
+  const applyConfigBackup = useCallback(
+    (restore: ConfigRestore) =>
+      runEditTransaction(async (device) => {
+        if (restore.owner) {
+          await device.setOwner(create(Mesh.UserSchema, restore.owner));
+        }
+        for (const config of restore.config) await setConfig(config);
+        for (const config of restore.moduleConfig) await setModuleConfig(config);
+        for (const channel of restore.channels) {
+          await device.setChannel({
+            index: channel.index,
+            role: channel.role,
+            settings: { name: channel.name, psk: channel.psk },
+          } as never);
+        }
+        for (const index of restore.clearChannels) await device.clearChannel(index);
+      }),
+    [runEditTransaction, setConfig, setModuleConfig]
+  );
+
   const reboot = useCallback(async (seconds = 2) => {
     if (!deviceRef.current) throw new Error("Not connected");
     await deviceRef.current.reboot(seconds);
@@ -980,6 +1747,11 @@ export function useDevice() {
     await deviceRef.current.clearChannel(index);
   }, []);
 
+  const resetPacketStats = useCallback(() => {
+    setPacketStats(new Map());
+    setStatsSince(Date.now());
+  }, []);
+
   // ─── Node management ────────────────────────────────────────
   const removeNode = useCallback(async (nodeNum: number) => {
     if (!deviceRef.current) throw new Error("Not connected");
@@ -994,17 +1766,37 @@ export function useDevice() {
 
   return {
     state,
-    messages,
+    messages: messagesWithOutbox,
     nodes,
     telemetry,
+    displayUnits,
+    packetStats,
+    statsSince,
+    resetPacketStats,
+    waypoints,
+    traceRoutes,
+    links,
+    sendWaypoint,
+    deleteWaypoint,
     channels,
     channelConfigs,
     connect,
     disconnect,
     sendMessage,
+    retryMessage,
+    editQueuedMessage,
+    cancelQueuedMessage,
     sendReaction,
+    loadMessageContext,
+    loadOlderMessages,
+    deviceConfig,
+    moduleConfig,
     setConfig,
+    setModuleConfig,
+    setCannedMessages,
     commitConfig,
+    applyConfigChanges,
+    applyConfigBackup,
     setDeviceChannel,
     clearChannel,
     removeNode,
@@ -1020,6 +1812,11 @@ export function useDevice() {
   };
 }
 
+/** Copy of a LocalConfig/LocalModuleConfig with one section replaced */
+function withSection<T extends object>(snapshot: T, section: string, value: unknown): T {
+  return { ...snapshot, [section]: value };
+}
+
 function emptyNode(nodeId: number): MeshNode {
   return {
     node_id: nodeId,
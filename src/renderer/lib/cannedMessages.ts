@@ -0,0 +1,68 @@
+import type { MeshNode } from "./types";
+
+// Canned messages: reusable status lines inserted from the chat composer.
+// Templates may contain {variables} that are filled in from the local
+// node's state when inserted.
+
+export interface CannedMessage {
+  id: string;
+  text: string;
+}
+
+const CANNED_MESSAGES_KEY = "electastic:cannedMessages";
+
+// Device module limit: all messages joined with "|" must fit in 200 bytes
+export const DEVICE_CANNED_MAX_BYTES = 200;
+
+export const CANNED_VARIABLES = [
+  { name: "my_position", description: "Own GPS position (lat, lon)" },
+  { name: "battery", description: "Own battery level" },
+  { name: "time", description: "Current local time" },
+  { name: "node_name", description: "Own long name" },
+];
+
+const DEFAULT_CANNED_MESSAGES: CannedMessage[] = [
+  { id: "checkin", text: "Checking in, all good at {time}" },
+  { id: "position", text: "{node_name} at {my_position}" },
+  { id: "battery", text: "Battery at {battery}" },
+  { id: "copy", text: "Copy that" },
+  { id: "rtb", text: "Heading back to base" },
+];
+
+export function loadCannedMessages(): CannedMessage[] {
+  try {
+    const saved = localStorage.getItem(CANNED_MESSAGES_KEY);
+    if (saved) return JSON.parse(saved) as CannedMessage[];
+  } catch { /* ignore corrupt data */ }
+  return DEFAULT_CANNED_MESSAGES;
+}
+
+export function saveCannedMessages(messages: CannedMessage[]): void {
+  localStorage.setItem(CANNED_MESSAGES_KEY, JSON.stringify(messages));
+}
+
+export function newCannedMessageId(): string {
+  return `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+}
+
+export function hasVariables(text: string): boolean {
+  return /\{\w+\}/.test(text);
+}
+
+/** Variable values for the local node; unknown values read "unknown" */
+export function cannedVariables(myNode: MeshNode | undefined): Record<string, string> {
+  const hasPosition = !!myNode && (myNode.latitude !== 0 || myNode.longitude !== 0);
+  return {
+    my_position: hasPosition
+      ? `${myNode!.latitude.toFixed(5)}, ${myNode!.longitude.toFixed(5)}`
+      : "unknown position",
+    battery: myNode && myNode.battery > 0 ? `${Math.min(myNode.battery, 100)}%` : "unknown",
+    time: new Date().toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" }),
+    node_name: myNode?.long_name || myNode?.short_name || "unknown",
+  };
+}
+
+/** Replace {name} placeholders; unknown names are left as typed */
+export function expandTemplate(text: string, vars: Record<string, string>): string {
+  return text.replace(/\{(\w+)\}/g, (match, name: string) => vars[name] ?? match);
+}
@@ -0,0 +1,437 @@
+import {
+  create,
+  fromBinary,
+  fromJson,
+  toBinary,
+  toJson,
+  type DescMessage,
+  type JsonObject,
+  type JsonValue,
+} from "@bufbuild/protobuf";
+import { AppOnly, Channel, LocalOnly } from "@meshtastic/protobufs";
+import { parse as parseYaml, stringify as stringifyYaml } from "yaml";
+
+// ─── Config backup (YAML) ─────────────────────────────────────────
+// Same layout as the Meshtastic CLI's --export-config: owner names and a
+// channel_url at the top, then config / module_config sections as
+// protobuf JSON (camelCase keys, enum names, "base64:" keys). Import
+// compares a file with the live config and turns the sections the user
+// picks into the writes for one edit-settings transaction.
+
+const CHANNEL_URL_PREFIX = "https://meshtastic.org/e/#";
+const BASE64_PREFIX = "base64:";
+// Bytes fields the CLI writes with the "base64:" prefix
+const KEY_FIELDS = new Set(["publicKey", "privateKey", "adminKey"]);
+const CHANNEL_ROLES = ["DISABLED", "PRIMARY", "SECONDARY"];
+const MAX_CHANNELS = 8;
+
+export interface BackupChannel {
+  index: number;
+  role: number;
+  name: string;
+  psk: Uint8Array;
+}
+
+export interface BackupOwner {
+  longName: string;
+  shortName: string;
+}
+
+export interface ConfigBackup {
+  owner?: BackupOwner;
+  channels?: BackupChannel[];
+  /** Section name → fields present in the file, normalized protobuf JSON */
+  config: Record<string, JsonObject>;
+  moduleConfig: Record<string, JsonObject>;
+}
+
+/** What the connected device currently reports */
+export interface LiveConfig {
+  deviceConfig: LocalOnly.LocalConfig;
+  moduleConfig: LocalOnly.LocalModuleConfig;
+  channels: BackupChannel[];
+  owner?: BackupOwner;
+}
+
+export interface BackupChange {
+  field: string;
+  current: string;
+  incoming: string;
+}
+
+export interface BackupSection {
+  /** "owner", "channels", "config.<name>" or "module_config.<name>" */
+  id: string;
+  label: string;
+  changes: BackupChange[];
+  // Set when the section can't be restored, e.g. the device never reported it
+  skipped?: string;
+}
+
+type ConfigWrite = { payloadVariant: { case: string; value: unknown } };
+
+/** Writes for the selected sections, in the order they are sent */
+export interface ConfigRestore {
+  owner?: BackupOwner;
+  config: ConfigWrite[];
+  moduleConfig: ConfigWrite[];
+  channels: BackupChannel[];
+  /** Channel slots the backup doesn't use that are active on the device */
+  clearChannels: number[];
+  /** Selected section ids left out because the device never reported them */
+  skipped: string[];
+}
+
+// Writing a section replaces all of it; without the device's values the
+// fields missing from the file would be reset to zero
+const UNREPORTED_SECTION = "The device hasn't reported this section, so it will be skipped.";
+
+function bytesToBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function base64ToBytes(text: string): Uint8Array {
+  const normalized = text.replace(/-/g, "+").replace(/_/g, "/");
+  return Uint8Array.from(atob(normalized), (c) => c.charCodeAt(0));
+}
+
+function isMapping(value: JsonValue | undefined): value is JsonObject {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function camelCase(key: string): string {
+  return key.replace(/_([a-z0-9])/g, (_, c: string) => c.toUpperCase());
+}
+
+/** Names of the per-section message fields (lora, mqtt, …) */
+function sectionNames(schema: DescMessage): string[] {
+  return schema.fields.filter((f) => f.fieldKind === "message").map((f) => f.jsonName);
+}
+
+/** Reported sections as protobuf JSON with every field written out */
+function sectionsJson(schema: DescMessage, message: object): Record<string, JsonObject> {
+  const json = toJson(schema, message as never, { alwaysEmitImplicit: true }) as JsonObject;
+  const sections: Record<string, JsonObject> = {};
+  for (const name of sectionNames(schema)) {
+    const value = json[name];
+    if (value && typeof value === "object" && !Array.isArray(value)) sections[name] = value;
+  }
+  return sections;
+}
+
+function withKeyPrefix(section: JsonObject): JsonObject {
+  const result: JsonObject = {};
+  for (const [key, value] of Object.entries(section)) {
+    if (!KEY_FIELDS.has(key)) result[key] = value;
+    else if (Array.isArray(value)) result[key] = value.map((v) => `${BASE64_PREFIX}${v}`);
+    else result[key] = value ? `${BASE64_PREFIX}${value}` : value;
+  }
+  return result;
+}
+
+function stripKeyPrefix(value: JsonValue): JsonValue {
+  if (typeof value === "string") {
+    return value.startsWith(BASE64_PREFIX) ? value.slice(BASE64_PREFIX.length) : value;
+  }
+  if (Array.isArray(value)) return value.map(stripKeyPrefix);
+  if (isMapping(value)) {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, stripKeyPrefix(v)]));
+  }
+  return value;
+}
+
+// ─── Channel URL ──────────────────────────────────────────────────
+
+function activeChannels(channels: BackupChannel[]): BackupChannel[] {
+  return channels.filter((c) => c.role !== 0).sort((a, b) => a.index - b.index);
+}
+
+export function channelUrl(channels: BackupChannel[], lora?: LocalOnly.LocalConfig["lora"]): string {
+  const set = create(AppOnly.ChannelSetSchema, {
+    settings: activeChannels(channels).map((c) =>
+      create(Channel.ChannelSettingsSchema, { name: c.name, psk: c.psk })
+    ),
+    loraConfig: lora,
+  });
+  const encoded = bytesToBase64(toBinary(AppOnly.ChannelSetSchema, set))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+  return CHANNEL_URL_PREFIX + encoded;
+}
+
+/** Channels from a meshtastic.org/e/# link; the first one is the primary */
+export function parseChannelUrl(url: string): BackupChannel[] {
+  const hash = url.indexOf("#");
+  if (hash < 0) throw new Error("Channel URL has no channel data after #");
+  const set = fromBinary(AppOnly.ChannelSetSchema, base64ToBytes(url.slice(hash + 1)));
+  if (set.settings.length > MAX_CHANNELS) {
+    throw new Error(`Channel URL has ${set.settings.length} channels; the radio holds ${MAX_CHANNELS}`);
+  }
+  return set.settings.map((s: Channel.ChannelSettings, i: number) => ({
+    index: i,
+    role: i === 0 ? 1 : 2,
+    name: s.name,
+    psk: s.psk,
+  }));
+}
+
+// ─── Export ───────────────────────────────────────────────────────
+
+export function buildConfigBackup(live: LiveConfig): string {
+  const doc: JsonObject = {};
+  if (live.owner) {
+    doc.owner = live.owner.longName;
+    doc.owner_short = live.owner.shortName;
+  }
+  if (activeChannels(live.channels).length > 0) {
+    doc.channel_url = channelUrl(live.channels, live.deviceConfig.lora);
+  }
+  const config = sectionsJson(LocalOnly.LocalConfigSchema, live.deviceConfig);
+  if (Object.keys(config).length > 0) {
+    doc.config = Object.fromEntries(
+      Object.entries(config).map(([name, section]) => [name, withKeyPrefix(section)])
+    );
+  }
+  const modules = sectionsJson(LocalOnly.LocalModuleConfigSchema, live.moduleConfig);
+  if (Object.keys(modules).length > 0) doc.module_config = modules;
+  // Block lists at the key's indent and no line folding, as the CLI writes
+  const yaml = stringifyYaml(doc, { indentSeq: false, lineWidth: 0 });
+  return `# start of Meshtastic configure yaml\n${yaml}`;
+}
+
+// ─── Import ───────────────────────────────────────────────────────
+
+/**
+ * Validate the file's sections against the schema and normalize them
+ * (enum numbers → names, snake_case → camelCase), keeping only the
+ * fields the file sets so the rest of a section is left as it is.
+ */
+function parseSections(
+  schema: DescMessage,
+  value: JsonValue | undefined,
+  what: string
+): Record<string, JsonObject> {
+  if (value === undefined || value === null) return {};
+  if (!isMapping(value)) throw new Error(`"${what}" must be a mapping of sections`);
+  const known = new Set(sectionNames(schema));
+  const sections: Record<string, JsonObject> = {};
+  for (const [rawName, rawSection] of Object.entries(value)) {
+    const name = camelCase(rawName);
+    if (!known.has(name) || !isMapping(rawSection)) continue;
+    let normalized: JsonObject;
+    try {
+      const message = fromJson(schema, { [name]: stripKeyPrefix(rawSection) }, {
+        ignoreUnknownFields: true,
+      });
+      normalized = sectionsJson(schema, message)[name] ?? {};
+    } catch (err) {
+      throw new Error(`${what}.${rawName}: ${err instanceof Error ? err.message : "invalid section"}`);
+    }
+    const fields: JsonObject = {};
+    for (const key of Object.keys(rawSection)) {
+      const field = camelCase(key);
+      if (field in normalized) fields[field] = normalized[field];
+    }
+    sections[name] = fields;
+  }
+  return sections;
+}
+
+export function parseConfigBackup(text: string): ConfigBackup {
+  let doc: JsonValue;
+  try {
+    doc = parseYaml(text, { uniqueKeys: true, logLevel: "error" }) as JsonValue;
+  } catch (err) {
+    throw new Error(`Invalid YAML: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  if (!isMapping(doc)) throw new Error("Not a config backup: expected YAML keys at the top level");
+
+  const backup: ConfigBackup = {
+    config: parseSections(LocalOnly.LocalConfigSchema, doc.config, "config"),
+    moduleConfig: parseSections(LocalOnly.LocalModuleConfigSchema, doc.module_config, "module_config"),
+  };
+  if (typeof doc.owner === "string" || typeof doc.owner_short === "string") {
+    backup.owner = {
+      longName: String(doc.owner ?? ""),
+      shortName: String(doc.owner_short ?? ""),
+    };
+  }
+  if (typeof doc.channel_url === "string" && doc.channel_url) {
+    backup.channels = parseChannelUrl(doc.channel_url);
+  }
+
+  if (
+    !backup.owner &&
+    !backup.channels &&
+    Object.keys(backup.config).length === 0 &&
+    Object.keys(backup.moduleConfig).length === 0
+  ) {
+    throw new Error("No owner, channels or config sections found in the file");
+  }
+  return backup;
+}
+
+// ─── Diff against the device ──────────────────────────────────────
+
+const SECTION_LABELS: Record<string, string> = {
+  lora: "LoRa",
+  mqtt: "MQTT",
+  neighborInfo: "Neighbor Info",
+  paxcounter: "Paxcounter",
+};
+
+function sectionLabel(name: string): string {
+  return (
+    SECTION_LABELS[name] ??
+    name.replace(/([A-Z])/g, " $1").replace(/^./, (c) => c.toUpperCase())
+  );
+}
+
+function formatValue(value: JsonValue | undefined): string {
+  if (value === undefined) return "—";
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return text.length > 40 ? `${text.slice(0, 39)}…` : text;
+}
+
+function diffFields(current: JsonObject | undefined, incoming: JsonObject): BackupChange[] {
+  return Object.entries(incoming)
+    .filter(([key, value]) => JSON.stringify(current?.[key]) !== JSON.stringify(value))
+    .map(([key, value]) => ({
+      field: key,
+      current: formatValue(current?.[key]),
+      incoming: formatValue(value),
+    }));
+}
+
+function channelFields(channel: BackupChannel | undefined): Record<string, string> {
+  return {
+    role: CHANNEL_ROLES[channel?.role ?? 0] ?? String(channel?.role),
+    name: channel?.name ?? "",
+    psk: channel && channel.role !== 0 ? bytesToBase64(channel.psk) : "",
+  };
+}
+
+function diffChannels(current: BackupChannel[], incoming: BackupChannel[]): BackupChange[] {
+  const changes: BackupChange[] = [];
+  for (let index = 0; index < MAX_CHANNELS; index++) {
+    const before = channelFields(activeChannels(current).find((c) => c.index === index));
+    const after = channelFields(incoming.find((c) => c.index === index));
+    for (const key of Object.keys(after)) {
+      if (before[key] === after[key]) continue;
+      changes.push({
+        field: `Channel ${index} ${key}`,
+        current: formatValue(before[key] || undefined),
+        incoming: formatValue(after[key] || undefined),
+      });
+    }
+  }
+  return changes;
+}
+
+/** Every section in the backup, with the fields that differ from the device */
+export function diffConfigBackup(backup: ConfigBackup, live: LiveConfig): BackupSection[] {
+  const sections: BackupSection[] = [];
+  if (backup.owner) {
+    sections.push({
+      id: "owner",
+      label: "Owner",
+      changes: diffFields(
+        live.owner ? { longName: live.owner.longName, shortName: live.owner.shortName } : undefined,
+        { longName: backup.owner.longName, shortName: backup.owner.shortName }
+      ),
+    });
+  }
+  if (backup.channels) {
+    sections.push({
+      id: "channels",
+      label: "Channels",
+      changes: diffChannels(live.channels, backup.channels),
+    });
+  }
+  const config = sectionsJson(LocalOnly.LocalConfigSchema, live.deviceConfig);
+  for (const [name, fields] of Object.entries(backup.config)) {
+    sections.push({
+      id: `config.${name}`,
+      label: `Config · ${sectionLabel(name)}`,
+      changes: diffFields(config[name], fields),
+      skipped: config[name] ? undefined : UNREPORTED_SECTION,
+    });
+  }
+  const modules = sectionsJson(LocalOnly.LocalModuleConfigSchema, live.moduleConfig);
+  for (const [name, fields] of Object.entries(backup.moduleConfig)) {
+    sections.push({
+      id: `module_config.${name}`,
+      label: `Module · ${sectionLabel(name)}`,
+      changes: diffFields(modules[name], fields),
+      skipped: modules[name] ? undefined : UNREPORTED_SECTION,
+    });
+  }
+  return sections;
+}
+
+// ─── Restore ──────────────────────────────────────────────────────
+
+/**
+ * Full section messages: the device's values with the file's fields on
+ * top. Sections the device never reported are added to `skipped`.
+ */
+function sectionWrites(
+  schema: DescMessage,
+  liveMessage: object,
+  incoming: Record<string, JsonObject>,
+  selected: Set<string>,
+  prefix: string,
+  skipped: string[]
+): ConfigWrite[] {
+  const live = sectionsJson(schema, liveMessage);
+  return Object.entries(incoming)
+    .filter(([name]) => selected.has(`${prefix}.${name}`))
+    .filter(([name]) => {
+      if (live[name]) return true;
+      skipped.push(`${prefix}.${name}`);
+      return false;
+    })
+    .map(([name, fields]) => {
+      const message = fromJson(schema, { [name]: { ...live[name], ...fields } }, {
+        ignoreUnknownFields: true,
+      }) as unknown as Record<string, unknown>;
+      return { payloadVariant: { case: name, value: message[name] } };
+    });
+}
+
+export function buildConfigRestore(
+  backup: ConfigBackup,
+  live: LiveConfig,
+  selected: Set<string>
+): ConfigRestore {
+  const restoreChannels = !!backup.channels && selected.has("channels");
+  const channels = restoreChannels ? backup.channels! : [];
+  const skipped: string[] = [];
+  return {
+    owner: backup.owner && selected.has("owner") ? backup.owner : undefined,
+    config: sectionWrites(
+      LocalOnly.LocalConfigSchema,
+      live.deviceConfig,
+      backup.config,
+      selected,
+      "config",
+      skipped
+    ),
+    moduleConfig: sectionWrites(
+      LocalOnly.LocalModuleConfigSchema,
+      live.moduleConfig,
+      backup.moduleConfig,
+      selected,
+      "module_config",
+      skipped
+    ),
+    channels,
+    clearChannels: restoreChannels
+      ? activeChannels(live.channels)
+          .map((c) => c.index)
+          .filter((index) => !channels.some((c) => c.index === index))
+      : [],
+    skipped,
+  };
+}
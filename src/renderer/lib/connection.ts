@@ -2,6 +2,8 @@ import { MeshDevice } from "@meshtastic/core";
 import { TransportWebBluetooth } from "@meshtastic/transport-web-bluetooth";
 import { TransportWebSerial } from "@meshtastic/transport-web-serial";
 import { TransportHTTP } from "@meshtastic/transport-http";
+import { TransportTCP, parseTcpAddress } from "./tcpTransport";
+import { TransportSimulated, loadSimulationOptions } from "./simulator";
 import type { ConnectionType } from "./types";
 
 /**
@@ -15,10 +17,16 @@ import type { ConnectionType } from "./types";
  *   intercepts via select-serial-port. Same flow as BLE.
  *
  * HTTP: Connects directly to a WiFi-enabled Meshtastic node.
+ *
+ * TCP: Opens a stream-API socket (default port 4403) through the main
+ *   process — used by meshtasticd and network-attached nodes.
+ *
+ * Simulated: An in-process fake mesh (see simulator.ts) for demos and
+ *   development without radios. Options come from localStorage.
  */
 export async function createConnection(
   type: ConnectionType,
-  httpAddress?: string
+  address?: string
 ): Promise<MeshDevice> {
   let transport: { toDevice: WritableStream; fromDevice: ReadableStream; disconnect?: () => Promise<void> };
 
@@ -46,11 +54,11 @@ export async function createConnection(
       break;
 
     case "http": {
-      if (!httpAddress) throw new Error("HTTP address required");
+      if (!address) throw new Error("HTTP address required");
       // TransportHTTP.create() expects a raw hostname/IP, not a full URL.
       // It constructs http:// or https:// internally based on the tls flag.
       // Strip protocol if the user provided one.
-      let host = httpAddress.trim();
+      let host = address.trim();
       const useTls = host.startsWith("https://");
       host = host.replace(/^https?:\/\//, "");
       // Strip trailing slashes
@@ -59,6 +67,17 @@ export async function createConnection(
       break;
     }
 
+    case "tcp": {
+      if (!address) throw new Error("TCP address required");
+      const { host, port } = parseTcpAddress(address);
+      transport = await TransportTCP.create(host, port);
+      break;
+    }
+
+    case "simulated":
+      transport = await TransportSimulated.create(loadSimulationOptions());
+      break;
+
     default:
       throw new Error(`Unknown connection type: ${type}`);
   }
@@ -0,0 +1,115 @@
+// ─── Force-directed graph layout ─────────────────────────────────────
+// A small spring/repulsion simulation for the topology view. Meshes are
+// at most a few hundred nodes, so the O(n²) repulsion pass is fine.
+
+export interface LayoutNode {
+  id: number;
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  // Pinned while the user drags it
+  fixed?: boolean;
+}
+
+export interface LayoutEdge {
+  source: number;
+  target: number;
+}
+
+const REPULSION = 6000;
+const SPRING_LENGTH = 110;
+const SPRING_STRENGTH = 0.04;
+const GRAVITY = 0.01;
+const DAMPING = 0.82;
+const MAX_SPEED = 40;
+
+/** Alpha below which the layout is considered settled */
+export const LAYOUT_MIN_ALPHA = 0.005;
+export const LAYOUT_ALPHA_DECAY = 0.985;
+
+/** Add nodes for new ids (scattered around the center) and drop missing ones */
+export function syncLayoutNodes(layout: Map<number, LayoutNode>, ids: number[]): boolean {
+  let changed = false;
+  const wanted = new Set(ids);
+  for (const id of Array.from(layout.keys())) {
+    if (!wanted.has(id)) {
+      layout.delete(id);
+      changed = true;
+    }
+  }
+  for (const id of ids) {
+    if (layout.has(id)) continue;
+    const angle = Math.random() * 2 * Math.PI;
+    const radius = 50 + Math.random() * 150;
+    layout.set(id, { id, x: Math.cos(angle) * radius, y: Math.sin(angle) * radius, vx: 0, vy: 0 });
+    changed = true;
+  }
+  return changed;
+}
+
+/** Advance the simulation one tick, scaled by alpha (0–1); centered on 0,0 */
+export function stepLayout(
+  layout: Map<number, LayoutNode>,
+  edges: LayoutEdge[],
+  alpha: number
+): void {
+  const nodes = Array.from(layout.values());
+
+  for (let i = 0; i < nodes.length; i++) {
+    for (let j = i + 1; j < nodes.length; j++) {
+      const a = nodes[i];
+      const b = nodes[j];
+      let dx = b.x - a.x;
+      let dy = b.y - a.y;
+      let dist2 = dx * dx + dy * dy;
+      if (dist2 < 1) {
+        // Coincident nodes: nudge apart in a random direction
+        dx = Math.random() - 0.5;
+        dy = Math.random() - 0.5;
+        dist2 = 1;
+      }
+      const dist = Math.sqrt(dist2);
+      const force = (REPULSION / dist2) * alpha;
+      const fx = (dx / dist) * force;
+      const fy = (dy / dist) * force;
+      a.vx -= fx;
+      a.vy -= fy;
+      b.vx += fx;
+      b.vy += fy;
+    }
+  }
+
+  for (const edge of edges) {
+    const a = layout.get(edge.source);
+    const b = layout.get(edge.target);
+    if (!a || !b) continue;
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const dist = Math.sqrt(dx * dx + dy * dy) || 1;
+    const force = (dist - SPRING_LENGTH) * SPRING_STRENGTH * alpha;
+    const fx = (dx / dist) * force;
+    const fy = (dy / dist) * force;
+    a.vx += fx;
+    a.vy += fy;
+    b.vx -= fx;
+    b.vy -= fy;
+  }
+
+  for (const node of nodes) {
+    if (node.fixed) {
+      node.vx = 0;
+      node.vy = 0;
+      continue;
+    }
+    node.vx = (node.vx - node.x * GRAVITY * alpha) * DAMPING;
+    node.vy = (node.vy - node.y * GRAVITY * alpha) * DAMPING;
+    const speed = Math.hypot(node.vx, node.vy);
+    if (speed > MAX_SPEED) {
+      node.vx = (node.vx / speed) * MAX_SPEED;
+      node.vy = (node.vy / speed) * MAX_SPEED;
+    }
+    node.x += node.vx;
+    node.y += node.vy;
+  }
+}
@@ -0,0 +1,322 @@
+import type { Feature, FeatureCollection, Geometry, Position } from "geojson";
+import type { GeoFormat, MeshNode, PositionPoint } from "./types";
+
+// ─── GPX / KML / GeoJSON conversion ───────────────────────────────
+// Export builds one document from node positions (points) and recorded
+// tracks (lines). Import normalizes any of the three formats to a
+// GeoJSON FeatureCollection that Leaflet can draw as an overlay.
+
+export const GEO_FORMATS: Array<{ format: GeoFormat; label: string }> = [
+  { format: "gpx", label: "GPX" },
+  { format: "kml", label: "KML" },
+  { format: "geojson", label: "GeoJSON" },
+];
+
+interface ExportData {
+  nodes: MeshNode[];
+  tracks: Map<number, PositionPoint[]>;
+}
+
+function nodeName(node: MeshNode | undefined, nodeId: number): string {
+  return node?.long_name || `!${nodeId.toString(16)}`;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function isoTime(ms: number): string {
+  return new Date(ms).toISOString();
+}
+
+function toGeoJson({ nodes, tracks }: ExportData): string {
+  const byId = new Map(nodes.map((n) => [n.node_id, n]));
+  const features: Feature[] = nodes.map((node) => ({
+    type: "Feature",
+    geometry: { type: "Point", coordinates: [node.longitude, node.latitude] },
+    properties: {
+      name: nodeName(node, node.node_id),
+      shortName: node.short_name || undefined,
+      nodeId: `!${node.node_id.toString(16)}`,
+      lastHeard: node.last_heard ? isoTime(node.last_heard) : undefined,
+    },
+  }));
+  for (const [nodeId, track] of tracks) {
+    if (track.length < 2) continue;
+    features.push({
+      type: "Feature",
+      geometry: {
+        type: "LineString",
+        coordinates: track.map((p) =>
+          p.altitude !== undefined ? [p.longitude, p.latitude, p.altitude] : [p.longitude, p.latitude]
+        ),
+      },
+      properties: {
+        name: `${nodeName(byId.get(nodeId), nodeId)} track`,
+        nodeId: `!${nodeId.toString(16)}`,
+        // Per-vertex timestamps, as used by togeojson and Mapbox tools
+        coordTimes: track.map((p) => isoTime(p.timestamp)),
+      },
+    });
+  }
+  const collection: FeatureCollection = { type: "FeatureCollection", features };
+  return JSON.stringify(collection, null, 2);
+}
+
+function toGpx({ nodes, tracks }: ExportData): string {
+  const byId = new Map(nodes.map((n) => [n.node_id, n]));
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="Electastic" xmlns="http://www.topografix.com/GPX/1/1">',
+  ];
+  for (const node of nodes) {
+    lines.push(`  <wpt lat="${node.latitude}" lon="${node.longitude}">`);
+    if (node.last_heard) lines.push(`    <time>${isoTime(node.last_heard)}</time>`);
+    lines.push(`    <name>${escapeXml(nodeName(node, node.node_id))}</name>`);
+    lines.push(`    <desc>!${node.node_id.toString(16)}</desc>`);
+    lines.push("  </wpt>");
+  }
+  for (const [nodeId, track] of tracks) {
+    if (track.length < 2) continue;
+    lines.push("  <trk>");
+    lines.push(`    <name>${escapeXml(nodeName(byId.get(nodeId), nodeId))}</name>`);
+    lines.push("    <trkseg>");
+    for (const p of track) {
+      lines.push(`      <trkpt lat="${p.latitude}" lon="${p.longitude}">`);
+      if (p.altitude !== undefined) lines.push(`        <ele>${p.altitude}</ele>`);
+      lines.push(`        <time>${isoTime(p.timestamp)}</time>`);
+      lines.push("      </trkpt>");
+    }
+    lines.push("    </trkseg>");
+    lines.push("  </trk>");
+  }
+  lines.push("</gpx>");
+  return lines.join("\n");
+}
+
+function toKml({ nodes, tracks }: ExportData): string {
+  const byId = new Map(nodes.map((n) => [n.node_id, n]));
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    "  <Document>",
+    "    <name>Electastic</name>",
+  ];
+  for (const node of nodes) {
+    lines.push("    <Placemark>");
+    lines.push(`      <name>${escapeXml(nodeName(node, node.node_id))}</name>`);
+    lines.push(`      <description>!${node.node_id.toString(16)}</description>`);
+    if (node.last_heard) {
+      lines.push(`      <TimeStamp><when>${isoTime(node.last_heard)}</when></TimeStamp>`);
+    }
+    lines.push(`      <Point><coordinates>${node.longitude},${node.latitude}</coordinates></Point>`);
+    lines.push("    </Placemark>");
+  }
+  for (const [nodeId, track] of tracks) {
+    if (track.length < 2) continue;
+    const coords = track
+      .map((p) => `${p.longitude},${p.latitude}${p.altitude !== undefined ? `,${p.altitude}` : ""}`)
+      .join(" ");
+    lines.push("    <Placemark>");
+    lines.push(`      <name>${escapeXml(nodeName(byId.get(nodeId), nodeId))} track</name>`);
+    lines.push(
+      `      <TimeSpan><begin>${isoTime(track[0].timestamp)}</begin><end>${isoTime(
+        track[track.length - 1].timestamp
+      )}</end></TimeSpan>`
+    );
+    lines.push(`      <LineString><coordinates>${coords}</coordinates></LineString>`);
+    lines.push("    </Placemark>");
+  }
+  lines.push("  </Document>");
+  lines.push("</kml>");
+  return lines.join("\n");
+}
+
+export function exportGeoData(format: GeoFormat, data: ExportData): string {
+  switch (format) {
+    case "gpx":
+      return toGpx(data);
+    case "kml":
+      return toKml(data);
+    case "geojson":
+      return toGeoJson(data);
+  }
+}
+
+// ─── Import ─────────────────────────────────────────────────────────
+
+/** Direct children by local name (ignores XML namespaces) */
+function children(el: Element, name: string): Element[] {
+  return Array.from(el.children).filter((c) => c.localName === name);
+}
+
+/** All descendants by local name (ignores XML namespaces) */
+function descendants(el: Element | Document, name: string): Element[] {
+  return Array.from(el.getElementsByTagNameNS("*", name));
+}
+
+function childText(el: Element, name: string): string | undefined {
+  return children(el, name)[0]?.textContent?.trim() || undefined;
+}
+
+function parseXml(content: string): Document {
+  const doc = new DOMParser().parseFromString(content, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length > 0) {
+    throw new Error("File is not valid XML");
+  }
+  return doc;
+}
+
+function gpxPosition(pt: Element): Position {
+  const lon = Number(pt.getAttribute("lon"));
+  const lat = Number(pt.getAttribute("lat"));
+  const ele = childText(pt, "ele");
+  return ele !== undefined ? [lon, lat, Number(ele)] : [lon, lat];
+}
+
+function feature(geometry: Geometry, name?: string, description?: string): Feature {
+  return { type: "Feature", geometry, properties: { name, description } };
+}
+
+function parseGpx(content: string): FeatureCollection {
+  const doc = parseXml(content);
+  const features: Feature[] = [];
+  for (const wpt of descendants(doc, "wpt")) {
+    features.push(
+      feature({ type: "Point", coordinates: gpxPosition(wpt) }, childText(wpt, "name"), childText(wpt, "desc"))
+    );
+  }
+  for (const rte of descendants(doc, "rte")) {
+    const coords = children(rte, "rtept").map(gpxPosition);
+    if (coords.length > 1) {
+      features.push(feature({ type: "LineString", coordinates: coords }, childText(rte, "name"), childText(rte, "desc")));
+    }
+  }
+  for (const trk of descendants(doc, "trk")) {
+    const segments = children(trk, "trkseg")
+      .map((seg) => children(seg, "trkpt").map(gpxPosition))
+      .filter((seg) => seg.length > 1);
+    if (segments.length === 0) continue;
+    features.push(
+      feature(
+        segments.length === 1
+          ? { type: "LineString", coordinates: segments[0] }
+          : { type: "MultiLineString", coordinates: segments },
+        childText(trk, "name"),
+        childText(trk, "desc")
+      )
+    );
+  }
+  return { type: "FeatureCollection", features };
+}
+
+/** KML coordinate tuples: "lon,lat[,alt] lon,lat[,alt] …" */
+function kmlCoordinates(el: Element | undefined): Position[] {
+  const text = el ? childText(el, "coordinates") : undefined;
+  if (!text) return [];
+  return text
+    .split(/\s+/)
+    .map((tuple) => tuple.split(",").map(Number))
+    .filter((pos) => pos.length >= 2 && pos.every(Number.isFinite));
+}
+
+function kmlGeometries(el: Element): Geometry[] {
+  const geometries: Geometry[] = [];
+  for (const child of Array.from(el.children)) {
+    switch (child.localName) {
+      case "Point": {
+        const [pos] = kmlCoordinates(child);
+        if (pos) geometries.push({ type: "Point", coordinates: pos });
+        break;
+      }
+      case "LineString": {
+        const coords = kmlCoordinates(child);
+        if (coords.length > 1) geometries.push({ type: "LineString", coordinates: coords });
+        break;
+      }
+      case "Polygon": {
+        const outer = children(child, "outerBoundaryIs")[0];
+        const ring = outer ? kmlCoordinates(children(outer, "LinearRing")[0]) : [];
+        const holes = children(child, "innerBoundaryIs").map((inner) =>
+          kmlCoordinates(children(inner, "LinearRing")[0])
+        );
+        if (ring.length > 2) geometries.push({ type: "Polygon", coordinates: [ring, ...holes] });
+        break;
+      }
+      case "Track": {
+        // gx:Track — space-separated "lon lat alt" per gx:coord
+        const coords = children(child, "coord")
+          .map((c) => (c.textContent ?? "").trim().split(/\s+/).map(Number))
+          .filter((pos) => pos.length >= 2 && pos.every(Number.isFinite));
+        if (coords.length > 1) geometries.push({ type: "LineString", coordinates: coords });
+        break;
+      }
+      case "MultiGeometry":
+      case "MultiTrack":
+        geometries.push(...kmlGeometries(child));
+        break;
+    }
+  }
+  return geometries;
+}
+
+function parseKml(content: string): FeatureCollection {
+  const doc = parseXml(content);
+  const features: Feature[] = [];
+  for (const placemark of descendants(doc, "Placemark")) {
+    const name = childText(placemark, "name");
+    const description = childText(placemark, "description");
+    for (const geometry of kmlGeometries(placemark)) {
+      features.push(feature(geometry, name, description));
+    }
+  }
+  return { type: "FeatureCollection", features };
+}
+
+function parseGeoJson(content: string): FeatureCollection {
+  const data = JSON.parse(content) as { type?: string };
+  if (data.type === "FeatureCollection") return data as FeatureCollection;
+  if (data.type === "Feature") return { type: "FeatureCollection", features: [data as Feature] };
+  if (typeof data.type === "string") {
+    return { type: "FeatureCollection", features: [feature(data as Geometry)] };
+  }
+  throw new Error("File is not GeoJSON");
+}
+
+/** Parse an imported file; the format is taken from the file extension */
+export function parseGeoFile(filePath: string, content: string): FeatureCollection {
+  const ext = filePath.split(".").pop()?.toLowerCase();
+  const collection =
+    ext === "gpx" ? parseGpx(content) : ext === "kml" ? parseKml(content) : parseGeoJson(content);
+  if (collection.features.length === 0) {
+    throw new Error("No points, routes or shapes found");
+  }
+  return collection;
+}
+
+// ─── Saved overlays (localStorage) ──────────────────────────────────
+// Imported files are remembered by path and re-read when the map loads.
+
+export interface OverlaySetting {
+  path: string;
+  enabled: boolean;
+}
+
+const OVERLAYS_KEY = "electastic:mapOverlays";
+
+export function loadOverlaySettings(): OverlaySetting[] {
+  try {
+    const raw = localStorage.getItem(OVERLAYS_KEY);
+    if (raw) return JSON.parse(raw);
+  } catch { /* ignore corrupt data */ }
+  return [];
+}
+
+export function saveOverlaySettings(overlays: OverlaySetting[]) {
+  localStorage.setItem(OVERLAYS_KEY, JSON.stringify(overlays));
+}
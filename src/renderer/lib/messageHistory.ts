@@ -0,0 +1,29 @@
+import type { ChatMessage, MessageCursor } from "./types";
+
+/**
+ * Identity of a message across the live session and the database. Live
+ * messages have no row id until reloaded, so match on what the DB merge
+ * dedups on: sender, timestamp and text.
+ */
+export function messageKey(msg: ChatMessage): string {
+  return `${msg.sender_id}:${msg.timestamp}:${msg.payload}`;
+}
+
+/** Paging cursor positioned at a message */
+export function messageCursor(msg: ChatMessage): MessageCursor {
+  return { timestamp: msg.timestamp, id: msg.id };
+}
+
+/** Whether a message comes before the cursor in paging order (timestamp, then row id) */
+export function isBeforeCursor(msg: ChatMessage, cursor: MessageCursor): boolean {
+  if (msg.timestamp !== cursor.timestamp) return msg.timestamp < cursor.timestamp;
+  return msg.id !== undefined && cursor.id !== undefined && msg.id < cursor.id;
+}
+
+/** Merge history rows into the in-memory list, keeping existing entries, oldest-first */
+export function mergeMessages(current: ChatMessage[], history: ChatMessage[]): ChatMessage[] {
+  const seen = new Set(current.map(messageKey));
+  const added = history.filter((m) => !seen.has(messageKey(m)));
+  if (added.length === 0) return current;
+  return [...current, ...added].sort((a, b) => a.timestamp - b.timestamp);
+}
@@ -0,0 +1,158 @@
+import type { ChatMessage } from "./types";
+
+// Text longer than one packet is sent as numbered parts, each prefixed
+// with "[n/m] " (the same marker other clients use), and shown again as
+// one bubble once every part has arrived.
+
+/** Usable text payload per packet, in UTF-8 bytes */
+export const MAX_MESSAGE_BYTES = 228;
+/** Longest message the composer will split */
+export const MAX_MESSAGE_PARTS = 10;
+
+const PART_MARKER = /^\[(\d{1,2})\/(\d{1,2})\] /;
+// Parts of one message are sent back to back; don't join stragglers
+const PART_GROUP_WINDOW_MS = 10 * 60_000;
+
+const encoder = new TextEncoder();
+
+export function utf8Length(text: string): number {
+  return encoder.encode(text).length;
+}
+
+function graphemes(text: string): string[] {
+  const segmenter = new Intl.Segmenter(undefined, { granularity: "grapheme" });
+  return Array.from(segmenter.segment(text), (s) => s.segment);
+}
+
+/** Number of packets a text needs (Infinity if it is too long to split) */
+export function countParts(text: string): number {
+  try {
+    return splitMessage(text).length;
+  } catch {
+    return Infinity;
+  }
+}
+
+/** Whether the composer may send a text of this many parts */
+export function isSendablePartCount(parts: number): boolean {
+  return Number.isFinite(parts) && parts <= MAX_MESSAGE_PARTS;
+}
+
+/**
+ * Split text into packet-sized parts with "[n/m] " markers. Breaks after
+ * whitespace where possible and never inside a character or emoji.
+ * Throws if the text would need more parts than the markers can number.
+ */
+export function splitMessage(text: string, maxBytes = MAX_MESSAGE_BYTES): string[] {
+  if (utf8Length(text) <= maxBytes) return [text];
+
+  const chars = graphemes(text);
+  // The marker grows with the part count, so retry with a wider reserve
+  for (let digits = 1; digits <= 2; digits++) {
+    const reserve = utf8Length(`[${"9".repeat(digits)}/${"9".repeat(digits)}] `);
+    const chunks: string[] = [];
+    let start = 0;
+    while (start < chars.length) {
+      let end = start;
+      let bytes = 0;
+      while (end < chars.length && bytes + utf8Length(chars[end]) <= maxBytes - reserve) {
+        bytes += utf8Length(chars[end]);
+        end++;
+      }
+      // A single oversized grapheme still has to go somewhere
+      if (end === start) end++;
+      if (end < chars.length) {
+        // Back up to the last whitespace in the second half of the chunk
+        for (let i = end; i > start + (end - start) / 2; i--) {
+          if (/\s/.test(chars[i - 1])) {
+            end = i;
+            break;
+          }
+        }
+      }
+      // Kept verbatim (trailing space included) so joining restores the text
+      chunks.push(chars.slice(start, end).join(""));
+      start = end;
+    }
+    if (chunks.length < 10 ** digits) {
+      return chunks.map((chunk, i) => `[${i + 1}/${chunks.length}] ${chunk}`);
+    }
+  }
+  throw new Error("Message is too long to split into numbered parts");
+}
+
+export function parsePartMarker(payload: string): { index: number; total: number; text: string } | null {
+  const match = PART_MARKER.exec(payload);
+  if (!match) return null;
+  const index = Number(match[1]);
+  const total = Number(match[2]);
+  if (total < 2 || index < 1 || index > total) return null;
+  return { index, total, text: payload.slice(match[0].length) };
+}
+
+/** A chat bubble; `parts` is set when it stands for a reassembled message */
+export type DisplayMessage = ChatMessage & { parts?: ChatMessage[] };
+
+// Worst delivery state among the parts decides the bubble's status
+const STATUS_RANK: Array<ChatMessage["status"]> = ["failed", "retrying", "queued", "sending", "acked"];
+
+function statusRank(status: ChatMessage["status"]): number {
+  const rank = STATUS_RANK.indexOf(status);
+  return rank < 0 ? STATUS_RANK.length : rank;
+}
+
+/**
+ * Replace complete sets of "[n/m]" parts from one sender in one
+ * conversation with a single bubble at the first part's position.
+ * Incomplete sets are left as separate messages until the rest arrive.
+ */
+export function combineMessageParts(messages: ChatMessage[]): DisplayMessage[] {
+  // Open sets per sender/conversation/total; parts map part number → list index
+  const open = new Map<string, Array<{ first: number; parts: Map<number, number> }>>();
+  const complete = new Map<number, ChatMessage[]>();
+  const absorbed = new Set<number>();
+
+  messages.forEach((msg, i) => {
+    const marker = parsePartMarker(msg.payload);
+    if (!marker || msg.emoji) return;
+    const key = `${msg.sender_id}:${msg.to ?? `ch${msg.channel}`}:${marker.total}`;
+    const sets = open.get(key) ?? [];
+    let set = sets.find(
+      (s) =>
+        !s.parts.has(marker.index) &&
+        Math.abs(msg.timestamp - messages[s.first].timestamp) < PART_GROUP_WINDOW_MS
+    );
+    if (!set) {
+      set = { first: i, parts: new Map() };
+      sets.push(set);
+      open.set(key, sets);
+    }
+    set.parts.set(marker.index, i);
+    if (set.parts.size === marker.total) {
+      const ordered = Array.from(set.parts.entries()).sort(([a], [b]) => a - b);
+      complete.set(set.first, ordered.map(([, idx]) => messages[idx]));
+      for (const [, idx] of ordered) absorbed.add(idx);
+      sets.splice(sets.indexOf(set), 1);
+    }
+  });
+
+  if (complete.size === 0) return messages;
+
+  const result: DisplayMessage[] = [];
+  messages.forEach((msg, i) => {
+    const parts = complete.get(i);
+    if (parts) {
+      const worst = parts.reduce((acc, p) => (statusRank(p.status) < statusRank(acc.status) ? p : acc));
+      result.push({
+        ...parts[0],
+        payload: parts.map((p) => parsePartMarker(p.payload)!.text).join(""),
+        status: worst.status,
+        error: worst.error,
+        parts,
+      });
+    } else if (!absorbed.has(i)) {
+      result.push(msg);
+    }
+  });
+  return result;
+}
@@ -0,0 +1,60 @@
+// Automatic resend of messages the mesh failed to deliver. Only routing
+// errors that suggest a transient problem are worth retrying by default;
+// the list is configurable in Settings.
+
+export interface RetryPolicy {
+  enabled: boolean;
+  // Total sends including the first one
+  maxAttempts: number;
+  // Wait before the first retry; doubles for every further attempt
+  baseDelayMs: number;
+  // Routing_Error codes that trigger a retry
+  retryableErrors: number[];
+}
+
+const RETRY_POLICY_KEY = "electastic:retryPolicy";
+
+// Routing_Error codes offered in the settings editor
+export const RETRYABLE_ERROR_CHOICES = [
+  { code: 3, label: "Timeout" },
+  { code: 5, label: "Max Retransmit" },
+  { code: 8, label: "No Response" },
+  { code: 1, label: "No Route" },
+  { code: 2, label: "Got NAK" },
+  { code: 32, label: "Duty Cycle Limit" },
+];
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  enabled: true,
+  maxAttempts: 3,
+  baseDelayMs: 10_000,
+  retryableErrors: [3, 5, 8],
+};
+
+const MAX_BACKOFF_MS = 10 * 60_000;
+
+export function loadRetryPolicy(): RetryPolicy {
+  try {
+    const saved = localStorage.getItem(RETRY_POLICY_KEY);
+    if (saved) return { ...DEFAULT_RETRY_POLICY, ...JSON.parse(saved) };
+  } catch { /* ignore corrupt data */ }
+  return DEFAULT_RETRY_POLICY;
+}
+
+export function saveRetryPolicy(policy: RetryPolicy): void {
+  localStorage.setItem(RETRY_POLICY_KEY, JSON.stringify(policy));
+}
+
+/** Delay before sending attempt number `nextAttempt` (2 = first retry) */
+export function retryDelay(policy: RetryPolicy, nextAttempt: number): number {
+  return Math.min(MAX_BACKOFF_MS, policy.baseDelayMs * 2 ** Math.max(0, nextAttempt - 2));
+}
+
+export function shouldRetry(policy: RetryPolicy, errorCode: number | undefined, attempt: number): boolean {
+  return (
+    policy.enabled &&
+    errorCode !== undefined &&
+    attempt < policy.maxAttempts &&
+    policy.retryableErrors.includes(errorCode)
+  );
+}
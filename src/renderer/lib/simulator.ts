@@ -0,0 +1,858 @@
+import { create, fromBinary, toBinary } from "@bufbuild/protobuf";
+import type { MessageInitShape } from "@bufbuild/protobuf";
+import { Mesh, Portnums, Telemetry, Channel, Config, ModuleConfig } from "@meshtastic/protobufs";
+import { splitMessage } from "./messageParts";
+
+// ─── Simulated mesh ────────────────────────────────────────────────
+// A fake radio that speaks the same FromRadio/ToRadio protobufs as real
+// hardware, so MeshDevice and every subscription in useDevice run
+// unchanged. Used for demos, development and end-to-end tests without
+// radios attached.
+
+export interface SimulationOptions {
+  /** Number of remote nodes in the fake mesh */
+  nodeCount: number;
+  /** PRNG seed — the same seed always produces the same mesh */
+  seed: number;
+  /** Mean seconds between incoming text messages (0 = off) */
+  textIntervalSec: number;
+  /** Mean seconds between position broadcasts (0 = off) */
+  positionIntervalSec: number;
+  /** Mean seconds between telemetry broadcasts (0 = off) */
+  telemetryIntervalSec: number;
+  /** Probability (0–1) that an outgoing message is ACKed */
+  ackSuccessRate: number;
+  /** Mean seconds between simulated connection drops (0 = off) */
+  linkDropIntervalSec: number;
+}
+
+export const DEFAULT_SIMULATION_OPTIONS: SimulationOptions = {
+  nodeCount: 8,
+  seed: 1,
+  textIntervalSec: 45,
+  positionIntervalSec: 20,
+  telemetryIntervalSec: 30,
+  ackSuccessRate: 0.85,
+  linkDropIntervalSec: 0,
+};
+
+const STORAGE_KEY = "electastic:simulator";
+
+export function loadSimulationOptions(): SimulationOptions {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) return { ...DEFAULT_SIMULATION_OPTIONS, ...JSON.parse(raw) };
+  } catch { /* ignore corrupt data */ }
+  return { ...DEFAULT_SIMULATION_OPTIONS };
+}
+
+export function saveSimulationOptions(options: SimulationOptions) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(options));
+}
+
+// Centered on Longmont, CO — matches the MapPanel default view
+const CENTER_LAT = 40.1672;
+const CENTER_LON = -105.1019;
+const AREA_RADIUS_M = 6_000;
+const METERS_PER_DEG_LAT = 111_320;
+const BROADCAST_ADDR = 0xffffffff;
+const CONFIG_PACKET_DELAY_MS = 15;
+
+const NODE_NAMES: Array<[string, string]> = [
+  ["Alpine Relay", "ALPR"],
+  ["Base Camp", "BASE"],
+  ["Trail Runner", "TRLR"],
+  ["Ridge Repeater", "RDGE"],
+  ["Search Team 1", "ST1"],
+  ["Search Team 2", "ST2"],
+  ["Fire Lookout", "LOOK"],
+  ["Mobile Unit", "MOBL"],
+  ["Creek Sensor", "CRK"],
+  ["Summit Hiker", "SUMT"],
+  ["Ranger Truck", "RNGR"],
+  ["Water Tower", "WTWR"],
+];
+
+const PHRASES = [
+  "Checking in, all good here",
+  "Anyone copy?",
+  "Heading to the ridge now",
+  "Signal is strong from up here",
+  "Battery at half, switching to power saving",
+  "Weather is turning, heading back",
+  "Copy that",
+  "Arrived at the trailhead",
+  "Relay test 1 2 3",
+  "Can someone confirm my position?",
+];
+
+// Longer than one packet — arrives as numbered parts
+const LONG_REPORT =
+  "Trail report: the lower switchbacks are washed out after last night's rain, " +
+  "so take the fire road past the water tower instead. Creek crossing at the " +
+  "second bridge is knee deep and fast, poles recommended. Upper meadow is dry " +
+  "and the repeater on the summit is running on solar with a full battery. " +
+  "Expect snow above 2400 m by tomorrow afternoon, plan to be off the ridge by noon.";
+
+// Remaining config sections reported during configure()
+const SIM_CONFIG: Array<MessageInitShape<typeof Config.ConfigSchema>["payloadVariant"]> = [
+  {
+    case: "position",
+    value: { positionBroadcastSecs: 900, gpsUpdateInterval: 120, fixedPosition: false },
+  },
+  { case: "power", value: { isPowerSaving: false } },
+  { case: "bluetooth", value: { enabled: true, fixedPin: 123456 } },
+  {
+    case: "display",
+    value: { screenOnSecs: 60, units: Config.Config_DisplayConfig_DisplayUnits.METRIC },
+  },
+  { case: "network", value: { ntpServer: "meshtastic.pool.ntp.org" } },
+  {
+    case: "security",
+    value: {
+      // Fixed placeholder keys; nothing is actually encrypted
+      publicKey: Uint8Array.from({ length: 32 }, (_, i) => (i * 37 + 11) & 255),
+      privateKey: Uint8Array.from({ length: 32 }, (_, i) => (i * 53 + 7) & 255),
+      serialEnabled: true,
+    },
+  },
+];
+
+// Module config, mostly firmware defaults
+const SIM_MODULE_CONFIG: Array<MessageInitShape<typeof ModuleConfig.ModuleConfigSchema>["payloadVariant"]> = [
+  { case: "mqtt", value: { address: "mqtt.meshtastic.org", root: "msh" } },
+  { case: "serial", value: {} },
+  { case: "externalNotification", value: {} },
+  { case: "storeForward", value: {} },
+  { case: "rangeTest", value: {} },
+  { case: "telemetry", value: { deviceUpdateInterval: 1800 } },
+  { case: "cannedMessage", value: {} },
+  { case: "audio", value: {} },
+  { case: "remoteHardware", value: {} },
+  { case: "neighborInfo", value: { enabled: true, updateInterval: 14_400 } },
+  { case: "ambientLighting", value: { current: 10 } },
+  { case: "detectionSensor", value: {} },
+  { case: "paxcounter", value: {} },
+];
+
+interface SimNode {
+  num: number;
+  longName: string;
+  shortName: string;
+  hwModel: number;
+  lat: number;
+  lon: number;
+  altitude: number;
+  /** Meters per second; 0 = fixed installation */
+  speed: number;
+  /** Degrees clockwise from north */
+  heading: number;
+  battery: number;
+  linkQuality: number;
+  channelUtilization: number;
+  airUtilTx: number;
+  /** Timestamp until which the node is out of range (link drop) */
+  silentUntil: number;
+  lastHeard: number;
+}
+
+/** Small deterministic PRNG (mulberry32) */
+function createRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+type FromRadioInit = MessageInitShape<typeof Mesh.FromRadioSchema>;
+
+/**
+ * Shared mesh state. Lives across reconnects so nodes keep their
+ * identity and positions when the simulated link drops and comes back.
+ */
+class SimulatedMesh {
+  readonly options: SimulationOptions;
+  readonly myNodeNum: number;
+  private readonly random: () => number;
+  private readonly nodes: SimNode[] = [];
+  private readonly self: SimNode;
+  private emit: ((bytes: Uint8Array) => void) | null = null;
+  private timers: Array<ReturnType<typeof setTimeout>> = [];
+  private lastMoveAt = Date.now();
+
+  constructor(options: SimulationOptions) {
+    this.options = options;
+    this.random = createRandom(options.seed);
+    this.myNodeNum = this.randomNodeNum();
+    this.self = this.createNode(this.myNodeNum, "Electastic Sim", "ESIM", true);
+    for (let i = 0; i < options.nodeCount; i++) {
+      const [longName, shortName] = NODE_NAMES[i % NODE_NAMES.length];
+      const suffix = i >= NODE_NAMES.length ? ` ${Math.floor(i / NODE_NAMES.length) + 1}` : "";
+      this.nodes.push(
+        this.createNode(this.randomNodeNum(), longName + suffix, shortName, i % 3 === 0)
+      );
+    }
+  }
+
+  attach(emit: (bytes: Uint8Array) => void) {
+    this.detach();
+    this.emit = emit;
+  }
+
+  detach() {
+    this.emit = null;
+    for (const timer of this.timers) clearTimeout(timer);
+    this.timers = [];
+  }
+
+  /** Handle a ToRadio message written by MeshDevice */
+  handleToRadio(bytes: Uint8Array) {
+    const toRadio = fromBinary(Mesh.ToRadioSchema, bytes);
+    switch (toRadio.payloadVariant.case) {
+      case "wantConfigId":
+        this.sendConfig(toRadio.payloadVariant.value);
+        break;
+      case "packet":
+        this.handleOutgoingPacket(toRadio.payloadVariant.value);
+        break;
+      default:
+        // Heartbeats and disconnect requests need no response
+        break;
+    }
+  }
+
+  // ─── Config dump (response to wantConfigId) ───────────────────
+  private sendConfig(configId: number) {
+    const now = Date.now();
+    const dump: FromRadioInit[] = [
+      {
+        payloadVariant: {
+          case: "myInfo",
+          value: { myNodeNum: this.myNodeNum, rebootCount: 1, minAppVersion: 30200 },
+        },
+      },
+      ...[this.self, ...this.nodes].map((node): FromRadioInit => ({
+        payloadVariant: {
+          case: "nodeInfo",
+          value: {
+            num: node.num,
+            user: this.userOf(node),
+            position: this.positionOf(node),
+            snr: node === this.self ? 0 : this.sampleSnr(node),
+            lastHeard: Math.floor((node === this.self ? now : node.lastHeard) / 1000),
+            deviceMetrics: {
+              batteryLevel: Math.round(node.battery),
+              voltage: this.voltageOf(node),
+              channelUtilization: node.channelUtilization,
+              airUtilTx: node.airUtilTx,
+            },
+            hopsAway: node === this.self ? 0 : this.hopsOf(node),
+          },
+        },
+      })),
+      {
+        payloadVariant: {
+          case: "config",
+          value: {
+            payloadVariant: {
+              case: "lora",
+              value: {
+                usePreset: true,
+                modemPreset: Config.Config_LoRaConfig_ModemPreset.LONG_FAST,
+                region: Config.Config_LoRaConfig_RegionCode.US,
+                hopLimit: 3,
+                txEnabled: true,
+              },
+            },
+          },
+        },
+      },
+      {
+        payloadVariant: {
+          case: "config",
+          value: {
+            payloadVariant: {
+              case: "device",
+              value: { role: Config.Config_DeviceConfig_Role.CLIENT },
+            },
+          },
+        },
+      },
+      ...SIM_CONFIG.map((payloadVariant): FromRadioInit => ({
+        payloadVariant: { case: "config", value: { payloadVariant } },
+      })),
+      ...SIM_MODULE_CONFIG.map((payloadVariant): FromRadioInit => ({
+        payloadVariant: { case: "moduleConfig", value: { payloadVariant } },
+      })),
+      {
+        payloadVariant: {
+          case: "channel",
+          value: {
+            index: 0,
+            role: Channel.Channel_Role.PRIMARY,
+            settings: { name: "", psk: new Uint8Array([1]) },
+          },
+        },
+      },
+      {
+        payloadVariant: {
+          case: "channel",
+          value: {
+            index: 1,
+            role: Channel.Channel_Role.SECONDARY,
+            settings: { name: "SimOps", psk: new Uint8Array([1]) },
+          },
+        },
+      },
+      { payloadVariant: { case: "configCompleteId", value: configId } },
+    ];
+
+    // Stream the dump with a small gap between packets, like a real radio
+    dump.forEach((init, i) => {
+      this.later(() => {
+        this.send(init);
+        if (i === dump.length - 1) this.startTraffic();
+      }, CONFIG_PACKET_DELAY_MS * (i + 1));
+    });
+  }
+
+  // ─── Background traffic ───────────────────────────────────────
+  private startTraffic() {
+    const { textIntervalSec, positionIntervalSec, telemetryIntervalSec } = this.options;
+    if (this.nodes.length === 0) return;
+    this.every(positionIntervalSec, () => {
+      this.moveNodes();
+      const node = this.pickAudibleNode();
+      if (node) this.sendPosition(node, BROADCAST_ADDR);
+    });
+    this.every(telemetryIntervalSec, () => {
+      const node = this.pickAudibleNode();
+      if (node) this.sendTelemetry(node);
+    });
+    this.every(textIntervalSec, () => {
+      const node = this.pickAudibleNode();
+      if (!node) return;
+      const text =
+        this.random() < 0.05
+          ? LONG_REPORT
+          : PHRASES[Math.floor(this.random() * PHRASES.length)];
+      // Mostly channel traffic; every so often a DM to us
+      const roll = this.random();
+      const to = roll < 0.15 ? this.myNodeNum : BROADCAST_ADDR;
+      const channel = to === BROADCAST_ADDR && roll > 0.85 ? 1 : 0;
+      splitMessage(text).forEach((part, i) =>
+        this.later(() => this.sendText(node, part, to, channel), i * 1500)
+      );
+    });
+    // Neighbor reports feed the topology view
+    this.every(120, () => {
+      const node = this.pickAudibleNode();
+      if (node) this.sendNeighborInfo(node);
+    });
+    // One fixed node shares a meeting point shortly after connecting
+    const host = this.nodes.find((n) => n.speed === 0);
+    if (host) this.later(() => this.sendWaypoint(host), 20_000);
+    // Individual nodes wander out of range for a few minutes
+    this.every(90, () => {
+      const node = this.nodes[Math.floor(this.random() * this.nodes.length)];
+      if (node.linkQuality < 0.6) {
+        node.silentUntil = Date.now() + (60 + this.random() * 240) * 1000;
+      }
+    });
+  }
+
+  private every(meanSec: number, fn: () => void) {
+    if (meanSec <= 0) return;
+    const tick = () => {
+      // ±50% jitter so nodes don't transmit in lockstep
+      const delay = meanSec * 1000 * (0.5 + this.random());
+      this.timers.push(
+        setTimeout(() => {
+          if (!this.emit) return;
+          fn();
+          tick();
+        }, delay)
+      );
+    };
+    tick();
+  }
+
+  private later(fn: () => void, delayMs: number) {
+    this.timers.push(
+      setTimeout(() => {
+        if (this.emit) fn();
+      }, delayMs)
+    );
+  }
+
+  // ─── Responses to packets sent by the client ──────────────────
+  private handleOutgoingPacket(packet: Mesh.MeshPacket) {
+    if (packet.payloadVariant.case !== "decoded") return;
+    const data = packet.payloadVariant.value;
+    const target = this.nodes.find((n) => n.num === packet.to);
+    const isBroadcast = packet.to === BROADCAST_ADDR;
+    const latency = 800 + this.random() * 2_500;
+
+    switch (data.portnum) {
+      case Portnums.PortNum.POSITION_APP:
+        if (data.wantResponse) {
+          const responders = isBroadcast ? this.nodes : target ? [target] : [];
+          for (const node of responders) {
+            if (!this.isAudible(node)) continue;
+            this.later(() => this.sendPosition(node, this.myNodeNum, packet.id), latency + this.random() * 3_000);
+          }
+        }
+        break;
+
+      case Portnums.PortNum.TRACEROUTE_APP:
+        if (target) {
+          this.later(() => this.sendTraceRoute(target, packet.id), latency * 2);
+        }
+        break;
+
+      default:
+        break;
+    }
+
+    if (packet.wantAck || data.wantResponse) {
+      this.later(() => this.sendRouting(packet, target, isBroadcast), latency);
+    }
+  }
+
+  private sendRouting(packet: Mesh.MeshPacket, target: SimNode | undefined, isBroadcast: boolean) {
+    let errorReason = Mesh.Routing_Error.NONE;
+    if (target && !this.isAudible(target)) {
+      errorReason = Mesh.Routing_Error.NO_RESPONSE;
+    } else if (this.random() > this.options.ackSuccessRate) {
+      errorReason = isBroadcast
+        ? Mesh.Routing_Error.MAX_RETRANSMIT
+        : this.random() < 0.5
+        ? Mesh.Routing_Error.TIMEOUT
+        : Mesh.Routing_Error.NO_RESPONSE;
+    }
+    // Broadcast ACKs are implicit (rebroadcast heard), so they come from us
+    const from = !isBroadcast && target && errorReason === Mesh.Routing_Error.NONE
+      ? target.num
+      : this.myNodeNum;
+    this.sendPacket({
+      from,
+      to: this.myNodeNum,
+      channel: packet.channel,
+      decoded: {
+        portnum: Portnums.PortNum.ROUTING_APP,
+        payload: toBinary(
+          Mesh.RoutingSchema,
+          create(Mesh.RoutingSchema, { variant: { case: "errorReason", value: errorReason } })
+        ),
+        requestId: packet.id,
+      },
+    });
+  }
+
+  // ─── Packet builders ──────────────────────────────────────────
+  private sendText(node: SimNode, text: string, to: number, channel: number) {
+    this.sendPacket({
+      from: node.num,
+      to,
+      channel,
+      decoded: {
+        portnum: Portnums.PortNum.TEXT_MESSAGE_APP,
+        payload: new TextEncoder().encode(text),
+      },
+    }, node);
+  }
+
+  private sendPosition(node: SimNode, to: number, requestId?: number) {
+    this.sendPacket({
+      from: node.num,
+      to,
+      decoded: {
+        portnum: Portnums.PortNum.POSITION_APP,
+        payload: toBinary(Mesh.PositionSchema, create(Mesh.PositionSchema, this.positionOf(node))),
+        requestId,
+      },
+    }, node);
+  }
+
+  private sendTelemetry(node: SimNode) {
+    // Fixed installations double as weather stations
+    if (node.speed === 0 && this.random() < 0.4) {
+      this.sendEnvironment(node);
+      return;
+    }
+
+    // Batteries drain slowly; nodes on "solar" recharge during the day
+    const hour = new Date().getHours();
+    const charging = node.speed === 0 && hour >= 9 && hour <= 17;
+    node.battery = Math.min(100, Math.max(3, node.battery + (charging ? 0.5 : -0.2 - this.random() * 0.3)));
+    node.channelUtilization = Math.max(0, Math.min(60, node.channelUtilization + (this.random() - 0.5) * 4));
+    node.airUtilTx = Math.max(0, Math.min(10, node.airUtilTx + (this.random() - 0.5)));
+
+    this.sendPacket({
+      from: node.num,
+      to: BROADCAST_ADDR,
+      decoded: {
+        portnum: Portnums.PortNum.TELEMETRY_APP,
+        payload: toBinary(
+          Telemetry.TelemetrySchema,
+          create(Telemetry.TelemetrySchema, {
+            time: Math.floor(Date.now() / 1000),
+            variant: {
+              case: "deviceMetrics",
+              value: {
+                batteryLevel: Math.round(node.battery),
+                voltage: this.voltageOf(node),
+                channelUtilization: node.channelUtilization,
+                airUtilTx: node.airUtilTx,
+                uptimeSeconds: Math.floor(performance.now() / 1000),
+              },
+            },
+          })
+        ),
+      },
+    }, node);
+  }
+
+  private sendEnvironment(node: SimNode) {
+    // Diurnal temperature curve peaking mid-afternoon
+    const hour = new Date().getHours() + new Date().getMinutes() / 60;
+    const temperature = 12 + 8 * Math.sin(((hour - 9) / 24) * 2 * Math.PI) + (this.random() - 0.5);
+    this.sendPacket({
+      from: node.num,
+      to: BROADCAST_ADDR,
+      decoded: {
+        portnum: Portnums.PortNum.TELEMETRY_APP,
+        payload: toBinary(
+          Telemetry.TelemetrySchema,
+          create(Telemetry.TelemetrySchema, {
+            time: Math.floor(Date.now() / 1000),
+            variant: {
+              case: "environmentMetrics",
+              value: {
+                temperature: Math.round(temperature * 10) / 10,
+                relativeHumidity: Math.round(55 - (temperature - 12) * 2 + this.random() * 4),
+                barometricPressure: Math.round((840 + (this.random() - 0.5) * 2) * 10) / 10,
+              },
+            },
+          })
+        ),
+      },
+    }, node);
+  }
+
+  private sendTraceRoute(target: SimNode, requestId: number) {
+    // Route through a relay for nodes that are more than one hop away
+    const relays = this.nodes.filter((n) => n !== target && n.speed === 0 && this.isAudible(n));
+    const hops = this.hopsOf(target) > 0 && relays.length > 0
+      ? [relays[Math.floor(this.random() * relays.length)].num]
+      : [];
+    const snr = () => Math.round(this.sampleSnr(target) * 4);
+    this.sendPacket({
+      from: target.num,
+      to: this.myNodeNum,
+      decoded: {
+        portnum: Portnums.PortNum.TRACEROUTE_APP,
+        payload: toBinary(
+          Mesh.RouteDiscoverySchema,
+          create(Mesh.RouteDiscoverySchema, {
+            route: hops,
+            snrTowards: [...hops.map(snr), snr()],
+            routeBack: [...hops].reverse(),
+            snrBack: [...hops.map(snr), snr()],
+          })
+        ),
+        requestId,
+      },
+    }, target);
+  }
+
+  private sendNeighborInfo(node: SimNode) {
+    // The closest few nodes, plus us when the node is in direct range
+    const lonScale = Math.cos((node.lat * Math.PI) / 180);
+    const distance = (n: SimNode) =>
+      Math.hypot(n.lat - node.lat, (n.lon - node.lon) * lonScale) * METERS_PER_DEG_LAT;
+    const nearest = this.nodes
+      .filter((n) => n !== node)
+      .sort((a, b) => distance(a) - distance(b))
+      .slice(0, 3);
+    const neighbors = nearest.map((n) => ({
+      nodeId: n.num,
+      // Roughly +10 dB next door down to -10 dB across the whole area
+      snr: Math.round((10 - (distance(n) / AREA_RADIUS_M) * 20 + (this.random() - 0.5) * 4) * 4) / 4,
+    }));
+    if (this.hopsOf(node) === 0) {
+      neighbors.push({ nodeId: this.myNodeNum, snr: this.sampleSnr(node) });
+    }
+    this.sendPacket({
+      from: node.num,
+      to: BROADCAST_ADDR,
+      decoded: {
+        portnum: Portnums.PortNum.NEIGHBORINFO_APP,
+        payload: toBinary(
+          Mesh.NeighborInfoSchema,
+          create(Mesh.NeighborInfoSchema, {
+            nodeId: node.num,
+            nodeBroadcastIntervalSecs: 120,
+            neighbors,
+          })
+        ),
+      },
+    }, node);
+  }
+
+  private sendWaypoint(node: SimNode) {
+    this.sendPacket({
+      from: node.num,
+      to: BROADCAST_ADDR,
+      decoded: {
+        portnum: Portnums.PortNum.WAYPOINT_APP,
+        payload: toBinary(
+          Mesh.WaypointSchema,
+          create(Mesh.WaypointSchema, {
+            id: (node.num ^ 0x5a5a5a5a) >>> 0,
+            latitudeI: Math.round((node.lat + 0.004) * 1e7),
+            longitudeI: Math.round((node.lon - 0.006) * 1e7),
+            name: "Meeting point",
+            description: `Shared by ${node.shortName}`,
+            icon: 0x1f6a9, // 🚩
+            lockedTo: node.num,
+            expire: Math.floor(Date.now() / 1000) + 6 * 3600,
+          })
+        ),
+      },
+    }, node);
+  }
+
+  private sendPacket(
+    init: {
+      from: number;
+      to: number;
+      channel?: number;
+      decoded: MessageInitShape<typeof Mesh.DataSchema>;
+    },
+    heardFrom?: SimNode
+  ) {
+    const hopStart = 3;
+    const hops = heardFrom ? this.hopsOf(heardFrom) : 0;
+    if (heardFrom) heardFrom.lastHeard = Date.now();
+    this.send({
+      payloadVariant: {
+        case: "packet",
+        value: {
+          from: init.from,
+          to: init.to,
+          channel: init.channel ?? 0,
+          id: Math.floor(this.random() * 0xfffffff0) + 1,
+          rxTime: Math.floor(Date.now() / 1000),
+          rxSnr: heardFrom ? this.sampleSnr(heardFrom) : 0,
+          rxRssi: heardFrom ? this.sampleRssi(heardFrom) : 0,
+          hopStart,
+          hopLimit: hopStart - hops,
+          payloadVariant: { case: "decoded", value: init.decoded },
+        },
+      },
+    });
+  }
+
+  private send(init: FromRadioInit) {
+    if (!this.emit) return;
+    this.emit(toBinary(Mesh.FromRadioSchema, create(Mesh.FromRadioSchema, init)));
+  }
+
+  // ─── Node model ───────────────────────────────────────────────
+  private createNode(num: number, longName: string, shortName: string, fixed: boolean): SimNode {
+    const distance = Math.sqrt(this.random()) * AREA_RADIUS_M;
+    const bearing = this.random() * 2 * Math.PI;
+    const lat = CENTER_LAT + (distance * Math.cos(bearing)) / METERS_PER_DEG_LAT;
+    const lon = CENTER_LON + (distance * Math.sin(bearing)) / (METERS_PER_DEG_LAT * Math.cos((CENTER_LAT * Math.PI) / 180));
+    return {
+      num,
+      longName,
+      shortName,
+      hwModel: [Mesh.HardwareModel.TBEAM, Mesh.HardwareModel.HELTEC_V3, Mesh.HardwareModel.RAK4631, Mesh.HardwareModel.T_DECK][Math.floor(this.random() * 4)],
+      lat,
+      lon,
+      altitude: 1500 + Math.round(this.random() * 400),
+      speed: fixed ? 0 : 1 + this.random() * 12,
+      heading: this.random() * 360,
+      battery: 40 + this.random() * 60,
+      linkQuality: 0.3 + this.random() * 0.7,
+      channelUtilization: 5 + this.random() * 20,
+      airUtilTx: this.random() * 3,
+      silentUntil: 0,
+      lastHeard: Date.now() - Math.floor(this.random() * 20 * 60_000),
+    };
+  }
+
+  private moveNodes() {
+    const now = Date.now();
+    const dt = (now - this.lastMoveAt) / 1000;
+    this.lastMoveAt = now;
+    const cosLat = Math.cos((CENTER_LAT * Math.PI) / 180);
+    for (const node of this.nodes) {
+      if (node.speed === 0) continue;
+      node.heading = (node.heading + (this.random() - 0.5) * 40 + 360) % 360;
+      const rad = (node.heading * Math.PI) / 180;
+      node.lat += (node.speed * dt * Math.cos(rad)) / METERS_PER_DEG_LAT;
+      node.lon += (node.speed * dt * Math.sin(rad)) / (METERS_PER_DEG_LAT * cosLat);
+      node.altitude += Math.round((this.random() - 0.5) * 6);
+      // Turn back toward the center when wandering off the map
+      const dy = (node.lat - CENTER_LAT) * METERS_PER_DEG_LAT;
+      const dx = (node.lon - CENTER_LON) * METERS_PER_DEG_LAT * cosLat;
+      if (Math.hypot(dx, dy) > AREA_RADIUS_M) {
+        node.heading = ((Math.atan2(-dx, -dy) * 180) / Math.PI + 360) % 360;
+      }
+    }
+  }
+
+  private userOf(node: SimNode): MessageInitShape<typeof Mesh.UserSchema> {
+    return {
+      id: `!${node.num.toString(16).padStart(8, "0")}`,
+      longName: node.longName,
+      shortName: node.shortName,
+      hwModel: node.hwModel,
+    };
+  }
+
+  private positionOf(node: SimNode): MessageInitShape<typeof Mesh.PositionSchema> {
+    return {
+      latitudeI: Math.round(node.lat * 1e7),
+      longitudeI: Math.round(node.lon * 1e7),
+      altitude: node.altitude,
+      time: Math.floor(Date.now() / 1000),
+      groundSpeed: Math.round(node.speed),
+      groundTrack: Math.round(node.heading * 1e5),
+      satsInView: 6 + Math.floor(this.random() * 8),
+      precisionBits: 32,
+    };
+  }
+
+  private voltageOf(node: SimNode): number {
+    return Math.round((3.3 + (node.battery / 100) * 0.9) * 100) / 100;
+  }
+
+  private hopsOf(node: SimNode): number {
+    return node.linkQuality > 0.6 ? 0 : node.linkQuality > 0.4 ? 1 : 2;
+  }
+
+  private sampleSnr(node: SimNode): number {
+    return Math.round((-15 + node.linkQuality * 25 + (this.random() - 0.5) * 4) * 4) / 4;
+  }
+
+  private sampleRssi(node: SimNode): number {
+    return Math.round(-125 + node.linkQuality * 70 + (this.random() - 0.5) * 8);
+  }
+
+  private isAudible(node: SimNode): boolean {
+    return Date.now() >= node.silentUntil;
+  }
+
+  private pickAudibleNode(): SimNode | null {
+    const audible = this.nodes.filter((n) => this.isAudible(n));
+    if (audible.length === 0) return null;
+    return audible[Math.floor(this.random() * audible.length)];
+  }
+
+  private randomNodeNum(): number {
+    return (Math.floor(this.random() * 0x7fffffff) | 0x10000000) >>> 0;
+  }
+}
+
+type DeviceOutput = { type: "packet"; data: Uint8Array };
+
+let sharedMesh: SimulatedMesh | null = null;
+
+/**
+ * Transport backed by a SimulatedMesh. Plugs into MeshDevice exactly like
+ * the BLE/serial/HTTP/TCP transports.
+ */
+export class TransportSimulated {
+  private readonly mesh: SimulatedMesh;
+  private readonly _toDevice: WritableStream<Uint8Array>;
+  private readonly _fromDevice: ReadableStream<DeviceOutput>;
+  private readonly closeListeners = new Set<(error?: string) => void>();
+  private controller: ReadableStreamDefaultController<DeviceOutput> | null = null;
+  private dropTimer: ReturnType<typeof setTimeout> | null = null;
+  private closed = false;
+
+  static async create(options: SimulationOptions = loadSimulationOptions()): Promise<TransportSimulated> {
+    // Reuse the mesh across reconnects unless the options changed
+    if (!sharedMesh || JSON.stringify(sharedMesh.options) !== JSON.stringify(options)) {
+      sharedMesh?.detach();
+      sharedMesh = new SimulatedMesh(options);
+    }
+    // Simulate the handshake latency of a real link
+    await new Promise((r) => setTimeout(r, 300));
+    return new TransportSimulated(sharedMesh);
+  }
+
+  private constructor(mesh: SimulatedMesh) {
+    this.mesh = mesh;
+
+    this._fromDevice = new ReadableStream<DeviceOutput>({
+      start: (c) => {
+        this.controller = c;
+      },
+      cancel: () => {
+        this.disconnect().catch(() => {});
+      },
+    });
+
+    this.mesh.attach((data) => {
+      try {
+        this.controller?.enqueue({ type: "packet", data });
+      } catch { /* stream already closed */ }
+    });
+
+    this._toDevice = new WritableStream<Uint8Array>({
+      write: (chunk) => {
+        if (this.closed) throw new Error("Simulated link is down");
+        this.mesh.handleToRadio(chunk);
+      },
+    });
+
+    const dropSec = mesh.options.linkDropIntervalSec;
+    if (dropSec > 0) {
+      const delay = dropSec * 1000 * (0.5 + Math.random());
+      this.dropTimer = setTimeout(() => this.handleClosed("Simulated link drop"), delay);
+    }
+  }
+
+  get toDevice(): WritableStream<Uint8Array> {
+    return this._toDevice;
+  }
+
+  get fromDevice(): ReadableStream<DeviceOutput> {
+    return this._fromDevice;
+  }
+
+  /** Subscribe to simulated link drops. */
+  onClose(listener: (error?: string) => void): () => void {
+    this.closeListeners.add(listener);
+    return () => {
+      this.closeListeners.delete(listener);
+    };
+  }
+
+  async disconnect(): Promise<void> {
+    this.closeListeners.clear();
+    this.handleClosed();
+  }
+
+  private handleClosed(error?: string) {
+    if (this.closed) return;
+    this.closed = true;
+    if (this.dropTimer) clearTimeout(this.dropTimer);
+    this.mesh.detach();
+    try { this.controller?.close(); } catch { /* already closed */ }
+    this.controller = null;
+    for (const listener of this.closeListeners) {
+      try { listener(error); } catch { /* ignore */ }
+    }
+    this.closeListeners.clear();
+  }
+}
@@ -0,0 +1,178 @@
+// Stream API framing shared by serial and TCP: 0x94 0xC3, then a
+// big-endian 16-bit payload length, then the protobuf payload.
+const START1 = 0x94;
+const START2 = 0xc3;
+const HEADER_LEN = 4;
+const MAX_PACKET_LEN = 512;
+
+export const DEFAULT_TCP_PORT = 4403;
+
+type DeviceOutput =
+  | { type: "packet"; data: Uint8Array }
+  | { type: "debug"; data: string };
+
+/**
+ * Parse "host", "host:port" or "[ipv6]:port" into a host and port.
+ * Falls back to the standard Meshtastic TCP port (4403).
+ */
+export function parseTcpAddress(address: string): { host: string; port: number } {
+  let host = address.trim().replace(/^tcp:\/\//, "").replace(/\/+$/, "");
+  let port = DEFAULT_TCP_PORT;
+
+  const bracketed = host.match(/^\[(.+)\](?::(\d+))?$/);
+  if (bracketed) {
+    host = bracketed[1];
+    if (bracketed[2]) port = Number(bracketed[2]);
+  } else if ((host.match(/:/g) ?? []).length === 1) {
+    const [h, p] = host.split(":");
+    host = h;
+    if (p) port = Number(p);
+  }
+
+  if (!host) throw new Error("TCP address required");
+  if (!Number.isInteger(port) || port < 1 || port > 65535) {
+    throw new Error(`Invalid TCP port: ${port}`);
+  }
+  return { host, port };
+}
+
+/**
+ * Transport for the Meshtastic TCP stream API (meshtasticd, or WiFi and
+ * Ethernet nodes on port 4403). The socket lives in the main process;
+ * this class only frames outgoing packets and reassembles incoming ones.
+ */
+export class TransportTCP {
+  private readonly socketId: number;
+  private readonly _toDevice: WritableStream<Uint8Array>;
+  private readonly _fromDevice: ReadableStream<DeviceOutput>;
+  private readonly closeListeners = new Set<(error?: string) => void>();
+  private readonly unsubscribes: Array<() => void> = [];
+  private controller: ReadableStreamDefaultController<DeviceOutput> | null = null;
+  private closed = false;
+
+  static async create(host: string, port = DEFAULT_TCP_PORT): Promise<TransportTCP> {
+    const socketId = await window.electronAPI.tcp.connect(host, port);
+    return new TransportTCP(socketId);
+  }
+
+  private constructor(socketId: number) {
+    this.socketId = socketId;
+
+    let buffer = new Uint8Array(0);
+
+    this._fromDevice = new ReadableStream<DeviceOutput>({
+      start: (c) => {
+        this.controller = c;
+      },
+      cancel: () => {
+        this.disconnect().catch(() => {});
+      },
+    });
+
+    this.unsubscribes.push(
+      window.electronAPI.tcp.onData((id, chunk) => {
+        const controller = this.controller;
+        if (id !== this.socketId || !controller) return;
+        const merged = new Uint8Array(buffer.length + chunk.length);
+        merged.set(buffer);
+        merged.set(chunk, buffer.length);
+        buffer = merged;
+
+        // Extract every complete frame in the buffer
+        for (;;) {
+          const start = findFrameStart(buffer);
+          if (start < 0) {
+            // Keep a trailing START1 in case START2 is in the next chunk
+            buffer = buffer[buffer.length - 1] === START1
+              ? buffer.slice(-1)
+              : new Uint8Array(0);
+            break;
+          }
+          if (buffer.length - start < HEADER_LEN) {
+            buffer = buffer.slice(start);
+            break;
+          }
+          const length = (buffer[start + 2] << 8) | buffer[start + 3];
+          if (length > MAX_PACKET_LEN) {
+            // Corrupt header — resync past this start marker
+            buffer = buffer.slice(start + 1);
+            continue;
+          }
+          const end = start + HEADER_LEN + length;
+          if (buffer.length < end) {
+            buffer = buffer.slice(start);
+            break;
+          }
+          controller.enqueue({
+            type: "packet",
+            data: buffer.slice(start + HEADER_LEN, end),
+          });
+          buffer = buffer.slice(end);
+        }
+      })
+    );
+
+    this.unsubscribes.push(
+      window.electronAPI.tcp.onClosed((id, error) => {
+        if (id !== this.socketId) return;
+        this.handleClosed(error);
+      })
+    );
+
+    this._toDevice = new WritableStream<Uint8Array>({
+      write: async (chunk) => {
+        if (this.closed) throw new Error("TCP connection closed");
+        const frame = new Uint8Array(HEADER_LEN + chunk.length);
+        frame[0] = START1;
+        frame[1] = START2;
+        frame[2] = (chunk.length >> 8) & 0xff;
+        frame[3] = chunk.length & 0xff;
+        frame.set(chunk, HEADER_LEN);
+        await window.electronAPI.tcp.write(this.socketId, frame);
+      },
+    });
+  }
+
+  get toDevice(): WritableStream<Uint8Array> {
+    return this._toDevice;
+  }
+
+  get fromDevice(): ReadableStream<DeviceOutput> {
+    return this._fromDevice;
+  }
+
+  /** Subscribe to socket closure (remote hang-up or network error). */
+  onClose(listener: (error?: string) => void): () => void {
+    this.closeListeners.add(listener);
+    return () => {
+      this.closeListeners.delete(listener);
+    };
+  }
+
+  async disconnect(): Promise<void> {
+    if (this.closed) return;
+    this.closeListeners.clear();
+    await window.electronAPI.tcp.disconnect(this.socketId);
+    this.handleClosed();
+  }
+
+  private handleClosed(error?: string) {
+    if (this.closed) return;
+    this.closed = true;
+    for (const unsub of this.unsubscribes) unsub();
+    this.unsubscribes.length = 0;
+    try { this.controller?.close(); } catch { /* already closed */ }
+    this.controller = null;
+    for (const listener of this.closeListeners) {
+      try { listener(error); } catch { /* ignore */ }
+    }
+    this.closeListeners.clear();
+  }
+}
+
+function findFrameStart(buffer: Uint8Array): number {
+  for (let i = 0; i < buffer.length - 1; i++) {
+    if (buffer[i] === START1 && buffer[i + 1] === START2) return i;
+  }
+  return -1;
+}
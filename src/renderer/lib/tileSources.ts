@@ -0,0 +1,51 @@
+// ─── Map tile source settings (localStorage) ──────────────────────
+// The online OpenStreetMap layer plus any number of local MBTiles
+// packages. MBTiles are remembered by file path and re-opened in the
+// main process when the map loads. Online tiles go through the main
+// process tile cache (tilecache://), so pre-downloaded regions work
+// without a network connection.
+
+export interface TileSourceSettings {
+  osmEnabled: boolean;
+  /** XYZ URL template for the online layer; may point at a local tile server */
+  onlineUrl: string;
+  mbtiles: Array<{ path: string; enabled: boolean }>;
+}
+
+const STORAGE_KEY = "electastic:tileSources";
+
+export const DEFAULT_ONLINE_URL = "https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png";
+
+const DEFAULT_SETTINGS: TileSourceSettings = {
+  osmEnabled: true,
+  onlineUrl: DEFAULT_ONLINE_URL,
+  mbtiles: [],
+};
+
+export function loadTileSourceSettings(): TileSourceSettings {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) return { ...DEFAULT_SETTINGS, ...JSON.parse(raw) };
+  } catch { /* ignore corrupt data */ }
+  return { ...DEFAULT_SETTINGS, mbtiles: [] };
+}
+
+export function saveTileSourceSettings(settings: TileSourceSettings) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
+
+export function mbtilesUrl(sourceId: string): string {
+  return `mbtiles://${sourceId}/{z}/{x}/{y}`;
+}
+
+/** Online tiles served cache-first by the main process */
+export function cachedTileUrl(template: string): string {
+  return `tilecache://tile/{z}/{x}/{y}?u=${encodeURIComponent(template)}`;
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`;
+}
@@ -1,4 +1,4 @@
-export type ConnectionType = "ble" | "serial" | "http";
+export type ConnectionType = "ble" | "serial" | "http" | "tcp" | "simulated";
 
 export interface MeshNode {
   node_id: number;
@@ -21,8 +21,12 @@ export interface ChatMessage {
   timestamp: number;
   // Delivery status tracking
   packetId?: number;
-  status?: "sending" | "acked" | "failed";
+  status?: "queued" | "sending" | "retrying" | "acked" | "failed";
   error?: string;
+  // Sends so far for own messages (unset = 1)
+  attempts?: number;
+  // Outbox row id while status is "queued"
+  queueId?: number;
   // Emoji reactions / tapback
   emoji?: number;
   replyId?: number;
@@ -30,22 +34,225 @@ export interface ChatMessage {
   to?: number;
 }
 
+/** A message composed while disconnected, waiting in the outbox */
+export interface QueuedMessage {
+  id: number;
+  payload: string;
+  channel: number;
+  to?: number;
+  replyId?: number;
+  createdAt: number;
+}
+
+/** A chat view to page through: one channel's broadcasts (all if omitted) or a DM thread */
+export type MessageConversation =
+  | { kind: "channel"; channel?: number }
+  | { kind: "dm"; self: number; peer: number };
+
+/** Paging cursor — the oldest message already loaded */
+export interface MessageCursor {
+  timestamp: number;
+  id?: number;
+}
+
+export interface MessageSearchFilters {
+  senderId?: number;
+  // Channel index; channel filtering also applies to DMs unless dm is false
+  channel?: number;
+  // true = only DMs, false = only channel broadcasts, unset = both
+  dm?: boolean;
+  since?: number;
+  until?: number;
+}
+
+export interface MessageSearchResult extends ChatMessage {
+  id: number;
+  // Payload excerpt with matches wrapped in \u0002 … \u0003
+  snippet: string;
+}
+
 export interface TelemetryPoint {
+  nodeId: number;
   timestamp: number;
+  // Device metrics
   batteryLevel?: number;
   voltage?: number;
+  channelUtilization?: number;
+  airUtilTx?: number;
+  uptimeSeconds?: number;
+  // Environment metrics (SI units as reported by the firmware)
+  temperature?: number;         // °C
+  relativeHumidity?: number;    // %
+  barometricPressure?: number;  // hPa
+  gasResistance?: number;       // MΩ
+  lux?: number;
+  iaq?: number;
+  // Power metrics (INA sensors, up to three channels)
+  ch1Voltage?: number;          // V
+  ch1Current?: number;          // mA
+  ch2Voltage?: number;
+  ch2Current?: number;
+  ch3Voltage?: number;
+  ch3Current?: number;
+  // Air quality metrics
+  pm10Standard?: number;        // µg/m³ (PM1.0)
+  pm25Standard?: number;        // µg/m³ (PM2.5)
+  pm100Standard?: number;       // µg/m³ (PM10)
+  particles03um?: number;       // particles per 0.1 L
+  particles05um?: number;
+  particles10um?: number;
+  particles25um?: number;
+  particles50um?: number;
+  particles100um?: number;
+  co2?: number;                 // ppm
+  // Signal quality of the packet that carried the sample
   snr?: number;
   rssi?: number;
 }
 
+/** One position fix from a node, as stored in the positions table */
+export interface PositionPoint {
+  nodeId: number;
+  timestamp: number;
+  latitude: number;
+  longitude: number;
+  altitude?: number;            // m above MSL
+  groundSpeed?: number;         // m/s
+  groundTrack?: number;         // degrees true
+  precisionBits?: number;
+  satsInView?: number;
+}
+
+/** A shared map point (WAYPOINT_APP) */
+export interface Waypoint {
+  id: number;
+  from: number;
+  channel: number;
+  latitude: number;
+  longitude: number;
+  name: string;
+  description: string;
+  // Unicode codepoint of the emoji icon
+  icon?: number;
+  // Only this node may edit or delete the waypoint
+  lockedTo?: number;
+  // Expiry time in ms (undefined = never)
+  expire?: number;
+  updatedAt: number;
+}
+
+/** A traceroute reply: hops between us (from) and the target (to) */
+export interface TraceRouteResult {
+  id?: number;
+  from: number;
+  to: number;
+  timestamp: number;
+  // Intermediate hops only; endpoints are from/to
+  route: number[];
+  // SNR in dB as received at each hop towards the target, then the target (null = unknown)
+  snrTowards: Array<number | null>;
+  routeBack: number[];
+  // SNR in dB at each hop on the way back, then at us
+  snrBack: Array<number | null>;
+}
+
+/** A directed radio link: `to` heard `from` with the given SNR */
+export interface MeshLink {
+  from: number;
+  to: number;
+  snr: number | null;
+  lastSeen: number;
+  source: "neighborinfo" | "traceroute";
+}
+
+export type DisplayUnits = "metric" | "imperial";
+
+/** Per-sender traffic counters built from received mesh packets */
+export interface PacketStats {
+  nodeId: number;
+  packets: number;
+  bytes: number;
+  lastSeen: number;
+  // Packet count per portnum (-1 = encrypted / not decodable)
+  byPort: Record<number, number>;
+}
+
 export interface DeviceState {
   status: "disconnected" | "connecting" | "connected" | "configured" | "stale" | "reconnecting";
   myNodeNum: number;
   connectionType: ConnectionType | null;
+  // HTTP/TCP host of the active connection (for manual reconnect)
+  connectionAddress?: string;
   reconnectAttempt?: number;
   lastDataReceived?: number;
 }
 
+export type GeoFormat = "gpx" | "kml" | "geojson";
+
+export interface MbtilesInfo {
+  id: string;
+  path: string;
+  name: string;
+  format: string;
+  minZoom: number;
+  maxZoom: number;
+  // [west, south, east, north]
+  bounds?: [number, number, number, number];
+  attribution?: string;
+}
+
+export interface TileBounds {
+  west: number;
+  south: number;
+  east: number;
+  north: number;
+}
+
+export interface TileRegion extends TileBounds {
+  id: number;
+  name: string;
+  urlTemplate: string;
+  minZoom: number;
+  maxZoom: number;
+  tileCount: number;
+  downloaded: number;
+  failed: number;
+  status: "downloading" | "complete" | "cancelled" | "failed";
+  createdAt: number;
+}
+
+export interface TileDownloadProgress {
+  regionId: number;
+  done: number;
+  failed: number;
+  total: number;
+  status: TileRegion["status"];
+}
+
+export interface RetentionPolicy {
+  enabled: boolean;
+  // 0 disables each limit
+  messageMaxAgeDays: number;
+  maxMessagesPerChannel: number;
+  keepDirectMessages: boolean;
+  nodeMaxAgeDays: number;
+}
+
+export interface PruneResult {
+  at: number;
+  messagesDeleted: number;
+  nodesDeleted: number;
+}
+
+export interface DatabaseReport {
+  path: string;
+  fileBytes: number;
+  walBytes: number;
+  freeBytes: number;
+  tables: Array<{ name: string; rows: number }>;
+  lastPrune: PruneResult | null;
+}
+
 export interface BluetoothDevice {
   deviceId: string;
   deviceName: string;
@@ -69,6 +276,23 @@ declare global {
           channel?: number,
           limit?: number
         ) => Promise<ChatMessage[]>;
+        queueMessage: (item: Omit<QueuedMessage, "id">) => Promise<number>;
+        requeueMessage: (item: QueuedMessage) => Promise<unknown>;
+        getQueuedMessages: () => Promise<QueuedMessage[]>;
+        updateQueuedMessage: (id: number, payload: string) => Promise<unknown>;
+        deleteQueuedMessage: (id: number) => Promise<{ changes: number }>;
+        clearOutbox: () => Promise<unknown>;
+        getMessagePage: (
+          conversation: MessageConversation,
+          before?: MessageCursor | null,
+          limit?: number
+        ) => Promise<ChatMessage[]>;
+        searchMessages: (
+          query: string,
+          filters?: MessageSearchFilters,
+          limit?: number
+        ) => Promise<MessageSearchResult[]>;
+        getMessageContext: (id: number, around?: number) => Promise<ChatMessage[]>;
         saveNode: (node: MeshNode) => Promise<unknown>;
         getNodes: () => Promise<MeshNode[]>;
         clearMessages: () => Promise<unknown>;
@@ -79,9 +303,97 @@ declare global {
           status: string,
           error?: string
         ) => Promise<unknown>;
+        markMessageResent: (
+          oldPacketId: number,
+          newPacketId: number,
+          attempts: number
+        ) => Promise<unknown>;
+        saveTelemetry: (point: TelemetryPoint) => Promise<unknown>;
+        getTelemetry: (
+          nodeId?: number | null,
+          since?: number,
+          until?: number,
+          limit?: number
+        ) => Promise<TelemetryPoint[]>;
+        getTelemetryNodes: () => Promise<
+          Array<{ nodeId: number; count: number; lastTimestamp: number }>
+        >;
+        clearTelemetry: () => Promise<unknown>;
+        savePosition: (point: PositionPoint) => Promise<unknown>;
+        getPositions: (
+          nodeId?: number | null,
+          since?: number,
+          until?: number,
+          limit?: number
+        ) => Promise<PositionPoint[]>;
+        clearPositions: () => Promise<unknown>;
+        saveWaypoint: (waypoint: Waypoint) => Promise<unknown>;
+        getWaypoints: () => Promise<Waypoint[]>;
+        deleteWaypoint: (id: number) => Promise<unknown>;
+        pruneWaypoints: () => Promise<number>;
+        clearWaypoints: () => Promise<unknown>;
+        saveTraceroute: (result: TraceRouteResult) => Promise<number>;
+        getTraceroutes: (nodeId?: number | null, limit?: number) => Promise<TraceRouteResult[]>;
+        clearTraceroutes: () => Promise<unknown>;
+        saveLinks: (links: MeshLink[]) => Promise<void>;
+        getLinks: (since?: number) => Promise<MeshLink[]>;
+        clearLinks: () => Promise<unknown>;
+        getRetention: () => Promise<RetentionPolicy>;
+        setRetention: (policy: RetentionPolicy) => Promise<RetentionPolicy>;
+        pruneNow: () => Promise<PruneResult>;
+        report: () => Promise<DatabaseReport>;
+        vacuum: () => Promise<{ bytesBefore: number; bytesAfter: number }>;
+        integrityCheck: () => Promise<{ ok: boolean; problems: string[] }>;
         exportDb: () => Promise<string | null>;
         importDb: () => Promise<{ nodesAdded: number; messagesAdded: number } | null>;
       };
+      tcp: {
+        connect: (host: string, port: number) => Promise<number>;
+        write: (socketId: number, data: Uint8Array) => Promise<void>;
+        disconnect: (socketId: number) => Promise<void>;
+        onData: (
+          cb: (socketId: number, data: Uint8Array) => void
+        ) => () => void;
+        onClosed: (
+          cb: (socketId: number, error?: string) => void
+        ) => () => void;
+      };
+      geo: {
+        exportFile: (format: GeoFormat, content: string) => Promise<string | null>;
+        importFiles: () => Promise<Array<{ path: string; content: string }> | null>;
+        readFile: (filePath: string) => Promise<string>;
+        forgetFile: (filePath: string) => Promise<void>;
+      };
+      config: {
+        exportFile: (content: string) => Promise<string | null>;
+        importFile: () => Promise<{ path: string; content: string } | null>;
+      };
+      mbtiles: {
+        add: () => Promise<{ added: MbtilesInfo[]; errors: string[] } | null>;
+        open: (filePath: string) => Promise<MbtilesInfo>;
+        close: (id: string) => Promise<void>;
+      };
+      tiles: {
+        estimate: (
+          bounds: TileBounds,
+          minZoom: number,
+          maxZoom: number
+        ) => Promise<{ tileCount: number; estimatedBytes: number; maxTiles: number }>;
+        download: (
+          options: TileBounds & {
+            name: string;
+            urlTemplate: string;
+            minZoom: number;
+            maxZoom: number;
+          }
+        ) => Promise<number>;
+        cancel: (regionId: number) => Promise<void>;
+        listRegions: () => Promise<TileRegion[]>;
+        deleteRegion: (regionId: number) => Promise<void>;
+        clear: () => Promise<void>;
+        stats: () => Promise<{ tileCount: number; bytes: number; regionCount: number }>;
+        onProgress: (cb: (progress: TileDownloadProgress) => void) => () => void;
+      };
       onBluetoothDevicesDiscovered: (
         cb: (devices: BluetoothDevice[]) => void
       ) => () => void;